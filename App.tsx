@@ -1,106 +1,404 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { flushSync } from 'react-dom';
+import { createRoot } from 'react-dom/client';
+import { renderToStaticMarkup } from 'react-dom/server';
 import ReactMarkdown from 'react-markdown';
 import remarkMath from 'remark-math';
 import remarkGfm from 'remark-gfm';
 import rehypeKatex from 'rehype-katex';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, 
-  LineChart, Line, AreaChart, Area, PieChart, Pie, Cell, Legend
+  Line, Area, PieChart, Pie, Cell, Legend, ComposedChart, Scatter
 } from 'recharts';
-import { View, Schedule, Subject, DayOfWeek, StudySession, ChatMessage, TimerState, SavedNote } from './types';
-import { SUBJECTS, DAYS, SUBJECT_INFO } from './constants';
-import { getTutorResponse, speakText, playNotificationSound, resumeAudio } from './services/geminiService';
+import { View, Schedule, Subject, DayOfWeek, StudySession, ChatMessage, TimerState, SavedNote, Conversation, QuizQuestion, QuizAttempt, Flashcard, ReviewGrade, StudyLogEntry, TimerProfile, StudyPlanRequest, ChatAttachment, VoiceLanguage, AIProviderSettings, ConversationSummary, TutorPersona, SubjectDefinition } from './types';
+import { DAYS, DEFAULT_TIMER_PROFILES } from './constants';
+import { streamTutorResponse, summarizeConversation, generateQuiz, generateFlashcards, generateStudyPlan, transcribeAudio } from './services/aiService';
+import { toAIError } from './services/aiErrors';
+import { parseChartSpec, axisTitle, formatFit, CHART_COLORS } from './services/chartSpec';
+import { checkReaction, formulaSegments, ReactionCheck, Species } from './services/chemEquation';
+import { loadNotes, suggestNoteTitle, normalizeTags, collectTags, buildSearchIndex, searchNotes, filterNotes } from './services/noteService';
+import { ankiRowsFromNotes, ankiRowsFromFlashcards, exportAnkiCsv, exportAnkiPackage, parseAnkiText, readAnkiPackage, matchDeckSubject, ankiNotesToSavedNotes, ImportedAnkiNote } from './services/ankiService';
+import { packFromNotes, packFromConversation, groupSectionsBySubject, wrapStudyPackHtml, studyPackFilename, StudyPack, StudyPackFormat } from './services/studyPackService';
+import { composeSystemPrompt, defaultPersonaFor, mergePersonas, exportPersonasJson, parsePersonaImport, sanitizePersona, isDefaultPersona, PERSONA_OPTIONS } from './services/personaService';
+import { loadSubjects, serializeSubjects, subjectInfo, visibleSubjects, validateSubject, createSubjectId, SUBJECT_COLOR_PRESETS } from './services/subjectService';
+import { planContext, estimateTokens, messageTokens, maxSummaryTokens, defaultContextBudget } from './services/contextService';
+import { PROVIDER_OPTIONS, DEFAULT_PROVIDER_SETTINGS, defaultModelFor, resolveProviderConfig } from './services/aiProvider';
+import { playNotificationSound, resumeAudio } from './services/audioService';
+import { listConversations, saveConversation, deleteConversation } from './services/chatStore';
+import { gradeQuiz } from './services/quizService';
+import { readAttachment, attachmentDataUrl, ATTACHMENT_ACCEPT, MAX_ATTACHMENTS } from './services/attachmentService';
+import { startDictation, isDictationSupported, VOICE_LANGUAGES, DictationSession } from './services/voiceInputService';
+import { playMessage, enqueueMessage, pausePlayback, resumePlayback, stopPlayback, setPlaybackRate, subscribePlayback, getPlaybackState, PlaybackState, SPEECH_RATES } from './services/speechService';
+import { createFlashcard, scheduleReview, isDue, countDueBySubject } from './services/flashcardService';
+import { phaseSeconds, initialTimerState, timerModeLabel, sanitizeTimerProfile, loadTimerProfiles, remainingSeconds, startTimer, pauseTimer, advanceTimer, loadTimerState } from './services/timerService';
+import { exportScheduleJson, exportScheduleIcs, parseScheduleImport, findImportConflict, applyScheduleImport } from './services/scheduleTransfer';
+import { validateSession, toMinutes, fromMinutes } from './services/scheduleValidation';
+import { weeklyHoursBySubject, computeStreak, plannedVsActual, dailyHeatmap, resolveScheduledSession, endedSessionsBetween, scheduleOccurrenceKey, MAX_LOG_ENTRIES } from './services/analyticsService';
 import { 
   Plus, Calendar, MessageSquare, Trash2, 
   ChevronLeft, LayoutDashboard, Clock, 
   Settings, Bell, Play, CheckCircle, 
-  ChevronRight, BrainCircuit, Volume2, Pause, RotateCcw,
+  ChevronRight, BrainCircuit, Volume2, Pause, RotateCcw, Square,
   Zap, BookOpen, X, BellOff, Info, Share, TestTube,
   Maximize2, Minimize2, ExternalLink, Bookmark, Download, Copy, Save,
-  RefreshCw, Database, Shield, Activity
+  RefreshCw, Database, Shield, Activity, Pencil, History, ClipboardCheck, Trophy, Timer, Layers, Sparkles, Upload, FileDown, Paperclip, Camera, FileText, Mic, Loader2, AlertTriangle, Search, Tag, Eye
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
+import SmilesDrawer from 'smiles-drawer';
 
 const STORAGE_KEY = 'med_quest_v5_schedules';
 const ACTIVE_ID_KEY = 'med_quest_v5_active_id';
 const API_KEY_STORAGE = 'med_quest_v5_api_key';
+const AI_PROVIDER_KEY = 'med_quest_v5_ai_provider';
+const PERSONAS_KEY = 'med_quest_v5_personas';
+const SUBJECTS_KEY = 'med_quest_v5_subjects';
 const NOTES_STORAGE_KEY = 'med_quest_v5_saved_notes';
+const QUIZ_ATTEMPTS_KEY = 'med_quest_v5_quiz_attempts';
+const FLASHCARDS_KEY = 'med_quest_v5_flashcards';
+const STUDY_LOG_KEY = 'med_quest_v5_study_log';
+const SCHEDULE_LOG_CHECKED_KEY = 'med_quest_v5_schedule_log_checked';
+const TIMER_PROFILES_KEY = 'med_quest_v5_timer_profiles';
+const ACTIVE_TIMER_PROFILE_KEY = 'med_quest_v5_timer_profile_id';
+const TIMER_STATE_KEY = 'med_quest_v5_timer_state';
+const VOICE_LANGUAGE_KEY = 'med_quest_v5_voice_language';
+const SPEECH_RATE_KEY = 'med_quest_v5_speech_rate';
 
-const ChartRenderer: React.FC<{ content: string }> = ({ content }) => {
-  try {
-    const chartData = JSON.parse(content);
-    const { type, data, title, xKey = 'name', yKey = 'value' } = chartData;
-    
-    const COLORS = ['#2563eb', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899'];
+const downloadFile = (filename: string, content: BlobPart, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+const CHART_TOOLTIP_STYLE = { borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', fontSize: '10px' };
+const CHART_TICK = { fill: '#94a3b8' };
+
+// printWidth renders at a fixed size without animation, so the SVG can be copied into a study pack straight after mounting
+const ChartRenderer: React.FC<{ content: string, printWidth?: number }> = ({ content, printWidth }) => {
+  const parsed = useMemo(() => {
+    try {
+      return { spec: parseChartSpec(content) };
+    } catch (e: any) {
+      return { error: e?.message || 'invalid chart' };
+    }
+  }, [content]);
+
+  if (!parsed.spec) {
+    return (
+      <div className="my-4 bg-red-50 p-3 rounded-xl border border-red-200 text-red-600">
+        <p className="text-[10px] font-bold">Chart error: {parsed.error}</p>
+        <details className="mt-1">
+          <summary className="text-[9px] cursor-pointer text-red-400">Show block</summary>
+          <pre className="text-[8px] mt-1 whitespace-pre-wrap break-all">{content}</pre>
+        </details>
+      </div>
+    );
+  }
 
+  const spec = parsed.spec;
+  const xTitle = axisTitle(spec.x);
+  const yTitle = axisTitle(spec.y);
+  const xAxisLabel = xTitle ? { value: xTitle, position: 'insideBottom' as const, offset: -4, fontSize: 8, fill: '#64748b' } : undefined;
+  const yAxisLabel = yTitle ? { value: yTitle, angle: -90, position: 'insideLeft' as const, fontSize: 8, fill: '#64748b', style: { textAnchor: 'middle' as const } } : undefined;
+  const yDomain: [number | 'auto', number | 'auto'] = [spec.y.min ?? 'auto', spec.y.max ?? 'auto'];
+  const showLegend = spec.series.length > 1 || (spec.kind === 'xy' && spec.series.some(s => s.fit));
+  const margin = { top: 5, right: 10, bottom: xTitle ? 12 : 0, left: yTitle ? 8 : -10 };
+  const animate = printWidth === undefined;
+
+  const renderChart = () => {
+    if (spec.kind === 'xy') {
+      return (
+        <ComposedChart margin={margin}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" />
+          <XAxis type="number" dataKey="x" domain={[spec.x.min ?? 'dataMin', spec.x.max ?? 'dataMax']} allowDataOverflow fontSize={8} tick={CHART_TICK} axisLine={false} tickLine={false} label={xAxisLabel} />
+          <YAxis type="number" dataKey="y" domain={yDomain} allowDataOverflow fontSize={8} tick={CHART_TICK} axisLine={false} tickLine={false} label={yAxisLabel} />
+          <Tooltip contentStyle={CHART_TOOLTIP_STYLE} />
+          {showLegend && <Legend iconType="circle" wrapperStyle={{ fontSize: '8px', paddingTop: '10px' }} />}
+          {spec.series.map((s, i) => s.line ? (
+            <Line key={`s-${i}`} data={s.points} dataKey="y" name={s.name} stroke={s.color} strokeWidth={2} dot={false} isAnimationActive={false} />
+          ) : (
+            <Scatter key={`s-${i}`} data={s.points} dataKey="y" name={s.name} fill={s.color} isAnimationActive={animate} />
+          ))}
+          {spec.series.map((s, i) => s.fit && (
+            <Line key={`fit-${i}`} data={s.fit.points} dataKey="y" name={`Fit: ${formatFit(s.fit)}`} stroke={s.color} strokeDasharray="5 3" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+          ))}
+        </ComposedChart>
+      );
+    }
+    if (spec.type === 'pie') {
+      const key = spec.series[0].key;
+      return (
+        <PieChart>
+          <Pie data={spec.data} cx="50%" cy="50%" innerRadius={40} outerRadius={60} paddingAngle={5} dataKey={key} nameKey={spec.xKey} isAnimationActive={animate}>
+            {spec.data.map((_, index) => (
+              <Cell key={`cell-${index}`} fill={CHART_COLORS[index % CHART_COLORS.length]} />
+            ))}
+          </Pie>
+          <Tooltip contentStyle={CHART_TOOLTIP_STYLE} />
+          <Legend iconType="circle" wrapperStyle={{ fontSize: '8px', paddingTop: '10px' }} />
+        </PieChart>
+      );
+    }
+    const stackId = spec.stacked ? 'stack' : undefined;
     return (
-      <div className="my-4 bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
-        {title && <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-800 mb-4 text-center">{title}</h4>}
-        <div className="h-48 w-full">
+      <ComposedChart data={spec.data} margin={margin}>
+        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+        <XAxis dataKey={spec.xKey} fontSize={8} tick={CHART_TICK} axisLine={false} tickLine={false} label={xAxisLabel} />
+        <YAxis domain={yDomain} allowDataOverflow={spec.y.min !== undefined || spec.y.max !== undefined} fontSize={8} tick={CHART_TICK} axisLine={false} tickLine={false} label={yAxisLabel} />
+        <Tooltip contentStyle={CHART_TOOLTIP_STYLE} />
+        {showLegend && <Legend iconType="circle" wrapperStyle={{ fontSize: '8px', paddingTop: '10px' }} />}
+        {spec.series.map(s => spec.type === 'bar' ? (
+          <Bar key={s.key} dataKey={s.key} name={s.name} fill={s.color} stackId={stackId} radius={stackId ? undefined : [4, 4, 0, 0]} isAnimationActive={animate} />
+        ) : spec.type === 'area' ? (
+          <Area key={s.key} type="monotone" dataKey={s.key} name={s.name} stroke={s.color} fill={s.color} fillOpacity={0.15} strokeWidth={2} stackId={stackId} isAnimationActive={animate} />
+        ) : (
+          <Line key={s.key} type="monotone" dataKey={s.key} name={s.name} stroke={s.color} strokeWidth={2} dot={{ r: 3 }} activeDot={{ r: 5 }} isAnimationActive={animate} />
+        ))}
+      </ComposedChart>
+    );
+  };
+
+  return (
+    <div className="my-4 bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
+      {spec.title && <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-800 mb-4 text-center">{spec.title}</h4>}
+      {printWidth !== undefined ? (
+        React.cloneElement(renderChart(), { width: printWidth, height: showLegend ? 240 : 192 })
+      ) : (
+        <div className={`${showLegend ? 'h-60' : 'h-48'} w-full`}>
           <ResponsiveContainer width="100%" height="100%">
-            {type === 'bar' ? (
-              <BarChart data={data}>
-                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
-                <XAxis dataKey={xKey} fontSize={8} tick={{ fill: '#94a3b8' }} axisLine={false} tickLine={false} />
-                <YAxis fontSize={8} tick={{ fill: '#94a3b8' }} axisLine={false} tickLine={false} />
-                <Tooltip 
-                  contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', fontSize: '10px' }}
-                />
-                <Bar dataKey={yKey} fill="#2563eb" radius={[4, 4, 0, 0]} />
-              </BarChart>
-            ) : type === 'line' ? (
-              <LineChart data={data}>
-                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
-                <XAxis dataKey={xKey} fontSize={8} tick={{ fill: '#94a3b8' }} axisLine={false} tickLine={false} />
-                <YAxis fontSize={8} tick={{ fill: '#94a3b8' }} axisLine={false} tickLine={false} />
-                <Tooltip 
-                  contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', fontSize: '10px' }}
-                />
-                <Line type="monotone" dataKey={yKey} stroke="#2563eb" strokeWidth={2} dot={{ r: 3 }} activeDot={{ r: 5 }} />
-              </LineChart>
-            ) : type === 'area' ? (
-              <AreaChart data={data}>
-                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
-                <XAxis dataKey={xKey} fontSize={8} tick={{ fill: '#94a3b8' }} axisLine={false} tickLine={false} />
-                <YAxis fontSize={8} tick={{ fill: '#94a3b8' }} axisLine={false} tickLine={false} />
-                <Tooltip 
-                  contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', fontSize: '10px' }}
-                />
-                <Area type="monotone" dataKey={yKey} stroke="#2563eb" fill="#dbeafe" strokeWidth={2} />
-              </AreaChart>
-            ) : type === 'pie' ? (
-              <PieChart>
-                <Pie
-                  data={data}
-                  cx="50%"
-                  cy="50%"
-                  innerRadius={40}
-                  outerRadius={60}
-                  paddingAngle={5}
-                  dataKey={yKey}
-                >
-                  {data.map((entry: any, index: number) => (
-                    <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                  ))}
-                </Pie>
-                <Tooltip 
-                  contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', fontSize: '10px' }}
-                />
-                <Legend iconType="circle" wrapperStyle={{ fontSize: '8px', paddingTop: '10px' }} />
-              </PieChart>
-            ) : null}
+            {renderChart()}
           </ResponsiveContainer>
         </div>
+      )}
+    </div>
+  );
+};
+
+// ```smiles blocks: the first line is the SMILES string, any further lines are shown as a caption
+const SmilesRenderer: React.FC<{ content: string }> = ({ content }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [smiles, ...captionLines] = content.trim().split('\n').map(l => l.trim());
+  const caption = captionLines.filter(Boolean).join(' ');
+
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    setError(null);
+    svg.innerHTML = '';
+    SmilesDrawer.parse(smiles, tree => {
+      try {
+        new SmilesDrawer.SvgDrawer({ width: 320, height: 220, compactDrawing: false }).draw(tree, svg, 'light');
+      } catch (e: any) {
+        setError(e?.message || 'could not draw this structure');
+      }
+    }, e => setError(e?.message || 'invalid SMILES'));
+  }, [smiles]);
+
+  if (error) {
+    return (
+      <div className="my-4 bg-red-50 p-3 rounded-xl border border-red-200 text-red-600">
+        <p className="text-[10px] font-bold">Structure error: {error}</p>
+        <details className="mt-1">
+          <summary className="text-[9px] cursor-pointer text-red-400">Show block</summary>
+          <pre className="text-[8px] mt-1 whitespace-pre-wrap break-all">{content}</pre>
+        </details>
+      </div>
+    );
+  }
+
+  return (
+    <figure className="my-4 bg-white p-4 rounded-xl border border-slate-200 shadow-sm flex flex-col items-center">
+      <svg ref={svgRef} className="w-full max-w-xs h-48" />
+      <figcaption className="mt-2 text-center">
+        {caption && <span className="block text-[10px] font-black uppercase tracking-widest text-slate-800">{caption}</span>}
+        <code className="text-[9px] text-slate-400 break-all">{smiles}</code>
+      </figcaption>
+    </figure>
+  );
+};
+
+const SpeciesText: React.FC<{ species: Species, coefficient?: number }> = ({ species, coefficient = species.coefficient }) => (
+  <span className="whitespace-nowrap">
+    {coefficient !== 1 && <span className="font-black mr-0.5">{coefficient}</span>}
+    {formulaSegments(species).map((seg, i) => seg.kind === 'sub' ? <sub key={i}>{seg.text}</sub> : seg.kind === 'sup' ? <sup key={i}>{seg.text}</sup> : <span key={i}>{seg.text}</span>)}
+    {species.state && <span className="text-[0.7em] text-slate-400">({species.state})</span>}
+  </span>
+);
+
+const EquationText: React.FC<{ check: ReactionCheck, coefficients?: number[] }> = ({ check, coefficients }) => {
+  const side = (list: Species[], offset: number) => list.map((s, i) => (
+    <React.Fragment key={i}>
+      {i > 0 && <span className="mx-1.5 text-slate-400">+</span>}
+      <SpeciesText species={s} coefficient={coefficients?.[offset + i]} />
+    </React.Fragment>
+  ));
+  return (
+    <span>
+      {side(check.reactants, 0)}
+      <span className="mx-2 text-slate-500">{check.arrow}</span>
+      {side(check.products, check.reactants.length)}
+    </span>
+  );
+};
+
+const formatCharge = (charge: number) => charge === 0 ? '0' : `${charge > 0 ? '+' : '−'}${Math.abs(charge)}`;
+
+// ```reaction blocks: one equation such as "2H2 + O2 -> 2H2O", checked for atom and charge balance
+const ReactionRenderer: React.FC<{ content: string }> = ({ content }) => {
+  const parsed = useMemo(() => {
+    try {
+      return { check: checkReaction(content) };
+    } catch (e: any) {
+      return { error: e?.message || 'invalid equation' };
+    }
+  }, [content]);
+
+  if (!parsed.check) {
+    return (
+      <div className="my-4 bg-red-50 p-3 rounded-xl border border-red-200 text-red-600">
+        <p className="text-[10px] font-bold">Equation error: {parsed.error}</p>
+        <details className="mt-1">
+          <summary className="text-[9px] cursor-pointer text-red-400">Show block</summary>
+          <pre className="text-[8px] mt-1 whitespace-pre-wrap break-all">{content}</pre>
+        </details>
       </div>
     );
-  } catch (e) {
-    return <pre className="text-[8px] bg-red-50 p-2 rounded text-red-500">Chart Error: Invalid Data Format</pre>;
+  }
+
+  const check = parsed.check;
+  return (
+    <div className="my-4 bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
+      <div className="text-sm text-slate-800 text-center overflow-x-auto py-1"><EquationText check={check} /></div>
+      {check.balanced ? (
+        <p className="mt-2 text-center text-[9px] font-black uppercase tracking-widest text-emerald-600">✓ Balanced</p>
+      ) : (
+        <div className="mt-3 bg-amber-50 border border-amber-200 rounded-lg p-2.5 text-[10px] text-amber-800 space-y-1">
+          <p className="font-black uppercase tracking-widest text-[9px]">⚠ Not balanced</p>
+          {check.mismatches.map(m => (
+            <p key={m.element}>{m.element}: {m.left} on the left, {m.right} on the right</p>
+          ))}
+          {check.charge.left !== check.charge.right && (
+            <p>Charge: {formatCharge(check.charge.left)} on the left, {formatCharge(check.charge.right)} on the right</p>
+          )}
+          {check.suggestion && (
+            <p className="pt-1 text-slate-700">Balanced: <EquationText check={check} coefficients={check.suggestion} /></p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Anki typesets math with its own MathJax, so formulas go over as \( \) and \[ \] rather than KaTeX markup
+const ANKI_MARKDOWN_COMPONENTS = {
+  pre({ node, children, ...props }: any) {
+    const isMath = node?.children?.[0]?.properties?.className?.includes('math-display');
+    return isMath ? <div>{children}</div> : <pre {...props}>{children}</pre>;
+  },
+  code({ node, className, children, ...props }: any) {
+    if (className?.includes('math-display')) return <>{`\\[${String(children)}\\]`}</>;
+    if (className?.includes('math-inline')) return <>{`\\(${String(children)}\\)`}</>;
+    return <code className={className} {...props}>{children}</code>;
+  }
+};
+
+const markdownToAnkiHtml = (markdown: string) => renderToStaticMarkup(
+  <ReactMarkdown remarkPlugins={[remarkMath, remarkGfm]} components={ANKI_MARKDOWN_COMPONENTS}>{markdown}</ReactMarkdown>
+);
+
+const PACK_CHART_WIDTH = 640;
+
+// Static rendering of a study pack; only used offscreen by renderStudyPackHtml
+const StudyPackBody: React.FC<{ pack: StudyPack, subjects: SubjectDefinition[] }> = ({ pack, subjects }) => {
+  const groups = groupSectionsBySubject(pack.sections);
+  const components = {
+    code({ node, inline, className, children, ...props }: any) {
+      const match = /language-(\w+)/.exec(className || '');
+      if (!inline && match && match[1] === 'chart') {
+        return <ChartRenderer content={String(children).replace(/\n$/, '')} printWidth={PACK_CHART_WIDTH} />;
+      }
+      if (!inline && match && match[1] === 'smiles') {
+        return <SmilesRenderer content={String(children).replace(/\n$/, '')} />;
+      }
+      if (!inline && match && match[1] === 'reaction') {
+        return <ReactionRenderer content={String(children).replace(/\n$/, '')} />;
+      }
+      return (
+        <code className={className} {...props}>
+          {children}
+        </code>
+      );
+    }
+  };
+
+  return (
+    <>
+      <header className="pack">
+        <h1>{pack.title}</h1>
+        <p>{pack.sections.length} {pack.sections.length === 1 ? 'section' : 'sections'} · {new Date(pack.createdAt).toLocaleDateString()}</p>
+      </header>
+      <nav className="toc">
+        <h2>Contents</h2>
+        <ol>
+          {groups.map(g => (
+            <li key={g.subject} className="toc-subject">
+              {subjectInfo(subjects, g.subject).icon} {subjectInfo(subjects, g.subject).name}
+              <ol>
+                {g.sections.map(s => <li key={s.id}><a href={`#${s.id}`}>{s.title}</a></li>)}
+              </ol>
+            </li>
+          ))}
+        </ol>
+      </nav>
+      {groups.map(g => (
+        <section key={g.subject}>
+          <h2 className="subject" style={{ backgroundColor: subjectInfo(subjects, g.subject).color }}>
+            {subjectInfo(subjects, g.subject).icon} {subjectInfo(subjects, g.subject).name}
+          </h2>
+          {g.sections.map(s => (
+            <article key={s.id} id={s.id}>
+              <h3>{s.title}</h3>
+              <div className="meta">{new Date(s.date).toLocaleString()}</div>
+              {s.question && <div className="question">{s.question}</div>}
+              <ReactMarkdown remarkPlugins={[remarkMath, remarkGfm]} rehypePlugins={[[rehypeKatex, { output: 'mathml' }]]} components={components}>
+                {s.content}
+              </ReactMarkdown>
+            </article>
+          ))}
+        </section>
+      ))}
+    </>
+  );
+};
+
+/**
+ * Renders a pack offscreen and returns its markup. Charts and structures
+ * draw in effects after the first commit, so the markup is read after a
+ * short settle delay rather than straight from the render.
+ */
+const renderStudyPackHtml = async (pack: StudyPack, subjects: SubjectDefinition[]) => {
+  const container = document.createElement('div');
+  container.style.cssText = `position: fixed; left: -10000px; top: 0; width: ${PACK_CHART_WIDTH + 40}px;`;
+  document.body.appendChild(container);
+  const root = createRoot(container);
+  try {
+    flushSync(() => root.render(<StudyPackBody pack={pack} subjects={subjects} />));
+    await new Promise(resolve => setTimeout(resolve, 500));
+    return container.innerHTML;
+  } finally {
+    root.unmount();
+    container.remove();
   }
 };
 
 const App: React.FC = () => {
   const [currentView, setCurrentView] = useState<View>(View.MENU);
   const [isCreatingSchedule, setIsCreatingSchedule] = useState(false);
+  const [showPlanWizard, setShowPlanWizard] = useState(false);
   const [newScheduleName, setNewScheduleName] = useState('');
   const [notificationPermission, setNotificationPermission] = useState<NotificationPermission>(() => {
     if (typeof Notification !== 'undefined') return Notification.permission;
@@ -109,21 +407,156 @@ const App: React.FC = () => {
   const [userApiKey, setUserApiKey] = useState<string>(() => {
     return localStorage.getItem(API_KEY_STORAGE) || '';
   });
+  const [aiSettings, setAiSettings] = useState<AIProviderSettings>(() => {
+    try {
+      const saved = localStorage.getItem(AI_PROVIDER_KEY);
+      return saved ? { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(saved) } : DEFAULT_PROVIDER_SETTINGS;
+    } catch (e) {
+      return DEFAULT_PROVIDER_SETTINGS;
+    }
+  });
+  const aiConfig = useMemo(() => resolveProviderConfig(aiSettings, userApiKey), [aiSettings, userApiKey]);
+
+  useEffect(() => {
+    localStorage.setItem(AI_PROVIDER_KEY, JSON.stringify(aiSettings));
+  }, [aiSettings]);
+
+  const [subjects, setSubjects] = useState<SubjectDefinition[]>(() => {
+    try {
+      return loadSubjects(JSON.parse(localStorage.getItem(SUBJECTS_KEY) || 'null'));
+    } catch (e) {
+      return loadSubjects(null);
+    }
+  });
+  const subjectIds = useMemo(() => subjects.map(s => s.id), [subjects]);
+  const [showSubjectManager, setShowSubjectManager] = useState(false);
+
+  useEffect(() => {
+    localStorage.setItem(SUBJECTS_KEY, serializeSubjects(subjects));
+  }, [subjects]);
+
+  // Only customised personas are stored; the rest follow their subject's prompt
+  const [savedPersonas, setSavedPersonas] = useState<Record<Subject, TutorPersona>>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(PERSONAS_KEY) || '{}') || {};
+    } catch (e) {
+      return {};
+    }
+  });
+  const personas = useMemo(() => mergePersonas(savedPersonas, subjects), [savedPersonas, subjects]);
+  // Notes and cards can outlive their subject; those still get a generic tutor
+  const personaFor = (subject: Subject) => personas[subject] || defaultPersonaFor(subjectInfo(subjects, subject));
+  const [personaEditorSubject, setPersonaEditorSubject] = useState<Subject | null>(null);
+
+  useEffect(() => {
+    localStorage.setItem(PERSONAS_KEY, JSON.stringify(savedPersonas));
+  }, [savedPersonas]);
+
   const [showSettings, setShowSettings] = useState(false);
-  const [timer, setTimer] = useState<TimerState>({ isActive: false, timeLeft: 25 * 60, mode: 'study' });
+  const [timerProfiles, setTimerProfiles] = useState<TimerProfile[]>(() => {
+    try {
+      return loadTimerProfiles(JSON.parse(localStorage.getItem(TIMER_PROFILES_KEY) || 'null'));
+    } catch (e) {
+      return DEFAULT_TIMER_PROFILES;
+    }
+  });
+  const [activeTimerProfileId, setActiveTimerProfileId] = useState<string>(() => {
+    return localStorage.getItem(ACTIVE_TIMER_PROFILE_KEY) || DEFAULT_TIMER_PROFILES[0].id;
+  });
+  const activeTimerProfile = timerProfiles.find(p => p.id === activeTimerProfileId) || timerProfiles[0] || DEFAULT_TIMER_PROFILES[0];
+  const timerProfileRef = useRef(activeTimerProfile);
+  timerProfileRef.current = activeTimerProfile;
+
+  useEffect(() => {
+    localStorage.setItem(TIMER_PROFILES_KEY, JSON.stringify(timerProfiles));
+  }, [timerProfiles]);
+
+  useEffect(() => {
+    localStorage.setItem(ACTIVE_TIMER_PROFILE_KEY, activeTimerProfileId);
+  }, [activeTimerProfileId]);
+
+  const [voiceLanguage, setVoiceLanguage] = useState<VoiceLanguage>(() => {
+    return localStorage.getItem(VOICE_LANGUAGE_KEY) === 'en-US' ? 'en-US' : 'th-TH';
+  });
+
+  useEffect(() => {
+    localStorage.setItem(VOICE_LANGUAGE_KEY, voiceLanguage);
+  }, [voiceLanguage]);
+
+  // A running timer is stored with its deadline, so a reload picks up where the clock is
+  const [timer, setTimer] = useState<TimerState>(() => {
+    try {
+      return loadTimerState(JSON.parse(localStorage.getItem(TIMER_STATE_KEY) || 'null'), activeTimerProfile);
+    } catch (e) {
+      return initialTimerState(activeTimerProfile);
+    }
+  });
   const workerRef = useRef<Worker | null>(null);
   const wakeLockRef = useRef<any>(null);
+  // Listeners bound once on mount (worker, visibility, playback) must not keep the first render's
+  // closures: they read the timer through timerRef and call handlers through latestHandlersRef
+  const timerRef = useRef(timer);
+  timerRef.current = timer;
+  const latestHandlersRef = useRef<{ handleTimerExpired: () => void, triggerNotification: typeof triggerNotification } | null>(null);
+
+  useEffect(() => {
+    localStorage.setItem(TIMER_STATE_KEY, JSON.stringify(timer));
+  }, [timer]);
+
+  const [studyLog, setStudyLog] = useState<StudyLogEntry[]>(() => {
+    try {
+      const saved = localStorage.getItem(STUDY_LOG_KEY);
+      return saved ? JSON.parse(saved) : [];
+    } catch (e) {
+      return [];
+    }
+  });
+
+  useEffect(() => {
+    localStorage.setItem(STUDY_LOG_KEY, JSON.stringify(studyLog));
+  }, [studyLog]);
+
+  const logStudyBlock = (entry: Omit<StudyLogEntry, 'id'>) => {
+    const newEntry: StudyLogEntry = { ...entry, id: `log-${Math.random().toString(36).substr(2, 9)}` };
+    setStudyLog(prev => [...prev, newEntry].slice(-MAX_LOG_ENTRIES));
+  };
+
+  const logTimerStudyPhase = (phase: TimerState, status: StudyLogEntry['status'], endedAt: number) => {
+    if (phase.mode !== 'study' || !phase.phaseStartedAt) return;
+    const plannedSeconds = phaseSeconds(timerProfileRef.current, 'study');
+    const timeLeft = status === 'completed' ? 0 : remainingSeconds(phase, endedAt);
+    logStudyBlock({
+      subject: activeSubjectRef.current,
+      source: 'timer',
+      status,
+      startedAt: phase.phaseStartedAt,
+      endedAt,
+      plannedMinutes: plannedSeconds / 60,
+      actualMinutes: Math.round((plannedSeconds - timeLeft) / 60 * 10) / 10
+    });
+  };
 
   useEffect(() => {
     workerRef.current = new Worker(new URL('./timerWorker.js', import.meta.url));
     workerRef.current.onmessage = (e) => {
       if (e.data.type === 'TICK') {
-        setTimer(t => ({ ...t, timeLeft: e.data.timeLeft }));
+        // Ticks queued before a pause or reset belong to a deadline that no longer exists
+        setTimer(t => t.endsAt === e.data.endsAt ? { ...t, timeLeft: e.data.timeLeft } : t);
       } else if (e.data.type === 'EXPIRED') {
-        handleTimerExpired();
+        latestHandlersRef.current?.handleTimerExpired();
       }
     };
-    return () => workerRef.current?.terminate();
+    // Background workers can be throttled for minutes, so coming back to the app re-reads the clock
+    const handleVisible = () => {
+      if (document.visibilityState !== 'visible' || !timerRef.current.isActive) return;
+      if ((timerRef.current.endsAt ?? 0) <= Date.now()) latestHandlersRef.current?.handleTimerExpired();
+      else setTimer(t => ({ ...t, timeLeft: remainingSeconds(t, Date.now()) }));
+    };
+    document.addEventListener('visibilitychange', handleVisible);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisible);
+      workerRef.current?.terminate();
+    };
   }, []);
 
   useEffect(() => {
@@ -141,7 +574,7 @@ const App: React.FC = () => {
   const [savedNotes, setSavedNotes] = useState<SavedNote[]>(() => {
     try {
       const saved = localStorage.getItem(NOTES_STORAGE_KEY);
-      return saved ? JSON.parse(saved) : [];
+      return saved ? loadNotes(JSON.parse(saved)) : [];
     } catch (e) {
       return [];
     }
@@ -151,30 +584,164 @@ const App: React.FC = () => {
     localStorage.setItem(NOTES_STORAGE_KEY, JSON.stringify(savedNotes));
   }, [savedNotes]);
 
-  const handleSaveNote = (subject: Subject, content: string) => {
+  const handleSaveNote = (subject: Subject, message: ChatMessage) => {
+    // Saving is only offered inside the active conversation, so that is where the message lives
+    const conversation = conversations.find(c => c.id === activeConversationIds[subject]);
+    const index = conversation ? conversation.messages.findIndex(m => m.id === message.id) : -1;
+    const question = index > 0 && conversation!.messages[index - 1].role === 'user' ? conversation!.messages[index - 1] : undefined;
     const newNote: SavedNote = {
       id: Math.random().toString(36).substr(2, 9),
       subject,
-      content,
-      timestamp: Date.now()
+      title: suggestNoteTitle(message.content),
+      tags: [],
+      content: message.content,
+      timestamp: Date.now(),
+      ...(conversation && index >= 0 ? {
+        source: {
+          conversationId: conversation.id,
+          messageId: message.id,
+          conversationTitle: conversation.title,
+          question: question?.content || '',
+          answer: message.content
+        }
+      } : {})
     };
     setSavedNotes(prev => [newNote, ...prev]);
     triggerNotification("Note Saved to Vault", "success", false);
   };
 
+  const handleUpdateNote = (id: string, patch: Pick<SavedNote, 'title' | 'tags' | 'content'>) => {
+    setSavedNotes(prev => prev.map(n => n.id === id ? { ...n, ...patch, updatedAt: Date.now() } : n));
+  };
+
+  // Cards made from a note go with it rather than lingering in review with a dangling noteId
   const handleDeleteNote = (id: string) => {
     setSavedNotes(prev => prev.filter(n => n.id !== id));
+    setFlashcards(prev => prev.filter(c => c.noteId !== id));
   };
 
-  const handleTimerExpired = () => {
-    setTimer(prev => {
-      const nextMode = prev.mode === 'study' ? 'break' : 'study';
-      const nextTime = nextMode === 'study' ? 25 * 60 : 5 * 60;
-      const msg = prev.mode === 'study' ? "Break Protocol Initiated" : "Study Protocol Resumed";
-      triggerNotification(msg, 'end', true, true);
-      releaseWakeLock();
-      return { isActive: false, mode: nextMode, timeLeft: nextTime };
+  const handleImportNotes = (notes: SavedNote[], skipped: number) => {
+    setSavedNotes(prev => [...notes, ...prev]);
+    triggerNotification(`${notes.length} ${notes.length === 1 ? 'note' : 'notes'} imported from Anki${skipped ? ` (${skipped} already in MedQuest)` : ''}`, 'success', false);
+  };
+
+  const [studyPack, setStudyPack] = useState<StudyPack | null>(null);
+
+  const handleExportPack = (pack: StudyPack) => {
+    if (pack.sections.length === 0) {
+      triggerNotification("Nothing to export yet.", 'info');
+      return;
+    }
+    setStudyPack(pack);
+  };
+
+  // Returns false when the source conversation or message is gone, so the Vault can show its snapshot instead
+  const handleOpenNoteSource = (note: SavedNote) => {
+    const source = note.source;
+    const conversation = source && conversations.find(c => c.id === source.conversationId);
+    if (!source || !conversation || !conversation.messages.some(m => m.id === source.messageId)) return false;
+    setActiveSubject(conversation.subject);
+    setActiveConversationIds(prev => ({ ...prev, [conversation.subject]: conversation.id }));
+    setFocusMessageId(source.messageId);
+    setCurrentView(View.AI_TUTOR);
+    return true;
+  };
+
+  const [quizAttempts, setQuizAttempts] = useState<QuizAttempt[]>(() => {
+    try {
+      const saved = localStorage.getItem(QUIZ_ATTEMPTS_KEY);
+      return saved ? JSON.parse(saved) : [];
+    } catch (e) {
+      return [];
+    }
+  });
+
+  useEffect(() => {
+    localStorage.setItem(QUIZ_ATTEMPTS_KEY, JSON.stringify(quizAttempts));
+  }, [quizAttempts]);
+
+  const handleGenerateQuiz = async (subject: Subject, topic: string, count: number): Promise<QuizQuestion[] | null> => {
+    try {
+      return await generateQuiz(personaFor(subject), topic, count, aiConfig);
+    } catch (error: any) {
+      console.error("Quiz generation error:", error);
+      triggerNotification(error?.message || "Quiz generation failed.", 'error', false, true);
+      return null;
+    }
+  };
+
+  const handleSaveQuizAttempt = (attempt: QuizAttempt) => {
+    setQuizAttempts(prev => [attempt, ...prev]);
+    triggerNotification(`Quiz scored ${attempt.score}/${attempt.questions.length}`, 'success');
+  };
+
+  const handleDeleteQuizAttempt = (id: string) => {
+    setQuizAttempts(prev => prev.filter(a => a.id !== id));
+  };
+
+  const [flashcards, setFlashcards] = useState<Flashcard[]>(() => {
+    try {
+      const saved = localStorage.getItem(FLASHCARDS_KEY);
+      return saved ? JSON.parse(saved) : [];
+    } catch (e) {
+      return [];
+    }
+  });
+
+  useEffect(() => {
+    localStorage.setItem(FLASHCARDS_KEY, JSON.stringify(flashcards));
+  }, [flashcards]);
+
+  const handleGenerateFlashcards = async (note: SavedNote) => {
+    try {
+      return await generateFlashcards(personaFor(note.subject), note.content, aiConfig);
+    } catch (error: any) {
+      console.error("Flashcard generation error:", error);
+      triggerNotification(error?.message || "Flashcard extraction failed.", 'error', false, true);
+      return null;
+    }
+  };
+
+  const handleTranscribeAudio = (audio: { data: string, mimeType: string }, language: VoiceLanguage) => {
+    return transcribeAudio(audio, language, aiConfig);
+  };
+
+  const handleSaveFlashcards = (note: SavedNote, cards: { id?: string, front: string, back: string }[]) => {
+    setFlashcards(prev => {
+      const kept = prev.filter(c => c.noteId !== note.id || cards.some(edit => edit.id === c.id));
+      const updated = kept.map(c => {
+        const edit = cards.find(e => e.id === c.id);
+        return edit ? { ...c, front: edit.front.trim(), back: edit.back.trim() } : c;
+      });
+      const added = cards.filter(c => !c.id).map(c => createFlashcard(note.subject, c.front, c.back, note.id));
+      return [...updated, ...added];
     });
+    triggerNotification(`${cards.length} flashcards saved`, 'success');
+  };
+
+  const handleReviewFlashcard = (id: string, grade: ReviewGrade) => {
+    setFlashcards(prev => prev.map(c => c.id === id ? scheduleReview(c, grade) : c));
+  };
+
+  // Both the worker and the visibility check can report the same deadline, so whichever
+  // arrives first advances the timer and the other finds nothing due
+  const handleTimerExpired = () => {
+    const now = Date.now();
+    const current = timerRef.current;
+    if (!current.isActive || !current.endsAt || current.endsAt > now) return;
+    const { state: next, ended } = advanceTimer(timerProfileRef.current, current, now);
+    timerRef.current = next;
+    // Only the phase that was running counts as studied; phases chained after it while
+    // the app was away ran unattended, so they are left out of the log
+    logTimerStudyPhase(ended[0], 'completed', ended[0].endsAt!);
+    setTimer(next);
+    const minutes = Math.round(remainingSeconds(next, now) / 60);
+    const label = next.mode === 'study' ? `Study Protocol Resumed — ${minutes} min` 
+      : next.mode === 'longBreak' ? `Long Break Protocol Initiated — ${minutes} min` 
+      : `Break Protocol Initiated — ${minutes} min`;
+    const msg = ended.length > 1 ? `${ended.length} phases ended while away · ${label}` : label;
+    triggerNotification(msg, 'end', true, !next.isActive);
+    if (!next.isActive) releaseWakeLock();
   };
 
   const requestWakeLock = async () => {
@@ -194,15 +761,64 @@ const App: React.FC = () => {
     }
   };
 
+  const handleResetTimer = () => {
+    logTimerStudyPhase(timerRef.current, 'skipped', Date.now());
+    setTimer(initialTimerState(timerProfileRef.current));
+  };
+
+  const handleToggleTimer = () => {
+    setTimer(t => t.isActive ? pauseTimer(t, Date.now()) : startTimer(t, Date.now()));
+  };
+
+  // A paused phase keeps its progress unless its own length changed. A restart for a new
+  // length isn't the student skipping the block, so it is not logged.
+  const applyTimerProfile = (profile: TimerProfile) => {
+    const previous = timerProfileRef.current;
+    timerProfileRef.current = profile;
+    setTimer(t => t.isActive || phaseSeconds(previous, t.mode) === phaseSeconds(profile, t.mode)
+      ? t
+      : { ...t, timeLeft: phaseSeconds(profile, t.mode), phaseStartedAt: undefined });
+  };
+
+  const handleSelectTimerProfile = (id: string) => {
+    const profile = timerProfiles.find(p => p.id === id);
+    if (!profile) return;
+    setActiveTimerProfileId(id);
+    applyTimerProfile(profile);
+  };
+
+  const handleUpdateTimerProfile = (profile: TimerProfile) => {
+    const clean = sanitizeTimerProfile(profile);
+    setTimerProfiles(prev => prev.map(p => p.id === clean.id ? clean : p));
+    if (clean.id === activeTimerProfileId) applyTimerProfile(clean);
+  };
+
+  const handleAddTimerProfile = () => {
+    const profile: TimerProfile = { ...activeTimerProfile, id: `profile-${Math.random().toString(36).substr(2, 9)}`, name: `${activeTimerProfile.name} Copy` };
+    setTimerProfiles(prev => [...prev, profile]);
+    setActiveTimerProfileId(profile.id);
+    timerProfileRef.current = profile;
+  };
+
+  const handleDeleteTimerProfile = (id: string) => {
+    if (timerProfiles.length <= 1) return;
+    const remaining = timerProfiles.filter(p => p.id !== id);
+    setTimerProfiles(remaining);
+    if (id === activeTimerProfileId) {
+      setActiveTimerProfileId(remaining[0].id);
+      applyTimerProfile(remaining[0]);
+    }
+  };
+
   useEffect(() => {
-    if (timer.isActive) {
-      workerRef.current?.postMessage({ type: 'START', timeLeft: timer.timeLeft });
+    if (timer.isActive && timer.endsAt) {
+      workerRef.current?.postMessage({ type: 'START', endsAt: timer.endsAt });
       requestWakeLock();
     } else {
       workerRef.current?.postMessage({ type: 'STOP' });
       releaseWakeLock();
     }
-  }, [timer.isActive]);
+  }, [timer.isActive, timer.endsAt]);
 
   const [schedules, setSchedules] = useState<Schedule[]>(() => {
     try {
@@ -218,20 +834,109 @@ const App: React.FC = () => {
   });
 
   const [activeSubject, setActiveSubject] = useState<Subject | null>(null);
-  const [chatHistory, setChatHistory] = useState<Record<Subject, ChatMessage[]>>(() => {
-    const initial: any = {};
-    SUBJECTS.forEach(s => initial[s] = []);
-    return initial;
+  const activeSubjectRef = useRef(activeSubject);
+  activeSubjectRef.current = activeSubject;
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeConversationIds, setActiveConversationIds] = useState<Partial<Record<Subject, string>>>({});
+  // Message TutorView should scroll to once, e.g. after "open in context" from the Vault
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
+  const persistedAtRef = useRef<Record<string, number>>({});
+
+  useEffect(() => {
+    listConversations()
+      .then(loaded => {
+        loaded.forEach(c => { persistedAtRef.current[c.id] = c.updatedAt; });
+        setConversations(prev => [...prev, ...loaded.filter(c => !prev.some(p => p.id === c.id))]);
+      })
+      .catch(e => console.error("Chat store load error:", e));
+  }, []);
+
+  useEffect(() => {
+    conversations.forEach(c => {
+      if (c.messages.some(m => m.isStreaming)) return;
+      if (persistedAtRef.current[c.id] === c.updatedAt) return;
+      persistedAtRef.current[c.id] = c.updatedAt;
+      saveConversation(c)
+        .then(evicted => {
+          if (evicted.length === 0) return;
+          setConversations(prev => prev.filter(p => !evicted.includes(p.id)));
+        })
+        .catch(e => {
+          console.error("Chat store save error:", e);
+          triggerNotification("Could not save this conversation on the device.", 'error');
+        });
+    });
+  }, [conversations]);
+
+  const [playback, setPlayback] = useState<PlaybackState>(() => {
+    const saved = Number(localStorage.getItem(SPEECH_RATE_KEY));
+    if (SPEECH_RATES.includes(saved)) setPlaybackRate(saved);
+    return getPlaybackState();
   });
+
+  useEffect(() => subscribePlayback(state => {
+    setPlayback(state);
+    if (state.error) latestHandlersRef.current?.triggerNotification(state.error, 'error');
+  }), []);
+
+  useEffect(() => {
+    localStorage.setItem(SPEECH_RATE_KEY, String(playback.rate));
+  }, [playback.rate]);
+
+  // isAudioPlaying is view state derived from the player, never persisted
+  const chatHistory = useMemo(() => {
+    const history: any = {};
+    subjectIds.forEach(s => {
+      const messages = conversations.find(c => c.id === activeConversationIds[s])?.messages || [];
+      history[s] = playback.messageId && messages.some(m => m.id === playback.messageId)
+        ? messages.map(m => m.id === playback.messageId ? { ...m, isAudioPlaying: playback.status !== 'paused' } : m)
+        : messages;
+    });
+    return history as Record<Subject, ChatMessage[]>;
+  }, [conversations, activeConversationIds, playback.messageId, playback.status, subjectIds]);
+
+  const updateConversation = (id: string, fn: (c: Conversation) => Conversation) => {
+    setConversations(prev => prev.map(c => c.id === id ? fn(c) : c));
+  };
+
+  const handleNewConversation = (subject: Subject) => {
+    setActiveConversationIds(prev => ({ ...prev, [subject]: undefined }));
+  };
+
+  const handleSelectConversation = (subject: Subject, id: string) => {
+    setActiveConversationIds(prev => ({ ...prev, [subject]: id }));
+  };
+
+  const handleRenameConversation = (id: string, title: string) => {
+    if (!title.trim()) return;
+    updateConversation(id, c => ({ ...c, title: title.trim(), updatedAt: Date.now() }));
+  };
+
+  const handleDeleteConversation = async (id: string) => {
+    setConversations(prev => prev.filter(c => c.id !== id));
+    setActiveConversationIds(prev => {
+      const next = { ...prev };
+      (Object.keys(next) as Subject[]).forEach(s => { if (next[s] === id) next[s] = undefined; });
+      return next;
+    });
+    delete persistedAtRef.current[id];
+    try {
+      await deleteConversation(id);
+    } catch (e) {
+      console.error("Chat store delete error:", e);
+    }
+  };
   
   const [isTyping, setIsTyping] = useState(false);
+  const streamAbortRef = useRef<AbortController | null>(null);
+  const summarizingRef = useRef<Set<string>>(new Set());
   const [isVoiceEnabled, setIsVoiceEnabled] = useState(false);
   const [isMiniMode, setIsMiniMode] = useState(false);
   const [isPiPActive, setIsPiPActive] = useState(false);
   const pipVideoRef = useRef<HTMLVideoElement | null>(null);
   const pipCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const [hasApiKey, setHasApiKey] = useState(true);
-  const [notification, setNotification] = useState<{message: string, type: 'start' | 'end' | 'success' | 'error' | 'info', persistent?: boolean} | null>(null);
+  const [notification, setNotification] = useState<{message: string, type: 'start' | 'end' | 'success' | 'error' | 'info', persistent?: boolean, details?: string[]} | null>(null);
 
   useEffect(() => {
     const checkApiKey = async () => {
@@ -316,8 +1021,30 @@ const App: React.FC = () => {
     }
   };
 
+  // Logs every session of the active schedule that ended since the last check, including
+  // ones that ended while the app was closed, which the minute-by-minute check never sees
+  const backfillScheduleLog = () => {
+    const now = Date.now();
+    const lastChecked = Number(localStorage.getItem(SCHEDULE_LOG_CHECKED_KEY));
+    localStorage.setItem(SCHEDULE_LOG_CHECKED_KEY, String(now));
+    // On first run there is no known gap to fill
+    if (!lastChecked) return;
+    const sessions = schedules.find(s => s.id === activeScheduleId)?.sessions || [];
+    const ended = endedSessionsBetween(sessions, lastChecked, now);
+    if (ended.length === 0) return;
+    setStudyLog(prev => {
+      const logged = new Set(prev.filter(e => e.source === 'schedule' && e.sessionId).map(e => scheduleOccurrenceKey(e.sessionId!, e.endedAt)));
+      const added = ended
+        .filter(({ session, endedAt }) => !logged.has(scheduleOccurrenceKey(session.id, endedAt)))
+        .map(({ session, endedAt }) => resolveScheduledSession(session, prev, endedAt));
+      return added.length ? [...prev, ...added].slice(-MAX_LOG_ENTRIES) : prev;
+    });
+  };
+
   useEffect(() => {
+    backfillScheduleLog();
     const interval = setInterval(() => {
+      backfillScheduleLog();
       const now = new Date();
       const currentDay = DAYS[now.getDay() === 0 ? 6 : now.getDay() - 1];
       const h = now.getHours().toString().padStart(2, '0');
@@ -329,11 +1056,12 @@ const App: React.FC = () => {
           if (session.day === currentDay) {
             const startId = `${session.id}-start`;
             const endId = `${session.id}-end`;
+            const info = subjectInfo(subjects, session.subject);
             if (session.startTime === currentTimeStr && lastNotified[startId] !== currentTimeStr) {
-              triggerNotification(`START: ${session.subject} node!`, 'start', true, true);
+              triggerNotification(`START: ${info.icon} ${info.name} node!`, 'start', true, true);
               setLastNotified(prev => ({ ...prev, [startId]: currentTimeStr }));
             } else if (session.endTime === currentTimeStr && lastNotified[endId] !== currentTimeStr) {
-              triggerNotification(`FINISH: ${session.subject} node!`, 'end', true, true);
+              triggerNotification(`FINISH: ${info.icon} ${info.name} node!`, 'end', true, true);
               setLastNotified(prev => ({ ...prev, [endId]: currentTimeStr }));
             }
           }
@@ -341,10 +1069,10 @@ const App: React.FC = () => {
       });
     }, 10000); // Check every 10 seconds
     return () => clearInterval(interval);
-  }, [schedules, lastNotified]);
+  }, [schedules, lastNotified, activeScheduleId, subjects]);
 
-  const triggerNotification = async (msg: string, type: 'start' | 'end' | 'success' | 'error' | 'info', system: boolean = false, persistent: boolean = false) => {
-    setNotification({ message: msg, type, persistent });
+  const triggerNotification = async (msg: string, type: 'start' | 'end' | 'success' | 'error' | 'info', system: boolean = false, persistent: boolean = false, details: string[] = []) => {
+    setNotification({ message: msg, type, persistent, details });
     
     if (system) {
       playNotificationSound(type === 'end' || type === 'start' ? 'alarm' : 'default');
@@ -410,6 +1138,7 @@ const App: React.FC = () => {
       setTimeout(() => setNotification(prev => prev?.message === msg ? null : prev), 5000);
     }
   };
+  latestHandlersRef.current = { handleTimerExpired, triggerNotification };
 
   useEffect(() => {
     if (isPiPActive) {
@@ -435,7 +1164,7 @@ const App: React.FC = () => {
         // Draw Mode/Subject
         ctx.fillStyle = timer.mode === 'study' ? '#3b82f6' : '#10b981';
         ctx.font = 'bold 24px Inter, sans-serif';
-        ctx.fillText(timer.mode === 'study' ? (activeSubject || 'STUDY') : 'BREAK', canvas.width / 2, canvas.height / 2 + 60);
+        ctx.fillText(timer.mode === 'study' ? (activeSubject || 'STUDY') : timerModeLabel(timer.mode).toUpperCase(), canvas.width / 2, canvas.height / 2 + 60);
         
         // Draw Progress Ring (simple)
         ctx.strokeStyle = '#334155';
@@ -444,8 +1173,8 @@ const App: React.FC = () => {
         ctx.arc(canvas.width/2, canvas.height/2, 100, 0, Math.PI * 2);
         ctx.stroke();
 
-        const total = timer.mode === 'study' ? 25 * 60 : 5 * 60;
-        const progress = (timer.timeLeft / total);
+        const total = phaseSeconds(activeTimerProfile, timer.mode);
+        const progress = Math.min(1, timer.timeLeft / total);
         ctx.strokeStyle = timer.mode === 'study' ? '#3b82f6' : '#10b981';
         ctx.beginPath();
         ctx.arc(canvas.width/2, canvas.height/2, 100, -Math.PI/2, (-Math.PI/2) + (Math.PI * 2 * progress));
@@ -455,7 +1184,7 @@ const App: React.FC = () => {
       const interval = setInterval(updatePiPCanvas, 1000);
       return () => clearInterval(interval);
     }
-  }, [isPiPActive, timer, activeSubject]);
+  }, [isPiPActive, timer, activeSubject, activeTimerProfile]);
 
   const togglePiP = async () => {
     const video = pipVideoRef.current;
@@ -528,28 +1257,261 @@ const App: React.FC = () => {
     triggerNotification(`Protocol "${newSchedule.name}" initiated`, 'success');
   };
 
-  const handleSendMessage = async (subject: Subject, text: string) => {
-    const userMsg: ChatMessage = { id: Date.now().toString(), role: 'user', content: text, timestamp: Date.now() };
-    setChatHistory(prev => ({ ...prev, [subject]: [...prev[subject], userMsg] }));
-    setIsTyping(true);
-    const responseText = await getTutorResponse(subject, text, chatHistory[subject], userApiKey);
-    setIsTyping(false);
-    if (responseText) {
-      const modelMsg: ChatMessage = { id: (Date.now() + 1).toString(), role: 'model', content: responseText, timestamp: Date.now() };
-      setChatHistory(prev => ({ ...prev, [subject]: [...prev[subject], modelMsg] }));
-      if (isVoiceEnabled) await speakText(responseText, userApiKey);
+  const handleGeneratePlan = async (request: StudyPlanRequest) => {
+    try {
+      return await generateStudyPlan(request, aiConfig);
+    } catch (error: any) {
+      console.error("Study plan generation error:", error);
+      triggerNotification(error?.message || "Plan generation failed.", 'error', false, true);
+      return null;
     }
   };
 
-  const addSessionToActive = (session: Omit<StudySession, 'id'>) => {
-    if (!activeScheduleId) return;
-    setSchedules(prev => prev.map(s => s.id === activeScheduleId ? { ...s, sessions: [...s.sessions, { ...session, id: `session-${Math.random().toString(36).substr(2, 9)}` }] } : s));
-    triggerNotification(`${session.subject} session added`, 'success');
+  const handleSavePlan = (name: string, sessions: StudySession[]) => {
+    const newSchedule: Schedule = { id: `plan-${Date.now()}`, name, sessions, createdAt: Date.now() };
+    setSchedules(prev => [...prev, newSchedule]);
+    setActiveScheduleId(newSchedule.id);
+    setShowPlanWizard(false);
+    setCurrentView(View.EDITOR);
+    triggerNotification(`Protocol "${name}" generated with ${sessions.length} sessions`, 'success');
   };
 
-  const removeSessionFromActive = (sessionId: string) => {
-    setSchedules(prev => prev.map(s => s.id === activeScheduleId ? { ...s, sessions: s.sessions.filter(sess => sess.id !== sessionId) } : s));
-  };
+  const handleSendMessage = async (subject: Subject, text: string, attachments: ChatAttachment[] = []) => {
+    const userMsg: ChatMessage = { id: Date.now().toString(), role: 'user', content: text, timestamp: Date.now(), ...(attachments.length ? { attachments } : {}) };
+    const modelId = (Date.now() + 1).toString();
+    const modelMsg: ChatMessage = { id: modelId, role: 'model', content: '', timestamp: Date.now(), isStreaming: true };
+
+    let conversationId = activeConversationIds[subject];
+    if (conversationId && conversations.some(c => c.id === conversationId)) {
+      updateConversation(conversationId, c => ({ ...c, messages: [...c.messages, userMsg, modelMsg], updatedAt: Date.now() }));
+    } else {
+      const newConversation: Conversation = {
+        id: `chat-${Math.random().toString(36).substr(2, 9)}`,
+        subject,
+        title: !text.trim() ? `${attachments[0]?.mimeType === 'application/pdf' ? 'PDF' : 'Image'} question` : text.length > 40 ? `${text.slice(0, 40).trim()}...` : text,
+        messages: [userMsg, modelMsg],
+        createdAt: Date.now(),
+        updatedAt: Date.now()
+      };
+      conversationId = newConversation.id;
+      setConversations(prev => [newConversation, ...prev]);
+      setActiveConversationIds(prev => ({ ...prev, [subject]: newConversation.id }));
+    }
+
+    await streamReply(subject, conversationId, modelId, text, chatHistory[subject], attachments);
+  };
+
+  // Folds turns that fell out of the context window into the conversation's pinned summary, in the background
+  const refreshSummary = async (subject: Subject, conversationId: string, summary: ConversationSummary | undefined, turns: ChatMessage[]) => {
+    if (turns.length === 0 || summarizingRef.current.has(conversationId)) return;
+    summarizingRef.current.add(conversationId);
+    try {
+      const content = await summarizeConversation(personaFor(subject), summary?.content, turns, maxSummaryTokens(aiConfig.contextBudget), aiConfig);
+      const next: ConversationSummary = {
+        content,
+        throughMessageId: turns[turns.length - 1].id,
+        tokens: estimateTokens(content),
+        updatedAt: Date.now()
+      };
+      updateConversation(conversationId, c => ({ ...c, summary: next, updatedAt: Date.now() }));
+    } catch (error) {
+      // The next request simply retries; until then the old summary still stands
+      console.warn("Conversation summary failed:", error);
+    } finally {
+      summarizingRef.current.delete(conversationId);
+    }
+  };
+
+  // Streams the answer to `text` into the (already inserted) model message `modelId`
+  const streamReply = async (subject: Subject, targetId: string, modelId: string, text: string, history: ChatMessage[], attachments: ChatAttachment[]) => {
+    const updateModelMsg = (patch: Partial<ChatMessage>) => {
+      updateConversation(targetId, c => ({ ...c, messages: c.messages.map(m => m.id === modelId ? { ...m, ...patch } : m), updatedAt: Date.now() }));
+    };
+
+    const summary = conversations.find(c => c.id === targetId)?.summary;
+    const fixedTokens = estimateTokens(composeSystemPrompt(personaFor(subject))) + messageTokens({ content: text, attachments });
+    const plan = planContext(history, fixedTokens, aiConfig.contextBudget, summary);
+    updateModelMsg({
+      context: {
+        messageIds: plan.included.map(m => m.id),
+        summaryIncluded: !!summary,
+        tokens: plan.tokens,
+        budget: plan.budget
+      }
+    });
+
+    setIsTyping(true);
+
+    const controller = new AbortController();
+    streamAbortRef.current = controller;
+    let responseText = '';
+    try {
+      for await (const partial of streamTutorResponse(personaFor(subject), text, plan.included, aiConfig, { signal: controller.signal, attachments, summary: summary?.content })) {
+        responseText = partial;
+        updateModelMsg({ content: partial });
+      }
+    } catch (error: any) {
+      const aiError = toAIError(error);
+      updateModelMsg({ isStreaming: false, error: { kind: aiError.kind, message: aiError.message } });
+      return;
+    } finally {
+      streamAbortRef.current = null;
+      setIsTyping(false);
+    }
+
+    if (controller.signal.aborted) {
+      if (responseText) {
+        updateModelMsg({ isStreaming: false, isTruncated: true });
+      } else {
+        updateConversation(targetId, c => ({ ...c, messages: c.messages.filter(m => m.id !== modelId), updatedAt: Date.now() }));
+      }
+      return;
+    }
+
+    updateModelMsg({ isStreaming: false, timestamp: Date.now() });
+    if (responseText && isVoiceEnabled) enqueueMessage(modelId, responseText, aiConfig);
+    refreshSummary(subject, targetId, summary, plan.unsummarized);
+  };
+
+  const handleRetryMessage = async (subject: Subject, messageId: string) => {
+    const conversation = conversations.find(c => c.id === activeConversationIds[subject]);
+    if (!conversation || isTyping) return;
+    const index = conversation.messages.findIndex(m => m.id === messageId);
+    const question = conversation.messages[index - 1];
+    if (index < 1 || question.role !== 'user') return;
+
+    // Reuse the failed message's slot so the retried answer appears where the error was
+    updateConversation(conversation.id, c => ({
+      ...c,
+      messages: c.messages.map(m => m.id === messageId ? { ...m, content: '', error: undefined, isStreaming: true, timestamp: Date.now() } : m),
+      updatedAt: Date.now()
+    }));
+    await streamReply(subject, conversation.id, messageId, question.content, conversation.messages.slice(0, index - 1), question.attachments || []);
+  };
+
+  const handlePlayMessage = async (message: ChatMessage) => {
+    // Runs inside the click, which is what unlocks Web Audio on iOS
+    await resumeAudio();
+    playMessage(message.id, message.content, aiConfig);
+  };
+
+  const handleToggleAutoRead = async () => {
+    if (!isVoiceEnabled) await resumeAudio();
+    else stopPlayback();
+    setIsVoiceEnabled(!isVoiceEnabled);
+  };
+
+  const handleStopGeneration = () => {
+    streamAbortRef.current?.abort();
+  };
+
+  const handleImportSchedule = async (file: File) => {
+    try {
+      const { schedule, rejected, warnings } = parseScheduleImport(await file.text(), subjectIds);
+      const conflict = findImportConflict(schedules, schedule);
+      const strategy = conflict && confirm(`A plan named "${conflict.name}" already exists.\n\nOK = replace it\nCancel = keep both`) ? 'replace' : 'copy';
+      const { schedules: next, imported } = applyScheduleImport(schedules, schedule, strategy);
+      setSchedules(next);
+      setActiveScheduleId(imported.id);
+      const skipped = rejected.length ? ` (${rejected.length} invalid ${rejected.length === 1 ? 'session' : 'sessions'} skipped)` : '';
+      const details = [...rejected, ...warnings];
+      // Anything to read stays up until acknowledged
+      triggerNotification(`Protocol "${imported.name}" imported${skipped}`, details.length ? 'info' : 'success', false, details.length > 0, details);
+    } catch (error: any) {
+      triggerNotification(`Import failed: ${error?.message || 'Unknown error'}`, 'error', false, true);
+    }
+  };
+
+  const handleSavePersona = (persona: TutorPersona) => {
+    const clean = sanitizePersona(persona, subjects);
+    if (!clean) return;
+    setSavedPersonas(prev => ({ ...prev, [clean.subject]: clean }));
+    triggerNotification(`${subjectInfo(subjects, clean.subject).name} persona saved`, 'success');
+  };
+
+  const handleResetPersona = (subject: Subject) => {
+    setSavedPersonas(prev => {
+      const next = { ...prev };
+      delete next[subject];
+      return next;
+    });
+  };
+
+  const handleExportPersonas = () => {
+    downloadFile('medquest-personas.json', exportPersonasJson(subjectIds.map(s => personas[s])), 'application/json');
+  };
+
+  const handleImportPersonas = async (file: File) => {
+    try {
+      const { personas: imported, warnings } = parsePersonaImport(await file.text(), subjects);
+      setSavedPersonas(prev => imported.reduce((acc, p) => ({ ...acc, [p.subject]: p }), prev));
+      const skipped = warnings.length ? ` (${warnings.length} skipped)` : '';
+      triggerNotification(`Imported ${imported.length} persona${imported.length === 1 ? '' : 's'}${skipped}`, warnings.length ? 'info' : 'success');
+      if (warnings.length) console.warn("Persona import warnings:", warnings);
+    } catch (error: any) {
+      triggerNotification(`Import failed: ${error?.message || 'Unknown error'}`, 'error', false, true);
+    }
+  };
+
+  const handleSaveSubject = (subject: SubjectDefinition) => {
+    const isNew = !subjects.some(s => s.id === subject.id);
+    setSubjects(prev => isNew ? [...prev, subject] : prev.map(s => s.id === subject.id ? subject : s));
+    triggerNotification(`${subject.icon} ${subject.name} ${isNew ? 'added' : 'updated'}`, 'success');
+  };
+
+  const handleToggleSubjectHidden = (id: Subject) => {
+    setSubjects(prev => prev.map(s => s.id === id ? { ...s, hidden: !s.hidden || undefined } : s));
+    if (activeSubject === id) setActiveSubject(null);
+  };
+
+  // Notes, cards, sessions and chats keep the id and render with a neutral badge afterwards
+  const handleDeleteSubject = (id: Subject) => {
+    setSubjects(prev => prev.filter(s => s.id !== id || s.builtin));
+    handleResetPersona(id);
+    if (activeSubject === id) setActiveSubject(null);
+  };
+
+  const handleExportSchedule = (schedule: Schedule, format: 'json' | 'ics') => {
+    const baseName = schedule.name.replace(/[^\w\u0E00-\u0E7F-]+/g, '_');
+    if (format === 'json') {
+      downloadFile(`${baseName}.medquest.json`, exportScheduleJson(schedule), 'application/json');
+    } else {
+      downloadFile(`${baseName}.ics`, exportScheduleIcs(schedule), 'text/calendar');
+    }
+  };
+
+  const addSessionToActive = (session: Omit<StudySession, 'id'>) => {
+    if (!activeScheduleId) return false;
+    const target = schedules.find(s => s.id === activeScheduleId);
+    const { issues, hasErrors } = validateSession(session, target?.sessions || []);
+    if (hasErrors) {
+      triggerNotification(`Session rejected: ${issues.filter(i => i.severity === 'error').map(i => i.message).join(' ')}`, 'error');
+      return false;
+    }
+    setSchedules(prev => prev.map(s => s.id === activeScheduleId ? { ...s, sessions: [...s.sessions, { ...session, id: `session-${Math.random().toString(36).substr(2, 9)}` }] } : s));
+    triggerNotification(`${subjectInfo(subjects, session.subject).name} session added`, 'success');
+    return true;
+  };
+
+  const updateSessionInActive = (sessionId: string, patch: Partial<StudySession>) => {
+    const target = schedules.find(s => s.id === activeScheduleId);
+    const original = target?.sessions.find(sess => sess.id === sessionId);
+    if (!target || !original) return false;
+    const updated = { ...original, ...patch };
+    const { issues, hasErrors } = validateSession(updated, target.sessions);
+    if (hasErrors) {
+      triggerNotification(`Change rejected: ${issues.filter(i => i.severity === 'error').map(i => i.message).join(' ')}`, 'error');
+      return false;
+    }
+    const overlap = issues.find(i => i.code === 'overlap');
+    if (overlap) triggerNotification(overlap.message, 'info');
+    setSchedules(prev => prev.map(s => s.id === activeScheduleId ? { ...s, sessions: s.sessions.map(sess => sess.id === sessionId ? updated : sess) } : s));
+    return true;
+  };
+
+  const removeSessionFromActive = (sessionId: string) => {
+    setSchedules(prev => prev.map(s => s.id === activeScheduleId ? { ...s, sessions: s.sessions.filter(sess => sess.id !== sessionId) } : s));
+  };
 
   const activeSchedule = useMemo(() => schedules.find(s => s.id === activeScheduleId), [schedules, activeScheduleId]);
 
@@ -598,6 +1560,9 @@ const App: React.FC = () => {
             <NavButton icon={<LayoutDashboard size={16}/>} active={currentView === View.DASHBOARD} onClick={() => activeSchedule ? setCurrentView(View.DASHBOARD) : setCurrentView(View.MENU)} />
             <NavButton icon={<Calendar size={16}/>} active={currentView === View.EDITOR} onClick={() => activeSchedule ? setCurrentView(View.EDITOR) : setCurrentView(View.MENU)} />
             <NavButton icon={<MessageSquare size={16}/>} active={currentView === View.AI_TUTOR} onClick={() => setCurrentView(View.AI_TUTOR)} />
+            <NavButton icon={<ClipboardCheck size={16}/>} active={currentView === View.QUIZ} onClick={() => setCurrentView(View.QUIZ)} />
+            <NavButton icon={<Activity size={16}/>} active={currentView === View.ANALYTICS} onClick={() => setCurrentView(View.ANALYTICS)} />
+            <NavButton icon={<Layers size={16}/>} active={currentView === View.REVIEW} onClick={() => setCurrentView(View.REVIEW)} />
             <NavButton icon={<Bookmark size={16}/>} active={currentView === View.VAULT} onClick={() => setCurrentView(View.VAULT)} />
           </div>
         </div>
@@ -639,21 +1604,173 @@ const App: React.FC = () => {
               <button onClick={() => setShowSettings(false)} className="text-slate-500 hover:text-white transition-colors"><X size={20}/></button>
             </div>
             <div className="p-8 space-y-8 custom-scrollbar max-h-[80vh] overflow-y-auto">
-              <div className="space-y-3">
-                <label className="text-[10px] font-mono font-bold uppercase tracking-[0.2em] text-blue-400 block">Gemini API Key</label>
-                <div className="relative">
+              <div className="space-y-4">
+                <label className="text-[10px] font-mono font-bold uppercase tracking-[0.2em] text-blue-400 flex items-center gap-2"><BrainCircuit size={12} /> AI Provider</label>
+                <div className="grid grid-cols-3 gap-2">
+                  {PROVIDER_OPTIONS.map(p => (
+                    <button 
+                      key={p.id} 
+                      onClick={() => setAiSettings(prev => ({ ...prev, provider: p.id, model: '' }))} 
+                      className={`py-2.5 px-2 rounded-xl border text-[9px] font-mono font-black uppercase tracking-wider transition-all ${aiSettings.provider === p.id ? 'bg-blue-600 text-white border-blue-500' : 'bg-white/5 text-slate-400 border-white/10 hover:text-white'}`}
+                    >
+                      {p.label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-[9px] text-slate-500 leading-relaxed font-medium">{PROVIDER_OPTIONS.find(p => p.id === aiSettings.provider)?.description}</p>
+                <div className="space-y-1">
+                  <span className="text-[8px] font-mono font-bold text-slate-500 uppercase block">Model</span>
                   <input 
-                    type="password" 
-                    placeholder="AIza..." 
-                    value={userApiKey} 
-                    onChange={(e) => setUserApiKey(e.target.value)}
-                    className="w-full bg-white/5 p-4 rounded-2xl border border-white/10 focus:border-blue-500 outline-none font-mono text-xs transition-all text-white placeholder:text-slate-700"
+                    value={aiSettings.model} 
+                    placeholder={defaultModelFor(aiSettings.provider)} 
+                    onChange={(e) => setAiSettings(prev => ({ ...prev, model: e.target.value }))}
+                    className="w-full bg-white/5 p-3 rounded-xl border border-white/10 focus:border-blue-500 outline-none font-mono text-xs text-white placeholder:text-slate-600"
                   />
                 </div>
-                <p className="text-[9px] text-slate-500 leading-relaxed font-medium">
-                  Enter your key from <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noreferrer" className="text-blue-400 underline hover:text-blue-300 transition-colors">Google AI Studio</a>. 
-                  Stored locally. Never transmitted to external servers.
-                </p>
+                <div className="flex items-center justify-between">
+                  <span className="text-[8px] font-mono font-bold text-slate-500 uppercase">Retries on busy / network errors</span>
+                  <input 
+                    type="number" 
+                    min={0} 
+                    max={5} 
+                    value={aiSettings.maxRetries} 
+                    onChange={(e) => setAiSettings(prev => ({ ...prev, maxRetries: Number(e.target.value) }))}
+                    className="w-16 bg-white/5 p-2 rounded-lg border border-white/10 outline-none text-xs font-mono font-bold text-center text-white focus:border-blue-500"
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-[8px] font-mono font-bold text-slate-500 uppercase">Context budget (tokens)</span>
+                  <input 
+                    type="number" 
+                    min={0} 
+                    step={1000} 
+                    value={aiSettings.contextBudget || ''} 
+                    placeholder={String(defaultContextBudget(aiConfig.model))} 
+                    onChange={(e) => setAiSettings(prev => ({ ...prev, contextBudget: Number(e.target.value) || 0 }))}
+                    className="w-24 bg-white/5 p-2 rounded-lg border border-white/10 outline-none text-xs font-mono font-bold text-center text-white placeholder:text-slate-600 focus:border-blue-500"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <button 
+                    onClick={() => { setShowSettings(false); setShowSubjectManager(true); }} 
+                    className="w-full bg-white/5 text-slate-300 border border-white/10 py-2.5 rounded-xl font-black uppercase text-[9px] tracking-widest hover:bg-white/10 hover:text-white transition-all"
+                  >
+                    Manage Subjects
+                  </button>
+                  <button 
+                    onClick={() => { setShowSettings(false); setPersonaEditorSubject(activeSubject || visibleSubjects(subjects)[0]?.id || subjects[0].id); }} 
+                    className="w-full bg-white/5 text-slate-300 border border-white/10 py-2.5 rounded-xl font-black uppercase text-[9px] tracking-widest hover:bg-white/10 hover:text-white transition-all"
+                  >
+                    Edit Tutor Personas
+                  </button>
+                </div>
+                {aiSettings.provider === 'openai' && (
+                  <div className="grid grid-cols-1 gap-3">
+                    <div className="space-y-1">
+                      <span className="text-[8px] font-mono font-bold text-slate-500 uppercase block">Base URL</span>
+                      <input 
+                        value={aiSettings.baseUrl} 
+                        placeholder={DEFAULT_PROVIDER_SETTINGS.baseUrl} 
+                        onChange={(e) => setAiSettings(prev => ({ ...prev, baseUrl: e.target.value }))}
+                        className="w-full bg-white/5 p-3 rounded-xl border border-white/10 focus:border-blue-500 outline-none font-mono text-xs text-white placeholder:text-slate-600"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <span className="text-[8px] font-mono font-bold text-slate-500 uppercase block">API Key (optional)</span>
+                      <input 
+                        type="password" 
+                        value={aiSettings.compatApiKey} 
+                        onChange={(e) => setAiSettings(prev => ({ ...prev, compatApiKey: e.target.value }))}
+                        className="w-full bg-white/5 p-3 rounded-xl border border-white/10 focus:border-blue-500 outline-none font-mono text-xs text-white"
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {aiSettings.provider === 'gemini' && (
+                <div className="space-y-3">
+                  <label className="text-[10px] font-mono font-bold uppercase tracking-[0.2em] text-blue-400 block">Gemini API Key</label>
+                  <div className="relative">
+                    <input 
+                      type="password" 
+                      placeholder="AIza..." 
+                      value={userApiKey} 
+                      onChange={(e) => setUserApiKey(e.target.value)}
+                      className="w-full bg-white/5 p-4 rounded-2xl border border-white/10 focus:border-blue-500 outline-none font-mono text-xs transition-all text-white placeholder:text-slate-700"
+                    />
+                  </div>
+                  <p className="text-[9px] text-slate-500 leading-relaxed font-medium">
+                    Enter your key from <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noreferrer" className="text-blue-400 underline hover:text-blue-300 transition-colors">Google AI Studio</a>. 
+                    Stored locally. Never transmitted to external servers.
+                  </p>
+                </div>
+              )}
+
+              <div className="pt-6 border-t border-white/5 space-y-4">
+                <div className="flex items-center justify-between">
+                  <label className="text-[10px] font-mono font-bold uppercase tracking-[0.2em] text-blue-400 flex items-center gap-2"><Timer size={12} /> Timer Profile</label>
+                  <button onClick={handleAddTimerProfile} className="p-1.5 bg-white/5 text-slate-400 rounded-lg hover:text-white hover:bg-white/10 transition-all" title="Duplicate Profile">
+                    <Plus size={14} />
+                  </button>
+                </div>
+                <div className="flex gap-2">
+                  <select 
+                    value={activeTimerProfile.id} 
+                    onChange={(e) => handleSelectTimerProfile(e.target.value)} 
+                    className="flex-1 bg-white/5 p-3 rounded-xl border border-white/10 outline-none text-xs font-bold text-white focus:border-blue-500"
+                  >
+                    {timerProfiles.map(p => <option key={p.id} value={p.id} className="bg-slate-900">{p.name}</option>)}
+                  </select>
+                  <button 
+                    onClick={() => handleDeleteTimerProfile(activeTimerProfile.id)} 
+                    disabled={timerProfiles.length <= 1}
+                    className="px-3 bg-white/5 text-slate-500 rounded-xl hover:bg-red-500/10 hover:text-red-400 disabled:opacity-30 transition-all"
+                    title="Delete Profile"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+                <input 
+                  value={activeTimerProfile.name} 
+                  onChange={(e) => setTimerProfiles(prev => prev.map(p => p.id === activeTimerProfile.id ? { ...p, name: e.target.value } : p))}
+                  onBlur={() => handleUpdateTimerProfile(activeTimerProfile)}
+                  className="w-full bg-white/5 p-3 rounded-xl border border-white/10 outline-none text-xs font-bold text-white focus:border-blue-500"
+                />
+                <div className="grid grid-cols-4 gap-2">
+                  {([
+                    ['studyMinutes', 'Study'],
+                    ['shortBreakMinutes', 'Break'],
+                    ['longBreakMinutes', 'Long'],
+                    ['cyclesBeforeLongBreak', 'Cycles'],
+                  ] as [keyof TimerProfile, string][]).map(([key, label]) => (
+                    <div key={key} className="space-y-1">
+                      <span className="text-[8px] font-mono font-bold text-slate-500 uppercase block text-center">{label}</span>
+                      <DraftNumberInput 
+                        key={activeTimerProfile.id}
+                        value={activeTimerProfile[key] as number} 
+                        onCommit={(value) => handleUpdateTimerProfile({ ...activeTimerProfile, [key]: value })}
+                        className="w-full bg-white/5 p-2 rounded-lg border border-white/10 outline-none text-xs font-mono font-bold text-center text-white focus:border-blue-500"
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="flex gap-4">
+                  {([
+                    ['autoStartBreaks', 'Auto-start breaks'],
+                    ['autoStartStudy', 'Auto-start study'],
+                  ] as [keyof TimerProfile, string][]).map(([key, label]) => (
+                    <label key={key} className="flex items-center gap-2 text-[9px] font-mono font-bold text-slate-400 uppercase cursor-pointer">
+                      <input 
+                        type="checkbox" 
+                        checked={activeTimerProfile[key] as boolean} 
+                        onChange={(e) => handleUpdateTimerProfile({ ...activeTimerProfile, [key]: e.target.checked })}
+                        className="accent-blue-500"
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
               </div>
 
               <div className="pt-6 border-t border-white/5 space-y-4">
@@ -737,6 +1854,37 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {personaEditorSubject && (
+        <PersonaEditor 
+          subjects={subjects} 
+          personas={personas} 
+          initialSubject={personaEditorSubject} 
+          onSave={handleSavePersona} 
+          onReset={handleResetPersona} 
+          onExport={handleExportPersonas} 
+          onImport={handleImportPersonas} 
+          onClose={() => setPersonaEditorSubject(null)} 
+        />
+      )}
+
+      {showSubjectManager && (
+        <SubjectManager 
+          subjects={subjects} 
+          onSave={handleSaveSubject} 
+          onToggleHidden={handleToggleSubjectHidden} 
+          onDelete={handleDeleteSubject} 
+          onClose={() => setShowSubjectManager(false)} 
+        />
+      )}
+
+      {studyPack && (
+        <StudyPackDialog pack={studyPack} subjects={subjects} onClose={() => setStudyPack(null)} />
+      )}
+
+      {showPlanWizard && (
+        <PlanWizard subjects={subjects} onGenerate={handleGeneratePlan} onSave={handleSavePlan} onClose={() => setShowPlanWizard(false)} />
+      )}
+
       {notification && (
         <motion.div 
           initial={{ opacity: 0, y: -20, x: 20 }}
@@ -761,6 +1909,11 @@ const App: React.FC = () => {
             <div className="flex-1">
               <h4 className="text-[10px] font-mono font-black uppercase tracking-[0.3em] text-slate-500 mb-1.5">System Alert</h4>
               <p className="font-display font-bold text-sm text-white leading-tight">{notification.message}</p>
+              {notification.details && notification.details.length > 0 && (
+                <div className="mt-3 max-h-40 overflow-y-auto custom-scrollbar space-y-1">
+                  {notification.details.map((d, i) => <p key={i} className="text-[9px] font-mono font-bold text-amber-400">{d}</p>)}
+                </div>
+              )}
               {notification.persistent && (
                 <button 
                   onClick={() => setNotification(null)} 
@@ -801,7 +1954,7 @@ const App: React.FC = () => {
             </div>
             <div className={`w-1.5 h-1.5 rounded-full ${timer.mode === 'study' ? 'bg-blue-500 animate-pulse' : 'bg-emerald-500'}`} />
             <div className="text-[6px] text-slate-500 font-bold uppercase mt-1 truncate w-12 text-center">
-              {timer.mode === 'study' ? (activeSubject || 'Study') : 'Break'}
+              {timer.mode === 'study' ? (activeSubject || 'Study') : timerModeLabel(timer.mode)}
             </div>
           </motion.div>
         )}
@@ -820,19 +1973,30 @@ const App: React.FC = () => {
             onCreate={handleCreateSchedule} 
             onDelete={(id) => { if (confirm("Delete this plan?")) { setSchedules(prev => prev.filter(s => s.id !== id)); if (activeScheduleId === id) setActiveScheduleId(null); } }} 
             onTest={() => triggerNotification("System Link Verified - Notification Active", "success", true)} 
+            onImport={handleImportSchedule}
+            onOpenWizard={() => setShowPlanWizard(true)}
           />
         )}
         {currentView === View.DASHBOARD && activeSchedule && (
-          <DashboardView schedule={activeSchedule} onGoToEditor={() => setCurrentView(View.EDITOR)} onStartTutor={(s) => { setActiveSubject(s); setCurrentView(View.AI_TUTOR); }} />
+          <DashboardView subjects={subjects} schedule={activeSchedule} onGoToEditor={() => setCurrentView(View.EDITOR)} onStartTutor={(s) => { setActiveSubject(s); setCurrentView(View.AI_TUTOR); }} />
         )}
         {currentView === View.EDITOR && activeSchedule && (
-          <EditorView schedule={activeSchedule} onAdd={addSessionToActive} onRemove={removeSessionFromActive} />
+          <EditorView subjects={subjects} schedule={activeSchedule} onAdd={addSessionToActive} onUpdate={updateSessionInActive} onRemove={removeSessionFromActive} onExport={(format: 'json' | 'ics') => handleExportSchedule(activeSchedule, format)} />
         )}
         {currentView === View.AI_TUTOR && (
-          <TutorView activeSubject={activeSubject} setActiveSubject={setActiveSubject} history={chatHistory} onSend={handleSendMessage} isTyping={isTyping} timer={timer} setTimer={setTimer} onSave={handleSaveNote} />
+          <TutorView subjects={subjects} onManageSubjects={() => setShowSubjectManager(true)} activeSubject={activeSubject} setActiveSubject={setActiveSubject} history={chatHistory} conversations={conversations} activeConversationIds={activeConversationIds} onNewConversation={handleNewConversation} onSelectConversation={handleSelectConversation} onRenameConversation={handleRenameConversation} onDeleteConversation={handleDeleteConversation} onSend={handleSendMessage} onStop={handleStopGeneration} onRetry={handleRetryMessage} persona={activeSubject ? personaFor(activeSubject) : null} onEditPersona={setPersonaEditorSubject} isTyping={isTyping} timer={timer} onToggleTimer={handleToggleTimer} onResetTimer={handleResetTimer} onSave={handleSaveNote} onExportConversation={c => handleExportPack(packFromConversation(c))} focusMessageId={focusMessageId} onFocusHandled={() => setFocusMessageId(null)} voiceLanguage={voiceLanguage} onVoiceLanguageChange={setVoiceLanguage} onTranscribe={handleTranscribeAudio} playback={playback} onPlayMessage={handlePlayMessage} autoRead={isVoiceEnabled} onToggleAutoRead={handleToggleAutoRead} />
+        )}
+        {currentView === View.QUIZ && (
+          <QuizView subjects={subjects} attempts={quizAttempts} defaultSubject={activeSubject} onGenerate={handleGenerateQuiz} onComplete={handleSaveQuizAttempt} onDeleteAttempt={handleDeleteQuizAttempt} />
+        )}
+        {currentView === View.ANALYTICS && (
+          <AnalyticsView subjects={subjects} entries={studyLog} />
+        )}
+        {currentView === View.REVIEW && (
+          <ReviewView subjects={subjects} cards={flashcards} onReview={handleReviewFlashcard} />
         )}
         {currentView === View.VAULT && (
-          <VaultView notes={savedNotes} onDelete={handleDeleteNote} />
+          <VaultView subjects={subjects} notes={savedNotes} onDelete={handleDeleteNote} onUpdate={handleUpdateNote} onOpenSource={handleOpenNoteSource} onExportPack={handleExportPack} onImportNotes={handleImportNotes} flashcards={flashcards} onGenerateFlashcards={handleGenerateFlashcards} onSaveFlashcards={handleSaveFlashcards} />
         )}
       </main>
       <div className="safe-bottom bg-slate-50"></div>
@@ -840,6 +2004,26 @@ const App: React.FC = () => {
   );
 };
 
+// Holds the typed text until blur or Enter, so clearing the field to retype doesn't get clamped mid-edit
+const DraftNumberInput: React.FC<{ value: number, onCommit: (value: number) => void, className?: string }> = ({ value, onCommit, className }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const commit = () => {
+    if (draft !== null && draft.trim() !== '' && Number(draft) !== value) onCommit(Number(draft));
+    setDraft(null);
+  };
+  return (
+    <input 
+      type="number" 
+      min={1} 
+      value={draft ?? value} 
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+      className={className}
+    />
+  );
+};
+
 const NavButton: React.FC<{icon: React.ReactNode, active: boolean, onClick: () => void}> = ({icon, active, onClick}) => (
   <motion.button 
     whileHover={{ scale: 1.1, y: -2 }}
@@ -871,8 +2055,10 @@ const MenuView: React.FC<{
   setNewName: (v: string) => void, 
   onCreate: () => void, 
   onDelete: (id: string) => void, 
-  onTest: () => void
-}> = ({schedules, activeId, onSelect, isCreating, setIsCreating, newName, setNewName, onCreate, onDelete, onTest}) => (
+  onTest: () => void,
+  onImport: (file: File) => void,
+  onOpenWizard: () => void
+}> = ({schedules, activeId, onSelect, isCreating, setIsCreating, newName, setNewName, onCreate, onDelete, onTest, onImport, onOpenWizard}) => (
   <div className="max-w-5xl mx-auto p-6 animate-in fade-in slide-in-from-bottom-4 duration-700">
     <div className="flex justify-between items-end mb-10">
       <div>
@@ -883,6 +2069,18 @@ const MenuView: React.FC<{
         <button onClick={onTest} title="Test Android Notification" className="bg-slate-900/60 backdrop-blur-xl border border-white/10 text-slate-400 px-5 py-3 rounded-2xl hover:text-blue-400 hover:border-blue-500/30 transition-all flex items-center gap-3 shadow-xl">
           <TestTube size={18} /> <span className="text-[10px] font-mono font-bold uppercase tracking-widest hidden sm:inline">Diagnostic</span>
         </button>
+        <label title="Import Schedule (.json)" className="bg-slate-900/60 backdrop-blur-xl border border-white/10 text-slate-400 px-5 py-3 rounded-2xl hover:text-blue-400 hover:border-blue-500/30 transition-all flex items-center gap-3 shadow-xl cursor-pointer">
+          <Upload size={18} /> <span className="text-[10px] font-mono font-bold uppercase tracking-widest hidden sm:inline">Import</span>
+          <input 
+            type="file" 
+            accept=".json,application/json" 
+            className="hidden" 
+            onChange={(e) => { const file = e.target.files?.[0]; if (file) onImport(file); e.target.value = ''; }} 
+          />
+        </label>
+        <button onClick={onOpenWizard} title="Generate a plan with AI" className="bg-slate-900/60 backdrop-blur-xl border border-blue-500/30 text-blue-400 px-5 py-3 rounded-2xl hover:bg-blue-600/10 transition-all flex items-center gap-3 shadow-xl">
+          <Sparkles size={18} /> <span className="text-[10px] font-mono font-bold uppercase tracking-widest hidden sm:inline">AI Plan</span>
+        </button>
         {!isCreating && (
           <button onClick={() => setIsCreating(true)} className="bg-blue-600 text-white px-6 py-3 rounded-2xl font-black text-[11px] flex items-center gap-3 shadow-xl shadow-blue-500/20 uppercase tracking-widest hover:bg-blue-500 transition-all">
             <Plus size={16} /> New Protocol
@@ -973,123 +2171,720 @@ const MenuView: React.FC<{
   </div>
 );
 
-const DashboardView: React.FC<{
-  schedule: Schedule, 
-  onGoToEditor: () => void, 
-  onStartTutor: (s: Subject) => void
-}> = ({schedule, onGoToEditor, onStartTutor}) => {
-  const now = new Date();
-  const currentDay = DAYS[now.getDay() === 0 ? 6 : now.getDay() - 1];
-  const sortedSessions = [...schedule.sessions].filter((s: any) => s.day === currentDay).sort((a: any,b: any) => a.startTime.localeCompare(b.startTime));
-  const currentSession = sortedSessions.find((s: any) => {
-    const [h, m] = s.startTime.split(':').map(Number);
-    const [eh, em] = s.endTime.split(':').map(Number);
-    const start = new Date(); start.setHours(h, m, 0);
-    const end = new Date(); end.setHours(eh, em, 0);
-    return now >= start && now <= end;
-  });
+const PersonaEditor: React.FC<{
+  subjects: SubjectDefinition[],
+  personas: Record<Subject, TutorPersona>,
+  initialSubject: Subject,
+  onSave: (p: TutorPersona) => void,
+  onReset: (s: Subject) => void,
+  onExport: () => void,
+  onImport: (file: File) => void,
+  onClose: () => void
+}> = ({ subjects, personas, initialSubject, onSave, onReset, onExport, onImport, onClose }) => {
+  const [subject, setSubject] = useState<Subject>(initialSubject);
+  const info = subjectInfo(subjects, subject);
+  const [draft, setDraft] = useState<TutorPersona>(personas[initialSubject]);
+  const [showPrompt, setShowPrompt] = useState(false);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(personas[subject]);
+  const inputClass = "w-full bg-white/5 p-3 rounded-xl border border-white/10 outline-none text-xs font-bold text-white focus:border-blue-500";
+
+  // Imports and resets replace the stored persona underneath the open draft
+  useEffect(() => setDraft(personas[subject]), [personas, subject]);
+
+  const switchSubject = (next: Subject) => {
+    if (isDirty && !confirm(`Discard unsaved changes to the ${info.name} persona?`)) return;
+    setSubject(next);
+  };
 
   return (
-    <div className="max-w-7xl mx-auto p-6 animate-in fade-in slide-in-from-bottom-4 duration-700">
-      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-        <div className="lg:col-span-2 space-y-8">
-          <div className="bg-slate-900/60 backdrop-blur-xl rounded-[3rem] p-10 text-white relative overflow-hidden shadow-2xl border border-white/10 group">
-            <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-transparent via-blue-500/50 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-1000" />
-            <div className="relative z-10">
-              <span className="bg-blue-500/20 text-blue-400 px-4 py-1.5 rounded-full text-[10px] font-mono font-bold tracking-[0.3em] uppercase border border-blue-500/20 mb-6 inline-block">{schedule.name}</span>
-              <h2 className="text-3xl font-display font-black mb-3 uppercase tracking-tight">{currentSession ? `${currentSession.subject} Active` : "System Standby"}</h2>
-              <p className="text-slate-400 text-sm mb-8 font-medium leading-relaxed max-w-md">{currentSession ? `Current task active until ${currentSession.endTime}. Neural pathways optimized for maximum retention.` : "No active protocols scheduled. System in low-power monitoring mode."}</p>
-              <div className="flex gap-4">
-                {currentSession && (
-                  <button onClick={() => onStartTutor(currentSession.subject)} className="bg-blue-600 text-white px-8 py-4 rounded-2xl font-black flex items-center gap-3 text-xs uppercase tracking-widest shadow-xl shadow-blue-500/20 hover:bg-blue-500 transition-all hover:scale-105 active:scale-95">
-                    <Zap size={16} fill="currentColor" /> Neural Tutor
-                  </button>
-                )}
-                <button onClick={onGoToEditor} className="bg-white/5 text-white px-8 py-4 rounded-2xl font-black text-xs border border-white/10 uppercase tracking-widest hover:bg-white/10 transition-all hover:scale-105 active:scale-95">Modify Protocol</button>
-              </div>
-            </div>
-            <BrainCircuit size={160} className="absolute -right-10 -bottom-10 text-blue-500 opacity-10 pointer-events-none group-hover:scale-110 group-hover:rotate-12 transition-all duration-1000" />
+    <div className="fixed inset-0 z-[110] bg-black/60 backdrop-blur-md flex items-center justify-center p-4">
+      <motion.div 
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        className="bg-slate-900 w-full max-w-2xl rounded-3xl shadow-2xl overflow-hidden border border-white/10 flex flex-col max-h-[90vh]"
+      >
+        <div className="p-5 border-b border-white/5 flex justify-between items-center bg-white/5">
+          <h3 className="text-[10px] font-display font-black uppercase tracking-[0.3em] text-white flex items-center gap-2"><BrainCircuit size={14} className="text-blue-400" /> Tutor Personas</h3>
+          <div className="flex items-center gap-2">
+            <label className="p-2 bg-white/5 text-slate-400 rounded-lg hover:text-white hover:bg-white/10 transition-all cursor-pointer" title="Import personas (JSON)">
+              <Upload size={14} />
+              <input type="file" accept="application/json,.json" className="hidden" onChange={(e) => { const f = e.target.files?.[0]; if (f) onImport(f); e.target.value = ''; }} />
+            </label>
+            <button onClick={onExport} className="p-2 bg-white/5 text-slate-400 rounded-lg hover:text-white hover:bg-white/10 transition-all" title="Export all personas (JSON)">
+              <FileDown size={14} />
+            </button>
+            <button onClick={onClose} className="ml-2 text-slate-500 hover:text-white transition-colors"><X size={20}/></button>
           </div>
-          <section className="bg-slate-900/40 backdrop-blur-xl p-8 rounded-[3rem] border border-white/5 shadow-2xl">
-            <div className="flex items-center justify-between mb-8">
-              <h3 className="text-[11px] font-mono font-bold text-slate-500 uppercase tracking-[0.4em]">Current Sequence — {currentDay}</h3>
-              <div className="flex items-center gap-2 bg-emerald-500/10 px-3 py-1.5 rounded-full border border-emerald-500/20">
-                <div className="w-1.5 h-1.5 rounded-full bg-emerald-500 animate-pulse shadow-[0_0_10px_rgba(16,185,129,0.5)]" />
-                <span className="text-[9px] font-mono font-bold text-emerald-400 uppercase tracking-widest">Live Sync</span>
+        </div>
+        <div className="flex border-b border-white/5 overflow-x-auto">
+          {visibleSubjects(subjects).map(s => (
+            <button key={s.id} onClick={() => switchSubject(s.id)} className={`flex-1 px-3 py-3 text-[9px] font-mono font-bold uppercase tracking-widest whitespace-nowrap ${s.id === subject ? 'text-blue-400 border-b-2 border-blue-500' : 'text-slate-500 hover:text-slate-300'}`}>
+              {s.icon} {s.name}
+            </button>
+          ))}
+        </div>
+        <div className="p-8 overflow-y-auto custom-scrollbar flex-1 space-y-5">
+          <div className="space-y-2">
+            <label className="text-[10px] font-mono font-bold text-slate-500 uppercase tracking-widest">Name</label>
+            <input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} className={inputClass} />
+          </div>
+          <div className="space-y-2">
+            <label className="text-[10px] font-mono font-bold text-slate-500 uppercase tracking-widest">Expertise & Focus</label>
+            <textarea value={draft.instructions} onChange={e => setDraft({ ...draft, instructions: e.target.value })} rows={5} className={`${inputClass} font-medium leading-relaxed resize-y`} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            {([['tone', 'Tone'], ['language', 'Language'], ['level', 'Difficulty'], ['style', 'Answer Style']] as ['tone' | 'language' | 'level' | 'style', string][]).map(([key, label]) => (
+              <div key={key} className="space-y-2">
+                <label className="text-[10px] font-mono font-bold text-slate-500 uppercase tracking-widest">{label}</label>
+                <select value={draft[key]} onChange={e => setDraft({ ...draft, [key]: e.target.value })} className={inputClass}>
+                  {(PERSONA_OPTIONS[key] as [string, string][]).map(([id, optionLabel]) => <option key={id} value={id} className="bg-slate-900">{optionLabel}</option>)}
+                </select>
               </div>
-            </div>
-            <div className="space-y-4">
-              {sortedSessions.map((s: any) => (
-                <motion.div 
-                  key={s.id} 
-                  whileHover={{ x: 8, scale: 1.01 }}
-                  className="bg-slate-900/60 p-5 rounded-[2rem] border border-white/5 flex items-center justify-between group/item hover:bg-white/10 hover:border-blue-500/30 transition-all cursor-pointer shadow-lg"
-                  onClick={() => onStartTutor(s.subject)}
-                >
-                  <div className="flex items-center gap-6">
-                    <div className={`w-14 h-14 rounded-[1.5rem] flex items-center justify-center text-2xl text-white shadow-xl ${SUBJECT_INFO[s.subject as Subject].color} group-hover/item:scale-110 transition-transform duration-500`}>
-                      {SUBJECT_INFO[s.subject as Subject].icon}
-                    </div>
-                    <div>
-                      <h4 className="font-display font-black text-lg text-white tracking-tight uppercase">{s.subject}</h4>
-                      <p className="text-slate-500 text-[10px] font-mono font-bold uppercase mt-1 tracking-[0.3em]">{s.startTime} — {s.endTime}</p>
-                    </div>
-                  </div>
-                  <div className="p-3 rounded-2xl bg-white/5 text-slate-500 group-hover/item:bg-blue-600 group-hover/item:text-white transition-all shadow-inner">
-                    <ChevronRight size={20} />
-                  </div>
-                </motion.div>
-              ))}
-              {sortedSessions.length === 0 && (
-                <div className="py-16 text-center space-y-4 bg-slate-900/40 rounded-[2.5rem] border border-white/5 border-dashed">
-                  <div className="w-16 h-16 rounded-[2rem] bg-white/5 mx-auto flex items-center justify-center text-slate-700 shadow-inner">
-                    <Activity size={24} />
-                  </div>
-                  <p className="text-slate-600 text-[11px] uppercase font-mono font-bold tracking-[0.3em]">No active nodes detected</p>
-                </div>
-              )}
-            </div>
-          </section>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-[10px] font-mono font-bold text-slate-400 uppercase tracking-widest cursor-pointer">
+            <input type="checkbox" checked={draft.useLatex} onChange={e => setDraft({ ...draft, useLatex: e.target.checked })} className="accent-blue-500" />
+            Always write formulas in LaTeX
+          </label>
+          <div className="bg-black/40 rounded-2xl border border-white/5">
+            <button onClick={() => setShowPrompt(!showPrompt)} className="w-full px-4 py-3 flex items-center justify-between text-[9px] font-mono font-bold uppercase tracking-[0.3em] text-slate-500 hover:text-white">
+              Composed system prompt
+              <ChevronRight size={14} className={`transition-transform ${showPrompt ? 'rotate-90' : ''}`} />
+            </button>
+            {showPrompt && (
+              <pre className="px-4 pb-4 text-[11px] text-slate-400 whitespace-pre-wrap font-mono leading-relaxed">{composeSystemPrompt(draft)}</pre>
+            )}
+          </div>
         </div>
-        <aside className="space-y-8">
-          <section className="bg-slate-900/40 backdrop-blur-xl p-8 rounded-[3rem] border border-white/5 shadow-2xl">
-            <h4 className="text-[11px] font-mono font-bold mb-8 flex items-center gap-3 text-slate-500 uppercase tracking-[0.4em]">
-              <div className="p-2 rounded-xl bg-blue-500/10 text-blue-400 shadow-inner"><BookOpen size={16} /></div>
-              Neural Nodes
-            </h4>
-            <div className="grid grid-cols-2 gap-4">
-              {SUBJECTS.map(s => (
-                <button 
-                  key={s} 
-                  onClick={() => onStartTutor(s)} 
-                  className="flex flex-col items-center gap-4 p-5 rounded-[2rem] bg-slate-900/60 border border-white/5 hover:bg-white/10 hover:border-blue-500/30 transition-all group shadow-lg"
-                >
-                  <span className="text-3xl group-hover:scale-110 group-hover:-translate-y-1 transition-all duration-500">{SUBJECT_INFO[s].icon}</span>
-                  <span className="font-display font-black text-white text-[11px] uppercase tracking-widest truncate w-full text-center">{s}</span>
-                </button>
-              ))}
-            </div>
-          </section>
-        </aside>
-      </div>
+        <div className="p-5 border-t border-white/5 flex gap-3">
+          <button 
+            onClick={() => { if (confirm(`Reset the ${info.name} persona to the subject's default?`)) onReset(subject); }} 
+            disabled={isDefaultPersona(personas[subject], subjects) && !isDirty}
+            className="px-5 bg-white/5 text-slate-400 py-3 rounded-xl font-black uppercase tracking-widest text-[10px] hover:bg-red-500/10 hover:text-red-400 disabled:opacity-30 transition-all flex items-center gap-2"
+          >
+            <RotateCcw size={14} /> Reset to default
+          </button>
+          <button 
+            onClick={() => onSave(draft)} 
+            disabled={!isDirty || !draft.instructions.trim()}
+            className="flex-1 bg-blue-600 text-white py-3 rounded-xl font-black uppercase tracking-widest text-[10px] hover:bg-blue-500 disabled:opacity-40 transition-all flex items-center justify-center gap-2"
+          >
+            <Save size={14} /> Save Persona
+          </button>
+        </div>
+      </motion.div>
     </div>
   );
 };
 
-const EditorView: React.FC<any> = ({schedule, onAdd, onRemove}) => {
-  const [day, setDay] = useState<DayOfWeek>('Monday');
-  const [subject, setSubject] = useState<Subject>('Math');
-  const [start, setStart] = useState('09:00');
-  const [end, setEnd] = useState('10:30');
-  
+const SubjectManager: React.FC<{
+  subjects: SubjectDefinition[],
+  onSave: (s: SubjectDefinition) => void,
+  onToggleHidden: (id: Subject) => void,
+  onDelete: (id: Subject) => void,
+  onClose: () => void
+}> = ({ subjects, onSave, onToggleHidden, onDelete, onClose }) => {
+  const blank = (): SubjectDefinition => ({ id: '', name: '', color: SUBJECT_COLOR_PRESETS[subjects.length % SUBJECT_COLOR_PRESETS.length], icon: '📘', description: '', prompt: '' });
+  const [draft, setDraft] = useState<SubjectDefinition>(blank);
+  const isNew = !draft.id;
+  const error = validateSubject(draft, subjects);
+  const inputClass = "w-full bg-white/5 p-3 rounded-xl border border-white/10 outline-none text-xs font-bold text-white focus:border-blue-500";
+
+  const save = () => {
+    if (error) return;
+    const fields = { name: draft.name.trim(), icon: draft.icon.trim() || '📘', color: draft.color, description: draft.description.trim(), prompt: draft.prompt.trim() };
+    // Hidden and built-in flags may have changed in the list since this draft was opened
+    const existing = subjects.find(s => s.id === draft.id);
+    const saved: SubjectDefinition = existing ? { ...existing, ...fields } : { ...fields, id: createSubjectId(fields.name, subjects) };
+    onSave(saved);
+    setDraft(saved);
+  };
+
   return (
-    <div className="max-w-7xl mx-auto p-6 animate-in fade-in slide-in-from-bottom-4 duration-700">
-      <div className="bg-slate-900/60 backdrop-blur-xl p-10 rounded-[3rem] border border-white/5 shadow-2xl mb-10 relative overflow-hidden">
+    <div className="fixed inset-0 z-[110] bg-black/60 backdrop-blur-md flex items-center justify-center p-4">
+      <motion.div 
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        className="bg-slate-900 w-full max-w-3xl rounded-3xl shadow-2xl overflow-hidden border border-white/10 flex flex-col max-h-[90vh]"
+      >
+        <div className="p-5 border-b border-white/5 flex justify-between items-center bg-white/5">
+          <h3 className="text-[10px] font-display font-black uppercase tracking-[0.3em] text-white flex items-center gap-2"><BookOpen size={14} className="text-blue-400" /> Subjects</h3>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors"><X size={20}/></button>
+        </div>
+        <div className="flex-1 grid grid-cols-1 md:grid-cols-5 min-h-0">
+          <div className="md:col-span-2 border-b md:border-b-0 md:border-r border-white/5 overflow-y-auto custom-scrollbar p-4 space-y-2">
+            <button onClick={() => setDraft(blank())} className={`w-full flex items-center gap-3 p-3 rounded-xl border border-dashed text-[10px] font-mono font-bold uppercase tracking-widest transition-all ${isNew ? 'border-blue-500 text-blue-400 bg-blue-500/10' : 'border-white/10 text-slate-500 hover:text-white'}`}>
+              <Plus size={14} /> New Subject
+            </button>
+            {subjects.map(s => (
+              <div key={s.id} onClick={() => setDraft(s)} className={`flex items-center gap-3 p-3 rounded-xl border cursor-pointer transition-all group ${draft.id === s.id ? 'bg-white/10 border-blue-500/50' : 'bg-white/5 border-white/5 hover:border-white/20'} ${s.hidden ? 'opacity-50' : ''}`}>
+                <span style={{ backgroundColor: s.color }} className="w-8 h-8 rounded-lg flex items-center justify-center text-base shrink-0">{s.icon}</span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs font-display font-black text-white uppercase truncate">{s.name}</p>
+                  <p className="text-[9px] font-mono text-slate-500 truncate">{s.builtin ? 'Built-in' : 'Custom'}{s.hidden ? ' · Hidden' : ''}</p>
+                </div>
+                {s.builtin ? (
+                  <button onClick={(e) => { e.stopPropagation(); onToggleHidden(s.id); }} className="p-1.5 text-slate-500 hover:text-white opacity-0 group-hover:opacity-100 transition-all" title={s.hidden ? 'Show' : 'Hide'}>
+                    {s.hidden ? <Plus size={14} /> : <X size={14} />}
+                  </button>
+                ) : (
+                  <button 
+                    onClick={(e) => { 
+                      e.stopPropagation(); 
+                      if (!confirm(`Delete "${s.name}"? Its notes, cards, sessions and chats are kept with a plain label.`)) return;
+                      onDelete(s.id);
+                      if (draft.id === s.id) setDraft(blank());
+                    }} 
+                    className="p-1.5 text-slate-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-all" 
+                    title="Delete"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          <div className="md:col-span-3 p-6 overflow-y-auto custom-scrollbar space-y-5">
+            <div className="grid grid-cols-[auto_1fr] gap-4">
+              <div className="space-y-2">
+                <label className="text-[10px] font-mono font-bold text-slate-500 uppercase tracking-widest">Icon</label>
+                <input value={draft.icon} onChange={e => setDraft({ ...draft, icon: e.target.value })} className={`${inputClass} w-16 text-center text-lg`} maxLength={8} />
+              </div>
+              <div className="space-y-2">
+                <label className="text-[10px] font-mono font-bold text-slate-500 uppercase tracking-widest">Name</label>
+                <input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder="e.g. TGAT English" className={inputClass} maxLength={40} />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <label className="text-[10px] font-mono font-bold text-slate-500 uppercase tracking-widest">Color</label>
+              <div className="flex flex-wrap items-center gap-2">
+                {SUBJECT_COLOR_PRESETS.map(c => (
+                  <button key={c} onClick={() => setDraft({ ...draft, color: c })} style={{ backgroundColor: c }} className={`w-7 h-7 rounded-lg transition-all ${draft.color === c ? 'ring-2 ring-white scale-110' : 'opacity-70 hover:opacity-100'}`} />
+                ))}
+                <input type="color" value={draft.color} onChange={e => setDraft({ ...draft, color: e.target.value })} className="w-7 h-7 rounded-lg bg-transparent cursor-pointer" title="Custom color" />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <label className="text-[10px] font-mono font-bold text-slate-500 uppercase tracking-widest">Description</label>
+              <input value={draft.description} onChange={e => setDraft({ ...draft, description: e.target.value })} placeholder="Topics covered, shown as a hint" className={inputClass} maxLength={120} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-[10px] font-mono font-bold text-slate-500 uppercase tracking-widest">Tutor Prompt</label>
+              <textarea value={draft.prompt} onChange={e => setDraft({ ...draft, prompt: e.target.value })} rows={5} placeholder="You are an expert in ... Focus on ..." className={`${inputClass} font-medium leading-relaxed resize-y`} />
+              <p className="text-[9px] font-mono text-slate-600">Tone, language and answer style are set per subject under Tutor Personas.</p>
+            </div>
+            {error && draft.name.trim() && <p className="text-[10px] font-mono font-bold text-amber-400 uppercase tracking-widest flex items-center gap-2"><Info size={12} /> {error}</p>}
+          </div>
+        </div>
+        <div className="p-5 border-t border-white/5 flex gap-3">
+          <button 
+            onClick={save} 
+            disabled={!!error}
+            className="flex-1 bg-blue-600 text-white py-3 rounded-xl font-black uppercase tracking-widest text-[10px] hover:bg-blue-500 disabled:opacity-40 transition-all flex items-center justify-center gap-2"
+          >
+            <Save size={14} /> {isNew ? 'Add Subject' : 'Save Changes'}
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
+const StudyPackDialog: React.FC<{
+  pack: StudyPack,
+  subjects: SubjectDefinition[],
+  onClose: () => void
+}> = ({ pack, subjects, onClose }) => {
+  const [title, setTitle] = useState(pack.title);
+  const [busy, setBusy] = useState<StudyPackFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const groups = groupSectionsBySubject(pack.sections);
+
+  const handleExport = async (format: StudyPackFormat) => {
+    // The print window has to be opened inside the click, before any await, or pop-up blockers stop it
+    const printWindow = format === 'pdf' ? window.open('', '_blank') : null;
+    if (format === 'pdf' && !printWindow) {
+      setError("Allow pop-ups for this site to print the study pack.");
+      return;
+    }
+    setBusy(format);
+    setError(null);
+    try {
+      const finalPack = { ...pack, title: title.trim() || pack.title };
+      const html = wrapStudyPackHtml(finalPack, await renderStudyPackHtml(finalPack, subjects), format);
+      if (printWindow) {
+        printWindow.document.open();
+        printWindow.document.write(html);
+        printWindow.document.close();
+      } else {
+        downloadFile(studyPackFilename(finalPack), html, 'text/html');
+      }
+      onClose();
+    } catch (e: any) {
+      printWindow?.close();
+      setError(e?.message || "Could not build the study pack.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] bg-black/60 backdrop-blur-md flex items-center justify-center p-4">
+      <motion.div 
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        className="bg-slate-900 w-full max-w-lg rounded-3xl shadow-2xl overflow-hidden border border-white/10 flex flex-col max-h-[90vh]"
+      >
+        <div className="p-5 border-b border-white/5 flex justify-between items-center bg-white/5">
+          <h3 className="text-[10px] font-display font-black uppercase tracking-[0.3em] text-white flex items-center gap-2"><FileDown size={14} className="text-blue-400" /> Study Pack</h3>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors"><X size={20}/></button>
+        </div>
+        <div className="p-6 space-y-5 overflow-y-auto custom-scrollbar">
+          <div className="space-y-2">
+            <label className="text-[9px] font-mono font-bold uppercase tracking-[0.3em] text-slate-500">Title</label>
+            <input value={title} onChange={e => setTitle(e.target.value)} className="w-full bg-white/5 p-3 rounded-xl border border-white/10 outline-none focus:border-blue-500 text-sm font-bold text-white" />
+          </div>
+          <div className="space-y-2">
+            <p className="text-[9px] font-mono font-bold uppercase tracking-[0.3em] text-slate-500">{pack.sections.length} {pack.sections.length === 1 ? 'section' : 'sections'}</p>
+            <div className="flex flex-wrap gap-2">
+              {groups.map(g => (
+                <span key={g.subject} className="px-3 py-1.5 rounded-xl bg-white/5 border border-white/10 text-[10px] font-mono font-bold text-slate-300">
+                  {subjectInfo(subjects, g.subject).icon} {subjectInfo(subjects, g.subject).name} · {g.sections.length}
+                </span>
+              ))}
+            </div>
+          </div>
+          <p className="text-[11px] text-slate-500 leading-relaxed">
+            Includes a table of contents, subject headers, rendered math, tables, charts and structures. The HTML file works offline; for a PDF, choose "Save as PDF" in the print dialog.
+          </p>
+          {error && <p className="text-[11px] font-bold text-red-400">{error}</p>}
+        </div>
+        <div className="p-5 border-t border-white/5 flex gap-3">
+          <button onClick={() => handleExport('html')} disabled={!!busy} className="flex-1 flex items-center justify-center gap-2 bg-white/5 text-slate-200 border border-white/10 py-3 rounded-xl font-black uppercase text-[10px] tracking-widest hover:bg-white/10 disabled:opacity-50 transition-all">
+            {busy === 'html' ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />} HTML
+          </button>
+          <button onClick={() => handleExport('pdf')} disabled={!!busy} className="flex-1 flex items-center justify-center gap-2 bg-blue-600 text-white py-3 rounded-xl font-black uppercase text-[10px] tracking-widest hover:bg-blue-500 disabled:opacity-50 transition-all shadow-xl shadow-blue-500/20">
+            {busy === 'pdf' ? <Loader2 size={14} className="animate-spin" /> : <FileText size={14} />} Print / PDF
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
+const AnkiDialog: React.FC<{
+  subjects: SubjectDefinition[],
+  notes: SavedNote[], // What the Vault currently shows; exports are scoped to it
+  allNotes: SavedNote[],
+  flashcards: Flashcard[],
+  onImport: (notes: SavedNote[], skipped: number) => void,
+  onClose: () => void
+}> = ({ subjects, notes, allNotes, flashcards, onImport, onClose }) => {
+  const [tab, setTab] = useState<'export' | 'import'>('export');
+  const [content, setContent] = useState<'notes' | 'cards'>('notes');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [imported, setImported] = useState<{ fileName: string, items: ImportedAnkiNote[] } | null>(null);
+  const [deckSubjects, setDeckSubjects] = useState<Record<string, Subject>>({});
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const shownIds = new Set(notes.map(n => n.id));
+  const cards = flashcards.filter(c => c.noteId && shownIds.has(c.noteId));
+  const decks = imported ? Array.from(new Set(imported.items.map(i => i.deck))) : [];
+
+  const handleExport = async (format: 'csv' | 'apkg') => {
+    setError(null);
+    const rows = content === 'notes'
+      ? ankiRowsFromNotes(notes, subjects, markdownToAnkiHtml)
+      : ankiRowsFromFlashcards(cards, allNotes, subjects, markdownToAnkiHtml);
+    const filename = `MedQuest_${content === 'notes' ? 'Notes' : 'Flashcards'}_${new Date().toISOString().split('T')[0]}`;
+    if (format === 'csv') {
+      downloadFile(`${filename}.csv`, exportAnkiCsv(rows), 'text/csv');
+      return;
+    }
+    setBusy(true);
+    try {
+      const data = await exportAnkiPackage(rows);
+      downloadFile(`${filename}.apkg`, data as Uint8Array<ArrayBuffer>, 'application/octet-stream');
+    } catch (e: any) {
+      setError(e?.message || "Could not build the Anki package.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    setBusy(true);
+    try {
+      const items = /\.(apkg|colpkg)$/i.test(file.name)
+        ? await readAnkiPackage(new Uint8Array(await file.arrayBuffer()))
+        : parseAnkiText(await file.text());
+      const fallback = visibleSubjects(subjects)[0]?.id ?? subjects[0].id;
+      const matched: Record<string, Subject> = {};
+      Array.from(new Set(items.map(i => i.deck))).forEach(deck => {
+        matched[deck] = matchDeckSubject(deck, items.filter(i => i.deck === deck).flatMap(i => i.tags), subjects) ?? fallback;
+      });
+      setDeckSubjects(matched);
+      setImported({ fileName: file.name, items });
+    } catch (e: any) {
+      setImported(null);
+      setError(e?.message || "Could not read this file.");
+    } finally {
+      setBusy(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleImport = () => {
+    if (!imported) return;
+    const { notes: created, skipped } = ankiNotesToSavedNotes(imported.items, deckSubjects, subjects, allNotes, flashcards);
+    onImport(created, skipped);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] bg-black/60 backdrop-blur-md flex items-center justify-center p-4">
+      <motion.div 
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        className="bg-slate-900 w-full max-w-lg rounded-3xl shadow-2xl overflow-hidden border border-white/10 flex flex-col max-h-[90vh]"
+      >
+        <div className="p-5 border-b border-white/5 flex justify-between items-center bg-white/5">
+          <h3 className="text-[10px] font-display font-black uppercase tracking-[0.3em] text-white flex items-center gap-2"><Share size={14} className="text-blue-400" /> Anki</h3>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors"><X size={20}/></button>
+        </div>
+        <div className="flex gap-2 px-6 pt-5">
+          {(['export', 'import'] as const).map(t => (
+            <button key={t} onClick={() => { setTab(t); setError(null); }} className={`flex-1 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all ${tab === t ? 'bg-blue-600 text-white' : 'bg-white/5 text-slate-500 hover:text-white'}`}>
+              {t}
+            </button>
+          ))}
+        </div>
+        <div className="p-6 space-y-5 overflow-y-auto custom-scrollbar flex-1">
+          {tab === 'export' ? (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                {([['notes', 'Notes', notes.length, 'Title on the front, note on the back'], ['cards', 'Flashcards', cards.length, 'Cards made from these notes']] as const).map(([id, label, count, hint]) => (
+                  <button key={id} onClick={() => setContent(id)} className={`p-4 rounded-2xl border text-left transition-all ${content === id ? 'bg-blue-600/20 border-blue-500/50' : 'bg-white/5 border-white/10 hover:border-white/20'}`}>
+                    <p className="text-xs font-display font-black text-white uppercase">{label} <span className="text-slate-500 font-mono">{count}</span></p>
+                    <p className="text-[10px] text-slate-500 mt-1">{hint}</p>
+                  </button>
+                ))}
+              </div>
+              <p className="text-[11px] text-slate-500 leading-relaxed">
+                Exports what the Vault currently shows, one deck per subject under "MedQuest" with the note tags. Math is kept for Anki's MathJax; charts stay as their source.
+              </p>
+            </>
+          ) : (
+            <>
+              <input ref={fileInputRef} type="file" accept=".apkg,.colpkg,.csv,.txt,.tsv" className="hidden" onChange={e => handleFile(e.target.files?.[0])} />
+              <button onClick={() => fileInputRef.current?.click()} disabled={busy} className="w-full flex items-center justify-center gap-2 p-5 rounded-2xl border border-dashed border-white/10 text-[10px] font-mono font-bold uppercase tracking-widest text-slate-400 hover:text-white hover:border-blue-500/50 disabled:opacity-50 transition-all">
+                {busy ? <Loader2 size={14} className="animate-spin" /> : <Upload size={14} />} {imported ? imported.fileName : 'Choose .apkg or CSV / text export'}
+              </button>
+              {imported && (
+                <div className="space-y-2">
+                  <p className="text-[9px] font-mono font-bold uppercase tracking-[0.3em] text-slate-500">{imported.items.length} notes · choose a subject for each deck</p>
+                  {decks.map(deck => (
+                    <div key={deck} className="flex items-center gap-3 bg-white/5 border border-white/10 rounded-xl p-3">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-xs font-bold text-white truncate">{deck || 'No deck'}</p>
+                        <p className="text-[9px] font-mono text-slate-500">{imported.items.filter(i => i.deck === deck).length} notes</p>
+                      </div>
+                      <select 
+                        value={deckSubjects[deck]} 
+                        onChange={e => setDeckSubjects(prev => ({ ...prev, [deck]: e.target.value }))} 
+                        className="bg-slate-800 border border-white/10 rounded-lg px-2 py-1.5 text-[11px] text-white outline-none"
+                      >
+                        {subjects.filter(s => !s.hidden || s.id === deckSubjects[deck]).map(s => <option key={s.id} value={s.id}>{s.icon} {s.name}</option>)}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+          {error && <p className="text-[11px] font-bold text-red-400">{error}</p>}
+        </div>
+        <div className="p-5 border-t border-white/5 flex gap-3">
+          {tab === 'export' ? (
+            <>
+              <button onClick={() => handleExport('csv')} disabled={busy || (content === 'notes' ? notes.length : cards.length) === 0} className="flex-1 flex items-center justify-center gap-2 bg-white/5 text-slate-200 border border-white/10 py-3 rounded-xl font-black uppercase text-[10px] tracking-widest hover:bg-white/10 disabled:opacity-50 transition-all">
+                <FileText size={14} /> CSV
+              </button>
+              <button onClick={() => handleExport('apkg')} disabled={busy || (content === 'notes' ? notes.length : cards.length) === 0} className="flex-1 flex items-center justify-center gap-2 bg-blue-600 text-white py-3 rounded-xl font-black uppercase text-[10px] tracking-widest hover:bg-blue-500 disabled:opacity-50 transition-all shadow-xl shadow-blue-500/20">
+                {busy ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />} .apkg
+              </button>
+            </>
+          ) : (
+            <button onClick={handleImport} disabled={!imported || busy} className="flex-1 bg-blue-600 text-white py-3 rounded-xl font-black uppercase tracking-widest text-[10px] hover:bg-blue-500 disabled:opacity-50 transition-all shadow-xl shadow-blue-500/20">
+              Import {imported ? imported.items.length : ''} Notes
+            </button>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
+const PlanWizard: React.FC<{
+  subjects: SubjectDefinition[],
+  onGenerate: (request: StudyPlanRequest) => Promise<{ sessions: StudySession[], warnings: string[] } | null>,
+  onSave: (name: string, sessions: StudySession[]) => void,
+  onClose: () => void
+}> = ({ subjects, onGenerate, onSave, onClose }) => {
+  const [step, setStep] = useState(0);
+  const [request, setRequest] = useState<StudyPlanRequest>(() => ({
+    examDates: {},
+    availableHours: DAYS.reduce((acc, d) => ({ ...acc, [d]: d === 'Saturday' || d === 'Sunday' ? 6 : 3 }), {} as Record<DayOfWeek, number>),
+    earliestStart: '16:00',
+    weakness: visibleSubjects(subjects).reduce((acc, s) => ({ ...acc, [s.id]: 3 }), {} as Record<Subject, number>)
+  }));
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [plan, setPlan] = useState<{ sessions: StudySession[], warnings: string[] } | null>(null);
+  const [name, setName] = useState('AI Exam Plan');
+  const STEPS = ['Exams', 'Availability', 'Weak Spots', 'Preview'];
+  const inputClass = "w-full bg-white/5 p-3 rounded-xl border border-white/10 outline-none text-xs font-mono font-bold text-white focus:border-blue-500";
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    const result = await onGenerate(request);
+    setIsGenerating(false);
+    if (result) {
+      setPlan(result);
+      setStep(3);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] bg-black/60 backdrop-blur-md flex items-center justify-center p-4">
+      <motion.div 
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        className="bg-slate-900 w-full max-w-2xl rounded-3xl shadow-2xl overflow-hidden border border-white/10 flex flex-col max-h-[90vh]"
+      >
+        <div className="p-5 border-b border-white/5 flex justify-between items-center bg-white/5">
+          <h3 className="text-[10px] font-display font-black uppercase tracking-[0.3em] text-white flex items-center gap-2"><Sparkles size={14} className="text-blue-400" /> AI Plan Generator</h3>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors"><X size={20}/></button>
+        </div>
+        <div className="flex border-b border-white/5">
+          {STEPS.map((label, i) => (
+            <div key={label} className={`flex-1 py-3 text-center text-[9px] font-mono font-bold uppercase tracking-widest ${i === step ? 'text-blue-400 border-b-2 border-blue-500' : i < step ? 'text-slate-400' : 'text-slate-700'}`}>{label}</div>
+          ))}
+        </div>
+        <div className="p-8 overflow-y-auto custom-scrollbar flex-1 space-y-4">
+          {step === 0 && (
+            <>
+              {([['aLevel', 'A-Level Exam Date'], ['tpat1', 'TPAT1 Exam Date']] as ['aLevel' | 'tpat1', string][]).map(([key, label]) => (
+                <div key={key} className="space-y-2">
+                  <label className="text-[10px] font-mono font-bold text-slate-500 uppercase tracking-widest">{label}</label>
+                  <input type="date" value={request.examDates[key] || ''} onChange={e => setRequest(r => ({ ...r, examDates: { ...r.examDates, [key]: e.target.value || undefined } }))} className={inputClass} />
+                </div>
+              ))}
+              <div className="space-y-2">
+                <label className="text-[10px] font-mono font-bold text-slate-500 uppercase tracking-widest">Earliest Start Each Day</label>
+                <input type="time" value={request.earliestStart} onChange={e => setRequest(r => ({ ...r, earliestStart: e.target.value }))} className={inputClass} />
+              </div>
+            </>
+          )}
+          {step === 1 && DAYS.map(d => (
+            <div key={d} className="flex items-center gap-4">
+              <span className="w-24 text-[10px] font-display font-black text-white uppercase tracking-widest">{d}</span>
+              <input type="range" min={0} max={12} step={0.5} value={request.availableHours[d]} onChange={e => setRequest(r => ({ ...r, availableHours: { ...r.availableHours, [d]: Number(e.target.value) } }))} className="flex-1 accent-blue-500" />
+              <span className="w-12 text-right text-[11px] font-mono font-bold text-blue-400">{request.availableHours[d]}h</span>
+            </div>
+          ))}
+          {step === 2 && Object.keys(request.weakness).map(s => (
+            <div key={s} className="flex items-center gap-4">
+              <span className="w-24 text-[10px] font-display font-black text-white uppercase tracking-widest truncate">{subjectInfo(subjects, s).icon} {subjectInfo(subjects, s).name}</span>
+              <div className="flex-1 flex gap-1.5">
+                {[1, 2, 3, 4, 5].map(level => (
+                  <button key={level} onClick={() => setRequest(r => ({ ...r, weakness: { ...r.weakness, [s]: level } }))} className={`flex-1 py-2 rounded-lg text-[10px] font-mono font-black transition-all ${request.weakness[s] >= level ? 'bg-blue-600 text-white' : 'bg-white/5 text-slate-600 hover:bg-white/10'}`}>{level}</button>
+                ))}
+              </div>
+            </div>
+          ))}
+          {step === 2 && <p className="text-[9px] font-mono font-bold text-slate-600 uppercase tracking-widest text-center pt-2">1 = confident · 5 = needs the most work</p>}
+          {step === 3 && plan && (
+            <>
+              <input value={name} onChange={e => setName(e.target.value)} className={inputClass} placeholder="Plan name" />
+              {DAYS.map(d => {
+                const daySessions = plan.sessions.filter(s => s.day === d).sort((a, b) => a.startTime.localeCompare(b.startTime));
+                return (
+                  <div key={d} className="flex gap-4 items-start">
+                    <span className="w-20 pt-2 text-[10px] font-display font-black text-slate-400 uppercase tracking-widest">{d.slice(0, 3)}</span>
+                    <div className="flex-1 flex flex-wrap gap-2">
+                      {daySessions.map(s => (
+                        <span key={s.id} style={{ backgroundColor: subjectInfo(subjects, s.subject).color }} className="text-white px-3 py-1.5 rounded-xl text-[10px] font-bold">{subjectInfo(subjects, s.subject).icon} {subjectInfo(subjects, s.subject).name} {s.startTime}–{s.endTime}</span>
+                      ))}
+                      {daySessions.length === 0 && <span className="text-[10px] font-mono text-slate-700 pt-2">Rest</span>}
+                    </div>
+                  </div>
+                );
+              })}
+              {plan.warnings.length > 0 && (
+                <div className="bg-amber-500/10 border border-amber-500/20 p-4 rounded-2xl space-y-1">
+                  {plan.warnings.map((w, i) => <p key={i} className="text-[9px] font-mono font-bold text-amber-400">{w}</p>)}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+        <div className="p-5 border-t border-white/5 flex gap-3">
+          {step > 0 && (
+            <button onClick={() => setStep(s => s - 1)} className="px-6 bg-white/5 text-slate-400 py-3 rounded-xl font-black uppercase text-[10px] tracking-widest hover:bg-white/10 transition-all">Back</button>
+          )}
+          {step < 2 && (
+            <button onClick={() => setStep(s => s + 1)} className="flex-1 bg-blue-600 text-white py-3 rounded-xl font-black uppercase text-[10px] tracking-widest hover:bg-blue-500 transition-all">Next</button>
+          )}
+          {step === 2 && (
+            <button onClick={handleGenerate} disabled={isGenerating} className="flex-1 bg-blue-600 text-white py-3 rounded-xl font-black uppercase text-[10px] tracking-widest hover:bg-blue-500 disabled:opacity-50 transition-all flex items-center justify-center gap-2">
+              {isGenerating ? <RefreshCw size={14} className="animate-spin" /> : <Sparkles size={14} />} Generate Plan
+            </button>
+          )}
+          {step === 3 && plan && (
+            <>
+              <button onClick={handleGenerate} disabled={isGenerating} className="px-6 bg-white/5 text-blue-400 py-3 rounded-xl font-black uppercase text-[10px] tracking-widest hover:bg-white/10 disabled:opacity-50 transition-all">
+                <RefreshCw size={14} className={isGenerating ? 'animate-spin' : ''} />
+              </button>
+              <button onClick={() => onSave(name.trim() || 'AI Exam Plan', plan.sessions)} className="flex-1 bg-blue-600 text-white py-3 rounded-xl font-black uppercase text-[10px] tracking-widest hover:bg-blue-500 transition-all shadow-xl shadow-blue-500/20">Save as Protocol</button>
+            </>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
+const DashboardView: React.FC<{
+  subjects: SubjectDefinition[],
+  schedule: Schedule, 
+  onGoToEditor: () => void, 
+  onStartTutor: (s: Subject) => void
+}> = ({subjects, schedule, onGoToEditor, onStartTutor}) => {
+  const now = new Date();
+  const currentDay = DAYS[now.getDay() === 0 ? 6 : now.getDay() - 1];
+  const sortedSessions = [...schedule.sessions].filter((s: any) => s.day === currentDay).sort((a: any,b: any) => a.startTime.localeCompare(b.startTime));
+  const currentSession = sortedSessions.find((s: any) => {
+    const [h, m] = s.startTime.split(':').map(Number);
+    const [eh, em] = s.endTime.split(':').map(Number);
+    const start = new Date(); start.setHours(h, m, 0);
+    const end = new Date(); end.setHours(eh, em, 0);
+    return now >= start && now <= end;
+  });
+
+  return (
+    <div className="max-w-7xl mx-auto p-6 animate-in fade-in slide-in-from-bottom-4 duration-700">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="lg:col-span-2 space-y-8">
+          <div className="bg-slate-900/60 backdrop-blur-xl rounded-[3rem] p-10 text-white relative overflow-hidden shadow-2xl border border-white/10 group">
+            <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-transparent via-blue-500/50 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-1000" />
+            <div className="relative z-10">
+              <span className="bg-blue-500/20 text-blue-400 px-4 py-1.5 rounded-full text-[10px] font-mono font-bold tracking-[0.3em] uppercase border border-blue-500/20 mb-6 inline-block">{schedule.name}</span>
+              <h2 className="text-3xl font-display font-black mb-3 uppercase tracking-tight">{currentSession ? `${subjectInfo(subjects, currentSession.subject).name} Active` : "System Standby"}</h2>
+              <p className="text-slate-400 text-sm mb-8 font-medium leading-relaxed max-w-md">{currentSession ? `Current task active until ${currentSession.endTime}. Neural pathways optimized for maximum retention.` : "No active protocols scheduled. System in low-power monitoring mode."}</p>
+              <div className="flex gap-4">
+                {currentSession && (
+                  <button onClick={() => onStartTutor(currentSession.subject)} className="bg-blue-600 text-white px-8 py-4 rounded-2xl font-black flex items-center gap-3 text-xs uppercase tracking-widest shadow-xl shadow-blue-500/20 hover:bg-blue-500 transition-all hover:scale-105 active:scale-95">
+                    <Zap size={16} fill="currentColor" /> Neural Tutor
+                  </button>
+                )}
+                <button onClick={onGoToEditor} className="bg-white/5 text-white px-8 py-4 rounded-2xl font-black text-xs border border-white/10 uppercase tracking-widest hover:bg-white/10 transition-all hover:scale-105 active:scale-95">Modify Protocol</button>
+              </div>
+            </div>
+            <BrainCircuit size={160} className="absolute -right-10 -bottom-10 text-blue-500 opacity-10 pointer-events-none group-hover:scale-110 group-hover:rotate-12 transition-all duration-1000" />
+          </div>
+          <section className="bg-slate-900/40 backdrop-blur-xl p-8 rounded-[3rem] border border-white/5 shadow-2xl">
+            <div className="flex items-center justify-between mb-8">
+              <h3 className="text-[11px] font-mono font-bold text-slate-500 uppercase tracking-[0.4em]">Current Sequence — {currentDay}</h3>
+              <div className="flex items-center gap-2 bg-emerald-500/10 px-3 py-1.5 rounded-full border border-emerald-500/20">
+                <div className="w-1.5 h-1.5 rounded-full bg-emerald-500 animate-pulse shadow-[0_0_10px_rgba(16,185,129,0.5)]" />
+                <span className="text-[9px] font-mono font-bold text-emerald-400 uppercase tracking-widest">Live Sync</span>
+              </div>
+            </div>
+            <div className="space-y-4">
+              {sortedSessions.map((s: any) => (
+                <motion.div 
+                  key={s.id} 
+                  whileHover={{ x: 8, scale: 1.01 }}
+                  className="bg-slate-900/60 p-5 rounded-[2rem] border border-white/5 flex items-center justify-between group/item hover:bg-white/10 hover:border-blue-500/30 transition-all cursor-pointer shadow-lg"
+                  onClick={() => onStartTutor(s.subject)}
+                >
+                  <div className="flex items-center gap-6">
+                    <div style={{ backgroundColor: subjectInfo(subjects, s.subject).color }} className="w-14 h-14 rounded-[1.5rem] flex items-center justify-center text-2xl text-white shadow-xl group-hover/item:scale-110 transition-transform duration-500">
+                      {subjectInfo(subjects, s.subject).icon}
+                    </div>
+                    <div>
+                      <h4 className="font-display font-black text-lg text-white tracking-tight uppercase">{subjectInfo(subjects, s.subject).name}</h4>
+                      <p className="text-slate-500 text-[10px] font-mono font-bold uppercase mt-1 tracking-[0.3em]">{s.startTime} — {s.endTime}</p>
+                    </div>
+                  </div>
+                  <div className="p-3 rounded-2xl bg-white/5 text-slate-500 group-hover/item:bg-blue-600 group-hover/item:text-white transition-all shadow-inner">
+                    <ChevronRight size={20} />
+                  </div>
+                </motion.div>
+              ))}
+              {sortedSessions.length === 0 && (
+                <div className="py-16 text-center space-y-4 bg-slate-900/40 rounded-[2.5rem] border border-white/5 border-dashed">
+                  <div className="w-16 h-16 rounded-[2rem] bg-white/5 mx-auto flex items-center justify-center text-slate-700 shadow-inner">
+                    <Activity size={24} />
+                  </div>
+                  <p className="text-slate-600 text-[11px] uppercase font-mono font-bold tracking-[0.3em]">No active nodes detected</p>
+                </div>
+              )}
+            </div>
+          </section>
+        </div>
+        <aside className="space-y-8">
+          <section className="bg-slate-900/40 backdrop-blur-xl p-8 rounded-[3rem] border border-white/5 shadow-2xl">
+            <h4 className="text-[11px] font-mono font-bold mb-8 flex items-center gap-3 text-slate-500 uppercase tracking-[0.4em]">
+              <div className="p-2 rounded-xl bg-blue-500/10 text-blue-400 shadow-inner"><BookOpen size={16} /></div>
+              Neural Nodes
+            </h4>
+            <div className="grid grid-cols-2 gap-4">
+              {visibleSubjects(subjects).map(s => (
+                <button 
+                  key={s.id} 
+                  onClick={() => onStartTutor(s.id)} 
+                  className="flex flex-col items-center gap-4 p-5 rounded-[2rem] bg-slate-900/60 border border-white/5 hover:bg-white/10 hover:border-blue-500/30 transition-all group shadow-lg"
+                >
+                  <span className="text-3xl group-hover:scale-110 group-hover:-translate-y-1 transition-all duration-500">{s.icon}</span>
+                  <span className="font-display font-black text-white text-[11px] uppercase tracking-widest truncate w-full text-center">{s.name}</span>
+                </button>
+              ))}
+            </div>
+          </section>
+        </aside>
+      </div>
+    </div>
+  );
+};
+
+const EditorView: React.FC<any> = ({subjects, schedule, onAdd, onUpdate, onRemove, onExport}) => {
+  const [day, setDay] = useState<DayOfWeek>('Monday');
+  const [subject, setSubject] = useState<Subject>(() => visibleSubjects(subjects)[0]?.id || subjects[0].id);
+  const [start, setStart] = useState('09:00');
+  const [end, setEnd] = useState('10:30');
+  const validation = validateSession({ subject, day, startTime: start, endTime: end }, schedule.sessions);
+  const hasWarnings = validation.issues.some(i => i.severity === 'warning');
+  
+  return (
+    <div className="max-w-7xl mx-auto p-6 animate-in fade-in slide-in-from-bottom-4 duration-700">
+      <div className="bg-slate-900/60 backdrop-blur-xl p-10 rounded-[3rem] border border-white/5 shadow-2xl mb-10 relative overflow-hidden">
         <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-transparent via-blue-500/50 to-transparent" />
-        <h2 className="text-[11px] font-mono font-bold text-slate-500 mb-10 uppercase tracking-[0.4em] flex items-center gap-3">
-          <div className="p-2 rounded-xl bg-blue-500/10 text-blue-400 shadow-inner"><Settings size={16} /></div>
-          Protocol Editor: <span className="text-blue-400">{schedule.name}</span>
-        </h2>
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-10">
+          <h2 className="text-[11px] font-mono font-bold text-slate-500 uppercase tracking-[0.4em] flex items-center gap-3">
+            <div className="p-2 rounded-xl bg-blue-500/10 text-blue-400 shadow-inner"><Settings size={16} /></div>
+            Protocol Editor: <span className="text-blue-400">{schedule.name}</span>
+          </h2>
+          <div className="flex gap-2 relative z-10">
+            <button onClick={() => onExport('json')} className="flex items-center gap-2 bg-white/5 border border-white/10 px-4 py-2.5 rounded-xl text-[9px] font-mono font-bold uppercase tracking-widest text-slate-400 hover:text-white hover:bg-white/10 transition-all" title="Export as JSON">
+              <FileDown size={14} /> JSON
+            </button>
+            <button onClick={() => onExport('ics')} className="flex items-center gap-2 bg-white/5 border border-white/10 px-4 py-2.5 rounded-xl text-[9px] font-mono font-bold uppercase tracking-widest text-slate-400 hover:text-white hover:bg-white/10 transition-all" title="Export to Calendar (.ics)">
+              <Calendar size={14} /> ICS
+            </button>
+          </div>
+        </div>
         <div className="grid grid-cols-1 md:grid-cols-4 gap-8 items-end relative z-10">
           <div className="space-y-3">
             <label className="text-[10px] font-mono font-bold text-slate-500 uppercase tracking-widest ml-2">Subject</label>
@@ -1099,10 +2894,10 @@ const EditorView: React.FC<any> = ({schedule, onAdd, onRemove}) => {
                 onChange={e => setSubject(e.target.value as Subject)} 
                 className="w-full bg-slate-900/80 p-4 rounded-[1.5rem] border border-white/10 font-display font-bold text-sm text-white outline-none appearance-none focus:border-blue-500 transition-all shadow-inner pl-12"
               >
-                {SUBJECTS.map(s => <option key={s} value={s} className="bg-slate-900">{s}</option>)}
+                {visibleSubjects(subjects).map((s: SubjectDefinition) => <option key={s.id} value={s.id} className="bg-slate-900">{s.name}</option>)}
               </select>
               <div className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none">
-                {SUBJECT_INFO[subject].icon}
+                {subjectInfo(subjects, subject).icon}
               </div>
             </div>
           </div>
@@ -1143,46 +2938,239 @@ const EditorView: React.FC<any> = ({schedule, onAdd, onRemove}) => {
           </div>
           <button 
             onClick={() => onAdd({ subject, day, startTime: start, endTime: end })} 
-            className="bg-blue-600 text-white p-4 rounded-[1.5rem] font-black text-xs shadow-xl shadow-blue-500/20 uppercase tracking-widest hover:bg-blue-500 transition-all hover:scale-105 active:scale-95 flex items-center justify-center gap-2"
+            disabled={validation.hasErrors}
+            className={`text-white p-4 rounded-[1.5rem] font-black text-xs shadow-xl uppercase tracking-widest transition-all hover:scale-105 active:scale-95 flex items-center justify-center gap-2 disabled:opacity-30 disabled:hover:scale-100 ${hasWarnings ? 'bg-amber-600 shadow-amber-500/20 hover:bg-amber-500' : 'bg-blue-600 shadow-blue-500/20 hover:bg-blue-500'}`}
           >
-            <Plus size={16} /> Add Node
+            <Plus size={16} /> {hasWarnings ? 'Add Anyway' : 'Add Node'}
           </button>
         </div>
+        {validation.issues.length > 0 && (
+          <div className={`mt-8 p-5 rounded-[1.5rem] border flex flex-wrap items-center justify-between gap-4 relative z-10 ${validation.hasErrors ? 'bg-red-500/10 border-red-500/20' : 'bg-amber-500/10 border-amber-500/20'}`}>
+            <ul className="space-y-1">
+              {validation.issues.map((issue, i) => (
+                <li key={i} className={`text-[10px] font-mono font-bold uppercase tracking-widest flex items-center gap-2 ${issue.severity === 'error' ? 'text-red-400' : 'text-amber-400'}`}>
+                  <Info size={12} /> {issue.message}
+                </li>
+              ))}
+            </ul>
+            {validation.suggestion && (
+              <button 
+                onClick={() => { setStart(validation.suggestion!.startTime); setEnd(validation.suggestion!.endTime); }} 
+                className="bg-white/10 text-white px-4 py-2.5 rounded-xl text-[9px] font-black uppercase tracking-widest hover:bg-white/20 transition-all"
+              >
+                Use {validation.suggestion.startTime}–{validation.suggestion.endTime}
+              </button>
+            )}
+          </div>
+        )}
       </div>
 
-      <div className="bg-slate-900/40 backdrop-blur-xl rounded-[3rem] border border-white/5 shadow-2xl overflow-hidden">
-        <div className="overflow-x-auto custom-scrollbar">
-          <table className="w-full text-left">
-            <tbody className="divide-y divide-white/5">
-              {DAYS.map(d => (
-                <tr key={d} className="group hover:bg-white/5 transition-colors">
-                  <td className="px-10 py-8 font-display font-black text-white w-40 align-top uppercase text-[11px] tracking-[0.3em] border-r border-white/5">{d}</td>
-                  <td className="px-10 py-8 flex flex-wrap gap-4">
-                    {schedule.sessions.filter((s:any) => s.day === d).map((s:any) => (
-                      <motion.div 
-                        key={s.id} 
-                        initial={{ scale: 0.9, opacity: 0 }}
-                        animate={{ scale: 1, opacity: 1 }}
-                        className="flex items-center gap-4 bg-slate-900/80 border border-white/10 px-5 py-3 rounded-[1.5rem] group/item hover:border-blue-500/50 transition-all shadow-lg"
-                      >
-                        <span className="font-display font-black text-white text-sm uppercase tracking-tight">{s.subject}</span>
-                        <span className="text-[10px] font-mono font-bold text-slate-500 tracking-[0.2em]">{s.startTime}</span>
-                        <button 
-                          onClick={() => onRemove(s.id)} 
-                          className="text-slate-600 hover:text-red-400 transition-colors ml-2 bg-white/5 p-1.5 rounded-lg hover:bg-red-500/10"
-                        >
-                          <X size={14} />
-                        </button>
-                      </motion.div>
+      <TimetableGrid subjects={subjects} sessions={schedule.sessions} newSubject={subject} onCreate={onAdd} onUpdate={onUpdate} onRemove={onRemove} />
+    </div>
+  );
+};
+
+const GRID_HOUR_PX = 48;
+const GRID_SNAP_MINUTES = 15;
+// On touch a drag starts only after a long press, so a swipe still scrolls the grid
+const GRID_LONG_PRESS_MS = 400;
+const GRID_TOUCH_SLOP_PX = 8;
+
+type GridDrag = {
+  kind: 'create' | 'move' | 'resize',
+  sessionId?: string,
+  day: DayOfWeek,
+  start: number,
+  end: number,
+  anchor: number, // minute where the pointer went down (create) or offset into the block (move)
+  moved: boolean
+};
+
+const TimetableGrid: React.FC<{
+  subjects: SubjectDefinition[],
+  sessions: StudySession[],
+  newSubject: Subject,
+  onCreate: (session: Omit<StudySession, 'id'>) => void,
+  onUpdate: (id: string, patch: Partial<StudySession>) => void,
+  onRemove: (id: string) => void
+}> = ({ subjects, sessions, newSubject, onCreate, onUpdate, onRemove }) => {
+  const columnsRef = useRef<HTMLDivElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<GridDrag | null>(null);
+  const dragRef = useRef(drag);
+  dragRef.current = drag;
+  const pendingTouchRef = useRef<{ timer: number, x: number, y: number } | null>(null);
+  const pxPerMinute = GRID_HOUR_PX / 60;
+
+  useEffect(() => {
+    // Open on the morning rather than midnight
+    if (scrollRef.current) scrollRef.current.scrollTop = 7 * GRID_HOUR_PX;
+  }, []);
+
+  useEffect(() => {
+    // touch-action is read when the touch starts, so a drag begun by long press stops the scroll here instead
+    const el = columnsRef.current;
+    if (!el) return;
+    const blockScroll = (e: TouchEvent) => { if (dragRef.current) e.preventDefault(); };
+    el.addEventListener('touchmove', blockScroll, { passive: false });
+    return () => el.removeEventListener('touchmove', blockScroll);
+  }, []);
+
+  const cancelPendingTouch = () => {
+    if (pendingTouchRef.current) clearTimeout(pendingTouchRef.current.timer);
+    pendingTouchRef.current = null;
+  };
+
+  const snap = (minutes: number) => Math.max(0, Math.min(24 * 60, Math.round(minutes / GRID_SNAP_MINUTES) * GRID_SNAP_MINUTES));
+
+  const pointerPosition = (e: React.PointerEvent) => {
+    const rect = columnsRef.current!.getBoundingClientRect();
+    const dayIndex = Math.max(0, Math.min(DAYS.length - 1, Math.floor((e.clientX - rect.left) / (rect.width / DAYS.length))));
+    return { day: DAYS[dayIndex], minutes: (e.clientY - rect.top) / pxPerMinute };
+  };
+
+  const beginDrag = (e: React.PointerEvent, next: GridDrag) => {
+    e.stopPropagation();
+    const pointerId = e.pointerId;
+    if (e.pointerType !== 'touch') {
+      columnsRef.current?.setPointerCapture(pointerId);
+      setDrag(next);
+      return;
+    }
+    cancelPendingTouch();
+    pendingTouchRef.current = {
+      x: e.clientX,
+      y: e.clientY,
+      timer: window.setTimeout(() => {
+        pendingTouchRef.current = null;
+        columnsRef.current?.setPointerCapture(pointerId);
+        navigator.vibrate?.(10);
+        setDrag(next);
+      }, GRID_LONG_PRESS_MS)
+    };
+  };
+
+  const handleBackgroundDown = (e: React.PointerEvent) => {
+    if (e.button !== 0) return;
+    const { day, minutes } = pointerPosition(e);
+    const start = Math.min(snap(minutes - GRID_SNAP_MINUTES / 2), 24 * 60 - GRID_SNAP_MINUTES);
+    beginDrag(e, { kind: 'create', day, start, end: start + 60, anchor: start, moved: false });
+  };
+
+  const handleMove = (e: React.PointerEvent) => {
+    const pending = pendingTouchRef.current;
+    if (pending && Math.hypot(e.clientX - pending.x, e.clientY - pending.y) > GRID_TOUCH_SLOP_PX) cancelPendingTouch();
+    if (!drag) return;
+    const { day, minutes } = pointerPosition(e);
+    if (drag.kind === 'create') {
+      const current = snap(minutes);
+      const start = Math.min(drag.anchor, current);
+      const end = Math.max(drag.anchor + GRID_SNAP_MINUTES, current);
+      setDrag({ ...drag, start, end, moved: true });
+    } else if (drag.kind === 'move') {
+      const length = drag.end - drag.start;
+      const start = Math.max(0, Math.min(24 * 60 - length, snap(minutes - drag.anchor)));
+      setDrag({ ...drag, day, start, end: start + length, moved: true });
+    } else {
+      const end = Math.max(drag.start + GRID_SNAP_MINUTES, snap(minutes));
+      setDrag({ ...drag, end, moved: true });
+    }
+  };
+
+  const handleUp = (e: React.PointerEvent) => {
+    cancelPendingTouch();
+    if (!drag) return;
+    columnsRef.current?.releasePointerCapture(e.pointerId);
+    // 23:59 is the last representable HH:mm
+    const times = { startTime: fromMinutes(drag.start), endTime: fromMinutes(Math.min(drag.end, 24 * 60 - 1)) };
+    // A plain click on empty space is not a request for a session
+    if (drag.kind === 'create' && drag.moved) {
+      onCreate({ subject: newSubject, day: drag.day, ...times });
+    } else if (drag.moved && drag.sessionId) {
+      onUpdate(drag.sessionId, drag.kind === 'move' ? { day: drag.day, ...times } : { endTime: times.endTime });
+    }
+    setDrag(null);
+  };
+
+  const renderBlock = (key: string, subject: Subject, start: number, end: number, ghost: boolean, session?: StudySession) => (
+    <div
+      key={key}
+      onPointerDown={session ? (e) => {
+        if (e.button !== 0) return;
+        const { minutes } = pointerPosition(e);
+        const s = toMinutes(session.startTime);
+        beginDrag(e, { kind: 'move', sessionId: session.id, day: session.day, start: s, end: toMinutes(session.endTime), anchor: minutes - s, moved: false });
+      } : undefined}
+      className={`absolute left-1 right-1 rounded-xl px-2 py-1 overflow-hidden text-white shadow-lg group/block select-none ${ghost ? 'opacity-60 ring-2 ring-white/60 z-20' : 'cursor-grab active:cursor-grabbing z-10'}`}
+      style={{ top: start * pxPerMinute, height: Math.max(GRID_SNAP_MINUTES, end - start) * pxPerMinute, backgroundColor: subjectInfo(subjects, subject).color }}
+    >
+      <div className="text-[10px] font-display font-black uppercase tracking-tight truncate">{subjectInfo(subjects, subject).icon} {subjectInfo(subjects, subject).name}</div>
+      <div className="text-[8px] font-mono font-bold opacity-80">{fromMinutes(start)}–{fromMinutes(Math.min(end, 24 * 60 - 1))}</div>
+      {session && (
+        <>
+          <button
+            onPointerDown={(e) => e.stopPropagation()}
+            onClick={(e) => { e.stopPropagation(); onRemove(session.id); }}
+            className="absolute top-1 right-1 p-0.5 rounded-md bg-black/20 opacity-0 group-hover/block:opacity-100 hover:bg-black/40 transition-all"
+          >
+            <X size={10} />
+          </button>
+          <div
+            onPointerDown={(e) => {
+              if (e.button !== 0) return;
+              beginDrag(e, { kind: 'resize', sessionId: session.id, day: session.day, start: toMinutes(session.startTime), end: toMinutes(session.endTime), anchor: 0, moved: false });
+            }}
+            className="absolute bottom-0 left-0 right-0 h-2 cursor-ns-resize bg-black/0 hover:bg-black/20"
+          />
+        </>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="bg-slate-900/40 backdrop-blur-xl rounded-[3rem] border border-white/5 shadow-2xl overflow-hidden">
+      <div className="overflow-x-auto custom-scrollbar">
+        <div className="min-w-[720px]">
+          <div className="flex border-b border-white/5 pl-14">
+            {DAYS.map(d => (
+              <div key={d} className="flex-1 py-4 text-center text-[10px] font-display font-black text-white uppercase tracking-[0.3em]">{d.slice(0, 3)}</div>
+            ))}
+          </div>
+          <div ref={scrollRef} className="h-[60vh] overflow-y-auto custom-scrollbar">
+            <div className="flex relative" style={{ height: 24 * GRID_HOUR_PX }}>
+              <div className="w-14 shrink-0 relative">
+                {Array.from({ length: 24 }, (_, h) => (
+                  <span key={h} className="absolute right-2 -translate-y-1/2 text-[8px] font-mono font-bold text-slate-600" style={{ top: h * GRID_HOUR_PX }}>{h > 0 ? `${h.toString().padStart(2, '0')}:00` : ''}</span>
+                ))}
+              </div>
+              <div
+                ref={columnsRef}
+                className={`flex-1 flex relative ${drag ? 'touch-none' : ''}`}
+                onPointerDown={handleBackgroundDown}
+                onPointerMove={handleMove}
+                onPointerUp={handleUp}
+                onPointerCancel={() => { cancelPendingTouch(); setDrag(null); }}
+              >
+                {Array.from({ length: 24 }, (_, h) => (
+                  <div key={h} className="absolute left-0 right-0 border-t border-white/5 pointer-events-none" style={{ top: h * GRID_HOUR_PX }} />
+                ))}
+                {DAYS.map(d => (
+                  <div key={d} className="flex-1 relative border-l border-white/5 hover:bg-white/[0.02] cursor-crosshair">
+                    {sessions.filter(s => s.day === d).map(s => (
+                      drag?.sessionId === s.id
+                        ? (drag.day === d ? renderBlock(s.id, s.subject, drag.start, drag.end, true) : null)
+                        : renderBlock(s.id, s.subject, toMinutes(s.startTime), toMinutes(s.endTime), false, s)
                     ))}
-                    {schedule.sessions.filter((s:any) => s.day === d).length === 0 && (
-                      <span className="text-slate-700 text-[11px] uppercase font-mono font-bold tracking-[0.4em] py-3">System Idle</span>
-                    )}
-                  </td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
+                    {drag?.sessionId && drag.day === d && !sessions.some(s => s.id === drag.sessionId && s.day === d) && (() => {
+                      const moving = sessions.find(s => s.id === drag.sessionId);
+                      return moving ? renderBlock(`${moving.id}-ghost`, moving.subject, drag.start, drag.end, true) : null;
+                    })()}
+                    {drag?.kind === 'create' && drag.day === d && renderBlock('create-ghost', newSubject, drag.start, drag.end, true)}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
         </div>
       </div>
     </div>
@@ -1190,18 +3178,75 @@ const EditorView: React.FC<any> = ({schedule, onAdd, onRemove}) => {
 };
 
 const TutorView: React.FC<{
+  subjects: SubjectDefinition[],
+  onManageSubjects: () => void,
   activeSubject: Subject | null, 
   setActiveSubject: (s: Subject | null) => void, 
   history: Record<Subject, ChatMessage[]>, 
-  onSend: (s: Subject, t: string) => void, 
+  conversations: Conversation[],
+  activeConversationIds: Partial<Record<Subject, string>>,
+  onNewConversation: (s: Subject) => void,
+  onSelectConversation: (s: Subject, id: string) => void,
+  onRenameConversation: (id: string, title: string) => void,
+  onDeleteConversation: (id: string) => void,
+  onSend: (s: Subject, t: string, attachments?: ChatAttachment[]) => void, 
+  onStop: () => void,
+  onRetry: (s: Subject, messageId: string) => void,
+  persona: TutorPersona | null,
+  onEditPersona: (s: Subject) => void,
   isTyping: boolean, 
   timer: TimerState, 
-  setTimer: React.Dispatch<React.SetStateAction<TimerState>>,
-  onSave: (s: Subject, c: string) => void
-}> = ({activeSubject, setActiveSubject, history, onSend, isTyping, timer, setTimer, onSave}) => {
+  onToggleTimer: () => void,
+  onResetTimer: () => void,
+  onSave: (s: Subject, message: ChatMessage) => void,
+  onExportConversation: (c: Conversation) => void,
+  focusMessageId: string | null,
+  onFocusHandled: () => void,
+  voiceLanguage: VoiceLanguage,
+  onVoiceLanguageChange: (l: VoiceLanguage) => void,
+  onTranscribe: (audio: { data: string, mimeType: string }, language: VoiceLanguage) => Promise<string>,
+  playback: PlaybackState,
+  onPlayMessage: (m: ChatMessage) => void,
+  autoRead: boolean,
+  onToggleAutoRead: () => void
+}> = ({subjects, onManageSubjects, activeSubject, setActiveSubject, history, conversations, activeConversationIds, onNewConversation, onSelectConversation, onRenameConversation, onDeleteConversation, onSend, onStop, onRetry, persona, onEditPersona, isTyping, timer, onToggleTimer, onResetTimer, onSave, onExportConversation, focusMessageId, onFocusHandled, voiceLanguage, onVoiceLanguageChange, onTranscribe, playback, onPlayMessage, autoRead, onToggleAutoRead}) => {
   const [input, setInput] = useState('');
+  const [pendingAttachments, setPendingAttachments] = useState<ChatAttachment[]>([]);
+  const [attachError, setAttachError] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [contextFor, setContextFor] = useState<string | null>(null);
+  const [showSummary, setShowSummary] = useState(false);
+  const [dictation, setDictation] = useState<'idle' | 'listening' | 'transcribing'>('idle');
+  const [dictationError, setDictationError] = useState<string | null>(null);
+  const dictationRef = useRef<DictationSession | null>(null);
   const chatEndRef = useRef<HTMLDivElement>(null);
-  useEffect(() => chatEndRef.current?.scrollIntoView({ behavior: 'smooth' }), [history, isTyping, activeSubject]);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  useEffect(() => {
+    if (!focusMessageId) chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [history, isTyping, activeSubject]);
+
+  // Jump to a requested message instead of the bottom; waits until its conversation has rendered
+  useEffect(() => {
+    if (!focusMessageId) return;
+    const element = document.getElementById(`msg-${focusMessageId}`);
+    if (!element) return;
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedId(focusMessageId);
+    onFocusHandled();
+  }, [focusMessageId, history, activeSubject]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timeout = setTimeout(() => setHighlightedId(null), 2500);
+    return () => clearTimeout(timeout);
+  }, [highlightedId]);
+
+  // Never leave the microphone open when the student switches subject or leaves the tutor
+  useEffect(() => () => {
+    dictationRef.current?.cancel();
+    dictationRef.current = null;
+  }, [activeSubject]);
 
   if (!activeSubject) {
     return (
@@ -1216,18 +3261,28 @@ const TutorView: React.FC<{
         </motion.div>
         <h2 className="text-[13px] font-display font-black text-white mb-12 uppercase tracking-[0.6em] relative z-10">Select Neural Interface</h2>
         <div className="grid grid-cols-2 sm:grid-cols-4 gap-6 w-full max-w-4xl px-4 pb-12 relative z-10">
-          {SUBJECTS.map(s => (
+          {visibleSubjects(subjects).map(s => (
             <motion.button 
-              key={s} 
+              key={s.id} 
               whileHover={{ scale: 1.05, y: -8 }}
               whileTap={{ scale: 0.95 }}
-              onClick={() => setActiveSubject(s)} 
+              onClick={() => setActiveSubject(s.id)} 
+              title={s.description}
               className="bg-slate-900/60 backdrop-blur-xl p-8 rounded-[2.5rem] border border-white/5 hover:border-blue-500/50 hover:bg-white/10 transition-all flex flex-col items-center gap-5 group shadow-2xl"
             >
-              <span className="text-5xl group-hover:scale-110 transition-transform duration-500 drop-shadow-2xl">{SUBJECT_INFO[s].icon}</span>
-              <span className="font-display font-black text-white text-[11px] tracking-widest uppercase">{s}</span>
+              <span className="text-5xl group-hover:scale-110 transition-transform duration-500 drop-shadow-2xl">{s.icon}</span>
+              <span className="font-display font-black text-white text-[11px] tracking-widest uppercase truncate max-w-full">{s.name}</span>
             </motion.button>
           ))}
+          <motion.button 
+            whileHover={{ scale: 1.05, y: -8 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={onManageSubjects} 
+            className="bg-slate-900/30 p-8 rounded-[2.5rem] border border-dashed border-white/10 hover:border-blue-500/50 hover:bg-white/5 transition-all flex flex-col items-center justify-center gap-5 group text-slate-500 hover:text-white"
+          >
+            <Plus size={40} className="group-hover:scale-110 transition-transform duration-500" />
+            <span className="font-display font-black text-[11px] tracking-widest uppercase">Add Subject</span>
+          </motion.button>
         </div>
       </div>
     );
@@ -1243,6 +3298,58 @@ const TutorView: React.FC<{
     navigator.clipboard.writeText(text);
   };
 
+  // While a reply streams, its context is shown automatically; otherwise the one the student picked
+  const messages: ChatMessage[] = history[activeSubject];
+  const activeSummary = conversations.find(c => c.id === activeConversationIds[activeSubject])?.summary;
+  const focusId = contextFor ?? messages.find(m => m.isStreaming)?.id ?? null;
+  const focusIndex = focusId ? messages.findIndex(m => m.id === focusId) : -1;
+  const focusContext = focusIndex >= 0 ? messages[focusIndex].context : undefined;
+  const contextState = (msg: ChatMessage) => {
+    if (!focusContext) return null;
+    if (msg.id === focusId) return 'focus';
+    // The question itself is always sent; it just isn't part of the history list
+    const isQuestion = messages[focusIndex - 1]?.id === msg.id;
+    return isQuestion || focusContext.messageIds.includes(msg.id) ? 'included' : 'excluded';
+  };
+
+  const handleAttachFiles = async (files: FileList | null) => {
+    if (!files) return;
+    setAttachError(null);
+    const room = MAX_ATTACHMENTS - pendingAttachments.length;
+    if (files.length > room) setAttachError(`Up to ${MAX_ATTACHMENTS} attachments per message.`);
+    for (const file of Array.from(files).slice(0, Math.max(0, room))) {
+      try {
+        const attachment = await readAttachment(file);
+        setPendingAttachments(prev => [...prev, attachment]);
+      } catch (error: any) {
+        setAttachError(error?.message || `Could not read ${file.name}.`);
+      }
+    }
+  };
+
+  const handleStartDictation = () => {
+    if (dictationRef.current || isTyping) return;
+    setDictationError(null);
+    // Dictated text is appended to whatever was already typed, so the student can mix both
+    const prefix = input.trim() ? `${input.trim()} ` : '';
+    setDictation('listening');
+    dictationRef.current = startDictation(voiceLanguage, {
+      onTranscript: (text) => setInput(prefix + text),
+      onError: (message) => setDictationError(message),
+      onEnd: () => {
+        dictationRef.current = null;
+        setDictation('idle');
+      },
+      transcribe: onTranscribe,
+    });
+  };
+
+  const handleStopDictation = () => {
+    if (!dictationRef.current || dictation !== 'listening') return;
+    setDictation('transcribing');
+    dictationRef.current.stop();
+  };
+
   return (
     <div className="h-full flex flex-col md:flex-row bg-slate-950 animate-in fade-in duration-700">
       <div className="w-full md:w-80 bg-slate-900/60 backdrop-blur-xl border-r border-white/5 p-8 flex flex-col shrink-0 overflow-y-auto custom-scrollbar max-h-[35vh] md:max-h-full relative z-20 shadow-2xl">
@@ -1251,25 +3358,33 @@ const TutorView: React.FC<{
             <ChevronLeft size={16} className="group-hover:-translate-x-1 transition-transform" /> Disconnect
           </button>
           <div className="mb-12 text-center">
-            <div className={`w-24 h-24 rounded-[2rem] mx-auto flex items-center justify-center text-5xl shadow-[0_0_30px_rgba(0,0,0,0.3)] mb-6 ring-1 ring-white/10 ${SUBJECT_INFO[activeSubject as Subject].color} text-white`}>{SUBJECT_INFO[activeSubject as Subject].icon}</div>
-            <h3 className="text-2xl font-display font-black text-white uppercase tracking-tight">{activeSubject}</h3>
+            <div style={{ backgroundColor: subjectInfo(subjects, activeSubject).color }} className="w-24 h-24 rounded-[2rem] mx-auto flex items-center justify-center text-5xl shadow-[0_0_30px_rgba(0,0,0,0.3)] mb-6 ring-1 ring-white/10 text-white">{subjectInfo(subjects, activeSubject).icon}</div>
+            <h3 className="text-2xl font-display font-black text-white uppercase tracking-tight">{subjectInfo(subjects, activeSubject).name}</h3>
             <div className="flex items-center justify-center gap-3 mt-4 bg-blue-500/10 py-2 px-4 rounded-full border border-blue-500/20 inline-flex">
               <div className="w-2 h-2 rounded-full bg-blue-500 animate-pulse shadow-[0_0_10px_rgba(59,130,246,0.8)]" />
               <p className="text-blue-400 text-[9px] font-mono font-bold uppercase tracking-[0.4em]">Neural Link Active</p>
             </div>
+            {persona && (
+              <button onClick={() => onEditPersona(activeSubject)} className="mt-4 mx-auto flex items-center gap-2 text-[9px] font-mono font-bold uppercase tracking-widest text-slate-500 hover:text-white transition-colors" title="Edit persona">
+                <Pencil size={10} /> {persona.name} · {persona.style === 'socratic' ? 'Socratic' : 'Direct'}
+              </button>
+            )}
           </div>
           <div className="bg-black/40 p-6 rounded-[2rem] border border-white/5 text-center space-y-6 shadow-inner relative overflow-hidden">
             <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-transparent via-blue-500/30 to-transparent" />
-            <div className="text-4xl font-mono font-black text-white tracking-tighter tabular-nums drop-shadow-lg">{formatTime(timer.timeLeft)}</div>
+            <div>
+              <div className="text-4xl font-mono font-black text-white tracking-tighter tabular-nums drop-shadow-lg">{formatTime(timer.timeLeft)}</div>
+              <p className={`text-[9px] font-mono font-bold uppercase tracking-[0.3em] mt-2 ${timer.mode === 'study' ? 'text-blue-400' : 'text-emerald-400'}`}>{timerModeLabel(timer.mode)} · Cycle {timer.completedCycles + (timer.mode === 'study' ? 1 : 0)}</p>
+            </div>
             <div className="flex justify-center gap-3">
               <button 
-                onClick={() => setTimer((t:any) => ({...t, isActive: !t.isActive}))} 
+                onClick={onToggleTimer} 
                 className={`p-4 rounded-2xl transition-all shadow-xl ${timer.isActive ? 'bg-white/10 text-white hover:bg-white/20' : 'bg-blue-600 text-white shadow-blue-500/20 hover:bg-blue-500 hover:scale-105 active:scale-95'}`}
               >
                 {timer.isActive ? <Pause size={20} fill="currentColor" /> : <Play size={20} fill="currentColor" />}
               </button>
               <button 
-                onClick={() => setTimer((t:any) => ({...t, isActive: false, timeLeft: 25 * 60, mode: 'study'}))} 
+                onClick={onResetTimer} 
                 className="p-4 bg-white/5 text-slate-400 rounded-2xl hover:bg-white/10 hover:text-white transition-all border border-transparent hover:border-white/5"
                 title="Reset Timer"
               >
@@ -1277,14 +3392,131 @@ const TutorView: React.FC<{
               </button>
             </div>
           </div>
+          <div className="mt-8 bg-black/40 p-5 rounded-[2rem] border border-white/5 space-y-4">
+            <div className="flex items-center justify-between">
+              <h4 className="text-[10px] font-mono font-bold text-slate-500 uppercase tracking-[0.3em] flex items-center gap-2"><Volume2 size={12} /> Voice</h4>
+              <button 
+                onClick={onToggleAutoRead} 
+                className={`px-3 py-1.5 rounded-xl text-[8px] font-mono font-black uppercase tracking-widest border transition-all ${autoRead ? 'bg-blue-600 text-white border-blue-500' : 'text-slate-500 border-white/10 hover:text-white'}`}
+                title="Read new replies aloud"
+              >
+                Auto-read {autoRead ? 'On' : 'Off'}
+              </button>
+            </div>
+            <div className="flex gap-1">
+              {SPEECH_RATES.map(r => (
+                <button 
+                  key={r} 
+                  onClick={() => setPlaybackRate(r)} 
+                  className={`flex-1 py-1.5 rounded-lg text-[9px] font-mono font-bold transition-all ${playback.rate === r ? 'bg-white/15 text-white' : 'text-slate-500 hover:text-white hover:bg-white/5'}`}
+                >
+                  {r}×
+                </button>
+              ))}
+            </div>
+            {playback.status !== 'idle' && (
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-[9px] font-mono font-bold text-blue-400 uppercase tracking-widest">
+                  {playback.status === 'paused' ? 'Paused' : playback.status === 'loading' ? 'Synthesizing' : 'Reading'} {playback.chunkIndex + 1}/{playback.chunkCount}
+                  {playback.queued > 0 && <span className="text-slate-500"> · +{playback.queued} queued</span>}
+                </span>
+                <div className="flex gap-1">
+                  <button onClick={() => playback.status === 'paused' ? resumePlayback() : pausePlayback()} className="p-2 bg-white/5 rounded-lg text-slate-300 hover:text-white">
+                    {playback.status === 'paused' ? <Play size={12} /> : <Pause size={12} />}
+                  </button>
+                  <button onClick={stopPlayback} className="p-2 bg-white/5 rounded-lg text-slate-300 hover:text-red-400">
+                    <Square size={12} />
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+          <div className="mt-8 space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="text-[10px] font-mono font-bold text-slate-500 uppercase tracking-[0.3em] flex items-center gap-2"><History size={12} /> Sessions</h4>
+              <button 
+                onClick={() => onNewConversation(activeSubject)} 
+                className="p-2 bg-blue-600/10 text-blue-400 rounded-xl border border-blue-500/20 hover:bg-blue-600 hover:text-white transition-all"
+                title="New Conversation"
+              >
+                <Plus size={14} />
+              </button>
+            </div>
+            {conversations.filter(c => c.subject === activeSubject).map(c => (
+              <div 
+                key={c.id} 
+                onClick={() => renamingId !== c.id && onSelectConversation(activeSubject, c.id)}
+                className={`group/conv p-3 rounded-2xl border cursor-pointer transition-all ${activeConversationIds[activeSubject] === c.id ? 'bg-blue-600/20 border-blue-500/40' : 'bg-black/20 border-white/5 hover:border-white/20'}`}
+              >
+                {renamingId === c.id ? (
+                  <form onSubmit={(e) => { e.preventDefault(); onRenameConversation(c.id, renameValue); setRenamingId(null); }}>
+                    <input 
+                      autoFocus 
+                      value={renameValue} 
+                      onChange={(e) => setRenameValue(e.target.value)} 
+                      onBlur={() => setRenamingId(null)}
+                      className="w-full bg-white/5 px-2 py-1 rounded-lg border border-blue-500/50 outline-none text-[11px] font-display font-bold text-white"
+                    />
+                  </form>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-[11px] font-display font-bold text-white truncate">{c.title}</p>
+                      <p className="text-[8px] font-mono font-bold text-slate-600 uppercase tracking-widest mt-1">{c.messages.length} msgs · {new Date(c.updatedAt).toLocaleDateString()}</p>
+                    </div>
+                    <button onClick={(e) => { e.stopPropagation(); onExportConversation(c); }} className="p-1.5 rounded-lg text-slate-600 hover:text-white hover:bg-white/10 opacity-0 group-hover/conv:opacity-100 transition-all" title="Export study pack">
+                      <FileDown size={12} />
+                    </button>
+                    <button onClick={(e) => { e.stopPropagation(); setRenamingId(c.id); setRenameValue(c.title); }} className="p-1.5 rounded-lg text-slate-600 hover:text-white hover:bg-white/10 opacity-0 group-hover/conv:opacity-100 transition-all" title="Rename">
+                      <Pencil size={12} />
+                    </button>
+                    <button onClick={(e) => { e.stopPropagation(); if (confirm("Delete this conversation?")) onDeleteConversation(c.id); }} className="p-1.5 rounded-lg text-slate-600 hover:text-red-400 hover:bg-red-500/10 opacity-0 group-hover/conv:opacity-100 transition-all" title="Delete">
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+            {conversations.filter(c => c.subject === activeSubject).length === 0 && (
+              <p className="text-[9px] font-mono font-bold text-slate-700 uppercase tracking-[0.3em] text-center py-4">No saved sessions</p>
+            )}
+          </div>
         </div>
       </div>
       <div className="flex-1 flex flex-col min-w-0 bg-slate-950 relative">
         <div className="absolute inset-0 opacity-[0.02] pointer-events-none bg-[radial-gradient(#fff_1px,transparent_1px)] [background-size:32px_32px]" />
         <div className="flex-1 overflow-y-auto p-8 space-y-8 custom-scrollbar relative z-10">
-          {history[activeSubject].map((msg:any) => (
-            <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'} animate-in slide-in-from-bottom-4 duration-500`}>
-              <div className={`max-w-[90%] sm:max-w-[85%] rounded-[2rem] px-6 py-5 shadow-2xl relative group ${msg.role === 'user' ? 'bg-blue-600 text-white rounded-tr-none shadow-blue-500/20' : 'bg-slate-900/80 backdrop-blur-md border border-white/10 text-slate-200 rounded-tl-none'}`}>
+          {activeSummary && (
+            <div className={`max-w-3xl mx-auto rounded-2xl border px-5 py-4 transition-all ${focusContext?.summaryIncluded ? 'border-emerald-500/40 bg-emerald-500/5' : 'border-white/10 bg-white/5'} ${focusContext && !focusContext.summaryIncluded ? 'opacity-30' : ''}`}>
+              <button onClick={() => setShowSummary(!showSummary)} className="w-full flex items-center justify-between gap-3 text-[9px] font-mono font-bold uppercase tracking-[0.3em] text-slate-400 hover:text-white">
+                <span className="flex items-center gap-2"><Bookmark size={12} /> Pinned summary of earlier turns · ~{activeSummary.tokens} tok</span>
+                <ChevronRight size={14} className={`transition-transform ${showSummary ? 'rotate-90' : ''}`} />
+              </button>
+              {showSummary && (
+                <div className="mt-3 text-[13px] text-slate-300 leading-relaxed markdown-body">
+                  <ReactMarkdown remarkPlugins={[remarkMath, remarkGfm]} rehypePlugins={[rehypeKatex]}>{activeSummary.content}</ReactMarkdown>
+                </div>
+              )}
+            </div>
+          )}
+          {history[activeSubject].filter((msg:any) => msg.content || !msg.isStreaming).map((msg:any) => (
+            <div key={msg.id} id={`msg-${msg.id}`} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'} animate-in slide-in-from-bottom-4 duration-500 transition-opacity ${contextState(msg) === 'excluded' ? 'opacity-30' : ''}`}>
+              <div className={`max-w-[90%] sm:max-w-[85%] rounded-[2rem] px-6 py-5 shadow-2xl relative group transition-shadow ${contextState(msg) === 'included' ? 'ring-2 ring-emerald-500/40' : ''} ${highlightedId === msg.id ? 'ring-2 ring-amber-400' : ''} ${msg.role === 'user' ? 'bg-blue-600 text-white rounded-tr-none shadow-blue-500/20' : `bg-slate-900/80 backdrop-blur-md border text-slate-200 rounded-tl-none ${msg.error ? 'border-red-500/30' : 'border-white/10'}`}`}>
+                {msg.attachments?.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mb-3">
+                    {msg.attachments.map((a: ChatAttachment) => (
+                      <a key={a.id} href={attachmentDataUrl(a)} target="_blank" rel="noreferrer" download={a.mimeType === 'application/pdf' ? a.name : undefined} title={a.name}>
+                        {a.mimeType.startsWith('image/') ? (
+                          <img src={attachmentDataUrl(a)} alt={a.name} className="w-24 h-24 object-cover rounded-xl border border-white/20" />
+                        ) : (
+                          <div className="h-12 px-3 rounded-xl border border-white/20 bg-black/20 flex items-center gap-2 text-[10px] font-mono font-bold">
+                            <FileText size={14} /> <span className="max-w-[120px] truncate">{a.name}</span>
+                          </div>
+                        )}
+                      </a>
+                    ))}
+                  </div>
+                )}
                 <div className="leading-relaxed text-[15px] font-medium markdown-body">
                   <ReactMarkdown 
                     remarkPlugins={[remarkMath, remarkGfm]} 
@@ -1295,6 +3527,12 @@ const TutorView: React.FC<{
                         if (!inline && match && match[1] === 'chart') {
                           return <ChartRenderer content={String(children).replace(/\n$/, '')} />;
                         }
+                        if (!inline && match && match[1] === 'smiles') {
+                          return <SmilesRenderer content={String(children).replace(/\n$/, '')} />;
+                        }
+                        if (!inline && match && match[1] === 'reaction') {
+                          return <ReactionRenderer content={String(children).replace(/\n$/, '')} />;
+                        }
                         return (
                           <code className={className} {...props}>
                             {children}
@@ -1305,17 +3543,68 @@ const TutorView: React.FC<{
                   >
                     {msg.content}
                   </ReactMarkdown>
+                  {msg.isStreaming && (
+                    <span className="inline-block w-2 h-4 ml-1 align-middle bg-blue-500 animate-pulse rounded-sm shadow-[0_0_8px_rgba(59,130,246,0.8)]" />
+                  )}
                 </div>
+                {msg.isTruncated && (
+                  <div className="mt-4 inline-flex items-center gap-2 bg-amber-500/10 text-amber-400 border border-amber-500/20 px-3 py-1.5 rounded-full text-[9px] font-mono font-bold uppercase tracking-widest">
+                    <Square size={10} fill="currentColor" /> Generation Stopped
+                  </div>
+                )}
+                {msg.error && (
+                  <div className={`${msg.content ? 'mt-4' : ''} flex flex-wrap items-center gap-3 bg-red-500/10 border border-red-500/20 rounded-2xl px-4 py-3`}>
+                    <AlertTriangle size={16} className="text-red-400 shrink-0" />
+                    <div className="flex-1 min-w-[160px]">
+                      <p className="text-[8px] font-mono font-black text-red-400 uppercase tracking-[0.3em]">Request failed · {msg.error.kind}</p>
+                      <p className="text-[13px] text-red-200 font-medium mt-1">{msg.error.message}</p>
+                    </div>
+                    <button 
+                      onClick={() => onRetry(activeSubject, msg.id)} 
+                      disabled={isTyping} 
+                      className="flex items-center gap-2 bg-red-600 text-white px-4 py-2 rounded-xl text-[9px] font-mono font-black uppercase tracking-widest hover:bg-red-500 disabled:opacity-40 transition-all"
+                    >
+                      <RotateCcw size={12} /> Retry
+                    </button>
+                  </div>
+                )}
                 <div className="flex items-center justify-between mt-5 pt-4 border-t border-white/5">
                   <div className={`flex items-center gap-2 opacity-40 text-[9px] font-mono font-bold uppercase tracking-widest ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                     <Clock size={10} /> {new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    {msg.context && (
+                      <button 
+                        onClick={() => setContextFor(contextFor === msg.id ? null : msg.id)} 
+                        className={`ml-2 px-2 py-0.5 rounded-md border transition-all ${contextFor === msg.id ? 'border-emerald-500/50 text-emerald-400 opacity-100' : 'border-white/10 hover:opacity-100'}`}
+                        title="Highlight the messages sent with this request"
+                      >
+                        {msg.context.messageIds.length + 1} msgs{msg.context.summaryIncluded ? ' + summary' : ''} · {(msg.context.tokens / 1000).toFixed(1)}k/{Math.round(msg.context.budget / 1000)}k tok
+                      </button>
+                    )}
                   </div>
-                  {msg.role === 'model' && (
-                    <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                  {msg.role === 'model' && !msg.isStreaming && !msg.error && (
+                    <div className={`flex items-center gap-2 transition-opacity ${playback.messageId === msg.id ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}>
+                      {playback.messageId === msg.id ? (
+                        <>
+                          <button 
+                            onClick={() => msg.isAudioPlaying ? pausePlayback() : resumePlayback()} 
+                            className="p-2 bg-blue-500/20 rounded-xl text-blue-300 hover:text-white transition-all" 
+                            title={msg.isAudioPlaying ? 'Pause Reading' : 'Resume Reading'}
+                          >
+                            {playback.status === 'loading' ? <Loader2 size={16} className="animate-spin" /> : msg.isAudioPlaying ? <Pause size={16} /> : <Play size={16} />}
+                          </button>
+                          <button onClick={stopPlayback} className="p-2 hover:bg-white/10 rounded-xl text-slate-400 hover:text-white transition-all" title="Stop Reading">
+                            <Square size={14} />
+                          </button>
+                        </>
+                      ) : (
+                        <button onClick={() => onPlayMessage(msg)} className="p-2 hover:bg-white/10 rounded-xl text-slate-400 hover:text-white transition-all" title="Read Aloud">
+                          <Volume2 size={16} />
+                        </button>
+                      )}
                       <button onClick={() => handleCopy(msg.content)} className="p-2 hover:bg-white/10 rounded-xl text-slate-400 hover:text-white transition-all" title="Copy Markdown">
                         <Copy size={16} />
                       </button>
-                      <button onClick={() => onSave(activeSubject, msg.content)} className="p-2 hover:bg-blue-500/20 rounded-xl text-blue-400 hover:text-blue-300 transition-all" title="Save to Vault">
+                      <button onClick={() => onSave(activeSubject, msg)} className="p-2 hover:bg-blue-500/20 rounded-xl text-blue-400 hover:text-blue-300 transition-all" title="Save to Vault">
                         <Bookmark size={16} />
                       </button>
                     </div>
@@ -1323,51 +3612,639 @@ const TutorView: React.FC<{
                 </div>
               </div>
             </div>
-          ))}
-          {isTyping && (
-            <div className="flex justify-start">
-              <div className="bg-slate-900/80 backdrop-blur-md border border-white/10 rounded-[2rem] rounded-tl-none px-6 py-5 shadow-2xl flex gap-2 items-center">
-                <div className="w-2 h-2 bg-blue-500 rounded-full animate-bounce shadow-[0_0_8px_rgba(59,130,246,0.8)]"></div>
-                <div className="w-2 h-2 bg-blue-500 rounded-full animate-bounce [animation-delay:0.15s] shadow-[0_0_8px_rgba(59,130,246,0.8)]"></div>
-                <div className="w-2 h-2 bg-blue-500 rounded-full animate-bounce [animation-delay:0.3s] shadow-[0_0_8px_rgba(59,130,246,0.8)]"></div>
-              </div>
+          ))}
+          {isTyping && !history[activeSubject].some((msg:any) => msg.isStreaming && msg.content) && (
+            <div className="flex justify-start">
+              <div className="bg-slate-900/80 backdrop-blur-md border border-white/10 rounded-[2rem] rounded-tl-none px-6 py-5 shadow-2xl flex gap-2 items-center">
+                <div className="w-2 h-2 bg-blue-500 rounded-full animate-bounce shadow-[0_0_8px_rgba(59,130,246,0.8)]"></div>
+                <div className="w-2 h-2 bg-blue-500 rounded-full animate-bounce [animation-delay:0.15s] shadow-[0_0_8px_rgba(59,130,246,0.8)]"></div>
+                <div className="w-2 h-2 bg-blue-500 rounded-full animate-bounce [animation-delay:0.3s] shadow-[0_0_8px_rgba(59,130,246,0.8)]"></div>
+              </div>
+            </div>
+          )}
+          <div ref={chatEndRef} />
+        </div>
+        <div className="p-6 bg-slate-900/80 backdrop-blur-xl border-t border-white/5 safe-bottom relative z-20 shadow-[0_-10px_40px_rgba(0,0,0,0.3)]">
+          {dictationError && (
+            <div className="flex items-center gap-3 mb-4">
+              <span className="text-[9px] font-mono font-bold text-red-400 uppercase tracking-widest">{dictationError}</span>
+              <button onClick={() => setDictationError(null)} className="text-slate-500 hover:text-white"><X size={12} /></button>
+            </div>
+          )}
+          {(pendingAttachments.length > 0 || attachError) && (
+            <div className="flex flex-wrap items-center gap-3 mb-4">
+              {pendingAttachments.map(a => (
+                <div key={a.id} className="relative group/att">
+                  {a.mimeType.startsWith('image/') ? (
+                    <img src={attachmentDataUrl(a)} alt={a.name} className="w-16 h-16 object-cover rounded-xl border border-white/10" />
+                  ) : (
+                    <div className="w-16 h-16 rounded-xl border border-white/10 bg-white/5 flex flex-col items-center justify-center gap-1 text-slate-400">
+                      <FileText size={18} />
+                      <span className="text-[7px] font-mono font-bold truncate w-14 text-center">{a.name}</span>
+                    </div>
+                  )}
+                  <button onClick={() => setPendingAttachments(prev => prev.filter(p => p.id !== a.id))} className="absolute -top-2 -right-2 bg-slate-800 p-1 rounded-full text-slate-400 hover:text-red-400 border border-white/10">
+                    <X size={10} />
+                  </button>
+                </div>
+              ))}
+              {attachError && <span className="text-[9px] font-mono font-bold text-red-400 uppercase tracking-widest">{attachError}</span>}
+            </div>
+          )}
+           <form className="flex items-center gap-4 bg-black/40 p-2.5 rounded-[2rem] border border-white/10 focus-within:border-blue-500/50 focus-within:bg-white/5 transition-all shadow-inner" 
+            onSubmit={(e) => {
+              e.preventDefault();
+              if ((!input.trim() && pendingAttachments.length === 0) || isTyping || dictation !== 'idle') return;
+              onSend(activeSubject, input, pendingAttachments);
+              setInput('');
+              setPendingAttachments([]);
+              setAttachError(null);
+            }}>
+            <label className={`p-2.5 rounded-xl text-slate-500 hover:text-white hover:bg-white/10 transition-all shrink-0 ${isTyping ? 'opacity-30 pointer-events-none' : 'cursor-pointer'}`} title="Attach image or PDF">
+              <Paperclip size={18} />
+              <input type="file" accept={ATTACHMENT_ACCEPT} multiple className="hidden" onChange={(e) => { handleAttachFiles(e.target.files); e.target.value = ''; }} />
+            </label>
+            <label className={`p-2.5 -ml-3 rounded-xl text-slate-500 hover:text-white hover:bg-white/10 transition-all shrink-0 ${isTyping ? 'opacity-30 pointer-events-none' : 'cursor-pointer'}`} title="Take a photo">
+              <Camera size={18} />
+              <input type="file" accept="image/*" capture="environment" className="hidden" onChange={(e) => { handleAttachFiles(e.target.files); e.target.value = ''; }} />
+            </label>
+            {isDictationSupported() && (
+              <div className="flex items-center -ml-3 shrink-0">
+                <button
+                  type="button"
+                  disabled={isTyping || dictation === 'transcribing'}
+                  onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); handleStartDictation(); }}
+                  onPointerUp={handleStopDictation}
+                  onPointerCancel={handleStopDictation}
+                  onKeyDown={(e) => { if ((e.key === ' ' || e.key === 'Enter') && !e.repeat) { e.preventDefault(); handleStartDictation(); } }}
+                  onKeyUp={(e) => { if (e.key === ' ' || e.key === 'Enter') handleStopDictation(); }}
+                  className={`p-2.5 rounded-xl transition-all touch-none select-none disabled:opacity-30 ${dictation === 'listening' ? 'bg-red-600 text-white shadow-xl shadow-red-500/30 animate-pulse' : 'text-slate-500 hover:text-white hover:bg-white/10'}`}
+                  title="Hold to dictate"
+                >
+                  {dictation === 'transcribing' ? <Loader2 size={18} className="animate-spin" /> : <Mic size={18} />}
+                </button>
+                <button
+                  type="button"
+                  disabled={dictation !== 'idle'}
+                  onClick={() => {
+                    const index = VOICE_LANGUAGES.findIndex(l => l.id === voiceLanguage);
+                    onVoiceLanguageChange(VOICE_LANGUAGES[(index + 1) % VOICE_LANGUAGES.length].id);
+                  }}
+                  className="px-1.5 py-1 rounded-lg text-[8px] font-mono font-black text-slate-500 hover:text-white border border-white/10 hover:border-white/30 transition-all disabled:opacity-30"
+                  title="Dictation language"
+                >
+                  {VOICE_LANGUAGES.find(l => l.id === voiceLanguage)?.label}
+                </button>
+              </div>
+            )}
+            <input 
+              type="text" 
+              value={input} 
+              onChange={(e) => setInput(e.target.value)} 
+              disabled={isTyping || dictation === 'transcribing'} 
+              placeholder={dictation === 'listening' ? 'Listening...' : dictation === 'transcribing' ? 'Transcribing...' : `Neural prompt for ${subjectInfo(subjects, activeSubject).name}...`} 
+              className="flex-1 bg-transparent px-5 py-3 outline-none font-display font-bold text-white placeholder:text-slate-600 disabled:opacity-50 text-[15px]" 
+            />
+            {isTyping ? (
+              <button 
+                type="button" 
+                onClick={onStop} 
+                className="bg-red-600 text-white p-3 rounded-xl hover:bg-red-500 transition-all shadow-xl shadow-red-500/20 active:scale-95 shrink-0"
+                title="Stop Generating"
+              >
+                <Square size={16} fill="currentColor" />
+              </button>
+            ) : (
+              <button 
+                type="submit" 
+                disabled={!input.trim() && pendingAttachments.length === 0} 
+                className="bg-blue-600 text-white p-3 rounded-xl hover:bg-blue-500 disabled:opacity-50 transition-all shadow-xl shadow-blue-500/20 active:scale-95 shrink-0"
+              >
+                <Play size={16} fill="currentColor" />
+              </button>
+            )}
+          </form>
+          <p className="text-[7px] font-mono font-bold text-slate-700 uppercase tracking-[0.4em] mt-3 text-center">Neural Protocol Synchronized</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const QuizView: React.FC<{
+  subjects: SubjectDefinition[],
+  attempts: QuizAttempt[],
+  defaultSubject: Subject | null,
+  onGenerate: (s: Subject, topic: string, count: number) => Promise<QuizQuestion[] | null>,
+  onComplete: (a: QuizAttempt) => void,
+  onDeleteAttempt: (id: string) => void
+}> = ({ subjects, attempts, defaultSubject, onGenerate, onComplete, onDeleteAttempt }) => {
+  const [subject, setSubject] = useState<Subject>(() => defaultSubject || visibleSubjects(subjects)[0]?.id || subjects[0].id);
+  const info = subjectInfo(subjects, subject);
+  const [topic, setTopic] = useState('');
+  const [count, setCount] = useState(10);
+  const [minutes, setMinutes] = useState(15);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [questions, setQuestions] = useState<QuizQuestion[] | null>(null);
+  const [answers, setAnswers] = useState<(number | null)[]>([]);
+  const [current, setCurrent] = useState(0);
+  const [deadline, setDeadline] = useState(0);
+  const [startedAt, setStartedAt] = useState(0);
+  const [remaining, setRemaining] = useState(0);
+  const [review, setReview] = useState<QuizAttempt | null>(null);
+
+  const handleStart = async () => {
+    setIsGenerating(true);
+    const generated = await onGenerate(subject, topic.trim(), count);
+    setIsGenerating(false);
+    if (!generated) return;
+    setQuestions(generated);
+    setAnswers(generated.map(() => null));
+    setCurrent(0);
+    setReview(null);
+    setStartedAt(Date.now());
+    setDeadline(Date.now() + minutes * 60 * 1000);
+    setRemaining(minutes * 60);
+  };
+
+  const handleSubmit = () => {
+    if (!questions) return;
+    const { results, score } = gradeQuiz(questions, answers);
+    const attempt: QuizAttempt = {
+      id: `quiz-${Math.random().toString(36).substr(2, 9)}`,
+      subject,
+      topic: topic.trim() || info.name,
+      questions,
+      results,
+      score,
+      timeLimit: minutes * 60,
+      startedAt,
+      finishedAt: Date.now()
+    };
+    onComplete(attempt);
+    setQuestions(null);
+    setReview(attempt);
+  };
+
+  useEffect(() => {
+    if (!questions) return;
+    const tick = () => {
+      const left = Math.max(0, Math.round((deadline - Date.now()) / 1000));
+      setRemaining(left);
+      if (left === 0) handleSubmit();
+    };
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [questions, deadline, answers]);
+
+  const markdown = (content: string) => (
+    <ReactMarkdown remarkPlugins={[remarkMath, remarkGfm]} rehypePlugins={[rehypeKatex]}>{content}</ReactMarkdown>
+  );
+
+  if (questions) {
+    const q = questions[current];
+    const answered = answers.filter(a => a !== null).length;
+    return (
+      <div className="max-w-3xl mx-auto p-6 animate-in fade-in slide-in-from-bottom-4 duration-700">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <p className="text-[10px] font-mono font-bold text-blue-400 uppercase tracking-[0.4em]">{info.icon} {info.name} Drill</p>
+            <h2 className="text-xl font-display font-black text-white uppercase tracking-tight mt-2">Question {current + 1} / {questions.length}</h2>
+          </div>
+          <div className={`flex items-center gap-2 px-5 py-3 rounded-2xl border font-mono font-black tabular-nums ${remaining <= 60 ? 'bg-red-500/10 border-red-500/30 text-red-400' : 'bg-white/5 border-white/10 text-white'}`}>
+            <Timer size={16} /> {Math.floor(remaining / 60)}:{(remaining % 60).toString().padStart(2, '0')}
+          </div>
+        </div>
+        <div className="bg-slate-900/60 backdrop-blur-xl p-8 rounded-[2.5rem] border border-white/10 shadow-2xl">
+          <div className="markdown-body text-[15px] leading-relaxed text-slate-200 mb-8">{markdown(q.prompt)}</div>
+          <div className="space-y-3">
+            {q.choices.map((choice, i) => (
+              <button
+                key={i}
+                onClick={() => setAnswers(prev => prev.map((a, idx) => idx === current ? i : a))}
+                className={`w-full text-left p-4 rounded-2xl border transition-all flex items-start gap-4 ${answers[current] === i ? 'bg-blue-600 border-blue-500 text-white shadow-lg shadow-blue-500/20' : 'bg-black/30 border-white/5 text-slate-300 hover:border-blue-500/30'}`}
+              >
+                <span className="font-mono font-black text-[11px] mt-0.5">{String.fromCharCode(65 + i)}</span>
+                <div className="flex-1 markdown-body text-sm">{markdown(choice)}</div>
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-center justify-between mt-8 gap-4">
+          <button onClick={() => setCurrent(c => Math.max(0, c - 1))} disabled={current === 0} className="px-6 py-3 bg-white/5 rounded-2xl text-[10px] font-black uppercase tracking-widest text-slate-300 disabled:opacity-30 hover:bg-white/10 transition-all">
+            <ChevronLeft size={16} />
+          </button>
+          <div className="flex flex-wrap justify-center gap-1.5">
+            {questions.map((_, i) => (
+              <button key={i} onClick={() => setCurrent(i)} className={`w-6 h-6 rounded-lg text-[9px] font-mono font-black ${i === current ? 'bg-blue-600 text-white' : answers[i] !== null ? 'bg-blue-500/20 text-blue-300' : 'bg-white/5 text-slate-600'}`}>{i + 1}</button>
+            ))}
+          </div>
+          {current < questions.length - 1 ? (
+            <button onClick={() => setCurrent(c => Math.min(questions.length - 1, c + 1))} className="px-6 py-3 bg-white/5 rounded-2xl text-[10px] font-black uppercase tracking-widest text-slate-300 hover:bg-white/10 transition-all">
+              <ChevronRight size={16} />
+            </button>
+          ) : (
+            <button onClick={() => { if (answered === questions.length || confirm("Some questions are unanswered. Submit anyway?")) handleSubmit(); }} className="px-6 py-3 bg-blue-600 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-blue-500 transition-all shadow-xl shadow-blue-500/20">
+              Submit
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if (review) {
+    return (
+      <div className="max-w-3xl mx-auto p-6 animate-in fade-in slide-in-from-bottom-4 duration-700">
+        <div className="bg-slate-900/60 backdrop-blur-xl p-10 rounded-[3rem] border border-white/10 shadow-2xl text-center mb-8">
+          <Trophy size={40} className="mx-auto text-amber-400 mb-4" />
+          <h2 className="text-4xl font-display font-black text-white tabular-nums">{review.score} / {review.questions.length}</h2>
+          <p className="text-[10px] font-mono font-bold text-slate-500 uppercase tracking-[0.4em] mt-3">{subjectInfo(subjects, review.subject).name} — {review.topic}</p>
+          <button onClick={() => setReview(null)} className="mt-8 bg-blue-600 text-white px-8 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-blue-500 transition-all">Back to Drills</button>
+        </div>
+        <div className="space-y-4">
+          {review.questions.map((q, i) => {
+            const result = review.results[i];
+            return (
+              <div key={q.id} className={`p-6 rounded-[2rem] border ${result?.correct ? 'bg-emerald-500/5 border-emerald-500/20' : 'bg-red-500/5 border-red-500/20'}`}>
+                <div className="flex items-center gap-2 mb-3 text-[10px] font-mono font-black uppercase tracking-widest">
+                  {result?.correct ? <CheckCircle size={14} className="text-emerald-400" /> : <X size={14} className="text-red-400" />}
+                  <span className={result?.correct ? 'text-emerald-400' : 'text-red-400'}>Q{i + 1}</span>
+                </div>
+                <div className="markdown-body text-sm text-slate-200 mb-4">{markdown(q.prompt)}</div>
+                <div className="text-[11px] text-slate-400 space-y-1 mb-4">
+                  <div>Your answer: <strong className="text-white">{result?.selectedIndex !== null && result?.selectedIndex !== undefined ? String.fromCharCode(65 + result.selectedIndex) : '—'}</strong></div>
+                  <div>Correct: <strong className="text-emerald-400">{String.fromCharCode(65 + q.answerIndex)}</strong></div>
+                </div>
+                {q.explanation && <div className="markdown-body text-xs text-slate-400 border-t border-white/5 pt-4">{markdown(q.explanation)}</div>}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto p-6 animate-in fade-in slide-in-from-bottom-4 duration-700">
+      <div className="mb-10">
+        <h2 className="text-3xl font-display font-black text-white tracking-tight uppercase">Exam Drills</h2>
+        <p className="text-blue-500/80 text-[10px] font-mono font-bold uppercase tracking-[0.4em] mt-2">A-Level / TPAT Practice // Timed</p>
+      </div>
+      <div className="bg-slate-900/60 backdrop-blur-xl p-8 rounded-[2.5rem] border border-white/10 shadow-2xl mb-10 grid grid-cols-1 md:grid-cols-5 gap-6 items-end">
+        <div className="space-y-3">
+          <label className="text-[10px] font-mono font-bold text-slate-500 uppercase tracking-widest ml-2">Subject</label>
+          <select value={subject} onChange={e => setSubject(e.target.value as Subject)} className="w-full bg-slate-900/80 p-4 rounded-[1.5rem] border border-white/10 font-display font-bold text-sm text-white outline-none focus:border-blue-500">
+            {visibleSubjects(subjects).map(s => <option key={s.id} value={s.id} className="bg-slate-900">{s.icon} {s.name}</option>)}
+          </select>
+        </div>
+        <div className="space-y-3 md:col-span-2">
+          <label className="text-[10px] font-mono font-bold text-slate-500 uppercase tracking-widest ml-2">Topic</label>
+          <input value={topic} onChange={e => setTopic(e.target.value)} placeholder={info.description} className="w-full bg-slate-900/80 p-4 rounded-[1.5rem] border border-white/10 font-display font-bold text-sm text-white outline-none focus:border-blue-500 placeholder:text-slate-600" />
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-3">
+            <label className="text-[10px] font-mono font-bold text-slate-500 uppercase tracking-widest block text-center">Qs</label>
+            <input type="number" min={1} max={30} value={count} onChange={e => setCount(Math.min(30, Math.max(1, Number(e.target.value) || 1)))} className="w-full bg-slate-900/80 p-4 rounded-[1.5rem] border border-white/10 font-mono font-bold text-center text-sm text-white outline-none focus:border-blue-500" />
+          </div>
+          <div className="space-y-3">
+            <label className="text-[10px] font-mono font-bold text-slate-500 uppercase tracking-widest block text-center">Min</label>
+            <input type="number" min={1} max={180} value={minutes} onChange={e => setMinutes(Math.min(180, Math.max(1, Number(e.target.value) || 1)))} className="w-full bg-slate-900/80 p-4 rounded-[1.5rem] border border-white/10 font-mono font-bold text-center text-sm text-white outline-none focus:border-blue-500" />
+          </div>
+        </div>
+        <button onClick={handleStart} disabled={isGenerating} className="bg-blue-600 text-white p-4 rounded-[1.5rem] font-black text-xs shadow-xl shadow-blue-500/20 uppercase tracking-widest hover:bg-blue-500 transition-all disabled:opacity-50 flex items-center justify-center gap-2">
+          {isGenerating ? <RefreshCw size={16} className="animate-spin" /> : <Zap size={16} />} {isGenerating ? 'Building' : 'Start'}
+        </button>
+      </div>
+
+      <h3 className="text-[11px] font-mono font-bold text-slate-500 uppercase tracking-[0.4em] mb-6">Attempt Log</h3>
+      <div className="space-y-3">
+        {attempts.map(a => (
+          <div key={a.id} onClick={() => setReview(a)} className="bg-slate-900/40 p-5 rounded-[2rem] border border-white/5 flex items-center justify-between cursor-pointer hover:border-blue-500/30 transition-all group">
+            <div className="flex items-center gap-5">
+              <div style={{ backgroundColor: subjectInfo(subjects, a.subject).color }} className="w-12 h-12 rounded-2xl flex items-center justify-center text-xl text-white">{subjectInfo(subjects, a.subject).icon}</div>
+              <div>
+                <h4 className="font-display font-black text-white text-sm uppercase tracking-tight">{a.topic}</h4>
+                <p className="text-[9px] font-mono font-bold text-slate-500 uppercase tracking-widest mt-1">{new Date(a.finishedAt).toLocaleString()} · {Math.round((a.finishedAt - a.startedAt) / 60000)} min</p>
+              </div>
+            </div>
+            <div className="flex items-center gap-4">
+              <span className="font-mono font-black text-white tabular-nums">{a.score}/{a.questions.length}</span>
+              <button onClick={(e) => { e.stopPropagation(); onDeleteAttempt(a.id); }} className="p-2 rounded-xl text-slate-600 hover:text-red-400 hover:bg-red-500/10 opacity-0 group-hover:opacity-100 transition-all">
+                <Trash2 size={14} />
+              </button>
             </div>
-          )}
-          <div ref={chatEndRef} />
+          </div>
+        ))}
+        {attempts.length === 0 && (
+          <p className="text-slate-600 text-[11px] uppercase font-mono font-bold tracking-[0.3em] text-center py-12">No attempts recorded</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const AnalyticsView: React.FC<{ subjects: SubjectDefinition[], entries: StudyLogEntry[] }> = ({ subjects, entries }) => {
+  const weekly = useMemo(() => weeklyHoursBySubject(entries, subjects.map(s => s.id)), [entries, subjects]);
+  // Logged subjects that were since deleted still get a bar
+  const chartSubjects = useMemo(() => Array.from(new Set(weekly.flatMap(row => Object.keys(row)))).filter(k => k !== 'name' && k !== 'weekStart' && k !== 'Unassigned'), [weekly]);
+  const streak = useMemo(() => computeStreak(entries), [entries]);
+  const adherence = useMemo(() => plannedVsActual(entries), [entries]);
+  const heatmap = useMemo(() => dailyHeatmap(entries), [entries]);
+  const thisWeek = weekly[weekly.length - 1];
+  const weekHours = thisWeek ? [...chartSubjects, 'Unassigned'].reduce((sum, s) => sum + (Number(thisWeek[s]) || 0), 0) : 0;
+  const currentAdherence = adherence[adherence.length - 1]?.adherence;
+  const maxDayMinutes = Math.max(60, ...heatmap.flat().map(d => d.minutes));
+  const tooltipStyle = { borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', fontSize: '10px' };
+
+  const heatColor = (minutes: number) => {
+    if (minutes === 0) return 'rgba(255,255,255,0.04)';
+    const intensity = 0.25 + 0.75 * Math.min(1, minutes / maxDayMinutes);
+    return `rgba(59,130,246,${intensity.toFixed(2)})`;
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto p-6 animate-in fade-in slide-in-from-bottom-4 duration-700">
+      <div className="mb-10">
+        <h2 className="text-3xl font-display font-black text-white tracking-tight uppercase">Performance Telemetry</h2>
+        <p className="text-blue-500/80 text-[10px] font-mono font-bold uppercase tracking-[0.4em] mt-2">Logged Study Blocks // {entries.length} Records</p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+        {[
+          { label: 'This Week', value: `${weekHours.toFixed(1)}h` },
+          { label: 'Current Streak', value: `${streak.current}d` },
+          { label: 'Longest Streak', value: `${streak.longest}d` },
+          { label: 'Plan Adherence', value: currentAdherence === null || currentAdherence === undefined ? '—' : `${currentAdherence}%` },
+        ].map(stat => (
+          <div key={stat.label} className="bg-slate-900/60 backdrop-blur-xl p-6 rounded-[2rem] border border-white/5 shadow-2xl">
+            <p className="text-[9px] font-mono font-bold text-slate-500 uppercase tracking-[0.3em] mb-3">{stat.label}</p>
+            <p className="text-3xl font-display font-black text-white tabular-nums">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
+        <section className="bg-slate-900/40 backdrop-blur-xl p-8 rounded-[3rem] border border-white/5 shadow-2xl">
+          <h3 className="text-[11px] font-mono font-bold text-slate-500 uppercase tracking-[0.4em] mb-6">Weekly Hours by Subject</h3>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={weekly}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#1e293b" />
+                <XAxis dataKey="name" fontSize={9} tick={{ fill: '#64748b' }} axisLine={false} tickLine={false} />
+                <YAxis fontSize={9} tick={{ fill: '#64748b' }} axisLine={false} tickLine={false} />
+                <Tooltip contentStyle={tooltipStyle} />
+                <Legend iconType="circle" wrapperStyle={{ fontSize: '9px', paddingTop: '10px' }} />
+                {chartSubjects.map(s => (
+                  <Bar key={s} dataKey={s} name={subjectInfo(subjects, s).name} stackId="hours" fill={subjectInfo(subjects, s).color} />
+                ))}
+                <Bar dataKey="Unassigned" stackId="hours" fill="#475569" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </section>
+
+        <section className="bg-slate-900/40 backdrop-blur-xl p-8 rounded-[3rem] border border-white/5 shadow-2xl">
+          <h3 className="text-[11px] font-mono font-bold text-slate-500 uppercase tracking-[0.4em] mb-6">Planned vs Actual (h)</h3>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={adherence}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#1e293b" />
+                <XAxis dataKey="name" fontSize={9} tick={{ fill: '#64748b' }} axisLine={false} tickLine={false} />
+                <YAxis fontSize={9} tick={{ fill: '#64748b' }} axisLine={false} tickLine={false} />
+                <Tooltip contentStyle={tooltipStyle} />
+                <Legend iconType="circle" wrapperStyle={{ fontSize: '9px', paddingTop: '10px' }} />
+                <Bar dataKey="planned" fill="#334155" radius={[4, 4, 0, 0]} />
+                <Bar dataKey="actual" fill="#2563eb" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </section>
+      </div>
+
+      <section className="bg-slate-900/40 backdrop-blur-xl p-8 rounded-[3rem] border border-white/5 shadow-2xl">
+        <h3 className="text-[11px] font-mono font-bold text-slate-500 uppercase tracking-[0.4em] mb-6">Activity Heatmap — Last {heatmap.length} Weeks</h3>
+        <div className="flex gap-3 overflow-x-auto custom-scrollbar pb-2">
+          <div className="flex flex-col gap-1.5 pt-0.5">
+            {DAYS.map(d => (
+              <span key={d} className="h-4 text-[8px] font-mono font-bold text-slate-600 uppercase leading-4">{d.slice(0, 3)}</span>
+            ))}
+          </div>
+          {heatmap.map((week, w) => (
+            <div key={w} className="flex flex-col gap-1.5">
+              {week.map(day => (
+                <div 
+                  key={day.date} 
+                  title={`${new Date(day.date).toLocaleDateString()}: ${day.minutes} min`}
+                  className={`w-4 h-4 rounded ${day.future ? 'opacity-0' : ''}`}
+                  style={{ backgroundColor: heatColor(day.minutes) }}
+                />
+              ))}
+            </div>
+          ))}
         </div>
-        <div className="p-6 bg-slate-900/80 backdrop-blur-xl border-t border-white/5 safe-bottom relative z-20 shadow-[0_-10px_40px_rgba(0,0,0,0.3)]">
-           <form className="flex items-center gap-4 bg-black/40 p-2.5 rounded-[2rem] border border-white/10 focus-within:border-blue-500/50 focus-within:bg-white/5 transition-all shadow-inner" 
-            onSubmit={(e) => {
-              e.preventDefault();
-              if (!input.trim() || isTyping) return;
-              onSend(activeSubject, input);
-              setInput('');
-            }}>
-            <input 
-              type="text" 
-              value={input} 
-              onChange={(e) => setInput(e.target.value)} 
-              disabled={isTyping} 
-              placeholder={`Neural prompt for ${activeSubject}...`} 
-              className="flex-1 bg-transparent px-5 py-3 outline-none font-display font-bold text-white placeholder:text-slate-600 disabled:opacity-50 text-[15px]" 
-            />
+      </section>
+    </div>
+  );
+};
+
+const ReviewView: React.FC<{ subjects: SubjectDefinition[], cards: Flashcard[], onReview: (id: string, grade: ReviewGrade) => void }> = ({ subjects, cards, onReview }) => {
+  const [subjectFilter, setSubjectFilter] = useState<Subject | 'All'>('All');
+  const [revealed, setRevealed] = useState(false);
+  const now = Date.now();
+  const dueCounts = countDueBySubject(cards, now);
+  const queue = cards
+    .filter(c => isDue(c, now) && (subjectFilter === 'All' || c.subject === subjectFilter))
+    .sort((a, b) => a.dueAt - b.dueAt);
+  const card = queue[0];
+
+  const grade = (g: ReviewGrade) => {
+    if (!card) return;
+    onReview(card.id, g);
+    setRevealed(false);
+  };
+
+  const GRADES: { grade: ReviewGrade, label: string, className: string }[] = [
+    { grade: 1, label: 'Again', className: 'bg-red-600 hover:bg-red-500 shadow-red-500/20' },
+    { grade: 3, label: 'Hard', className: 'bg-amber-600 hover:bg-amber-500 shadow-amber-500/20' },
+    { grade: 4, label: 'Good', className: 'bg-blue-600 hover:bg-blue-500 shadow-blue-500/20' },
+    { grade: 5, label: 'Easy', className: 'bg-emerald-600 hover:bg-emerald-500 shadow-emerald-500/20' },
+  ];
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 animate-in fade-in slide-in-from-bottom-4 duration-700">
+      <div className="flex justify-between items-end mb-10">
+        <div>
+          <h2 className="text-3xl font-display font-black text-white tracking-tight uppercase">Recall Engine</h2>
+          <p className="text-blue-500/80 text-[10px] font-mono font-bold uppercase tracking-[0.4em] mt-2">Spaced Repetition // SM-2</p>
+        </div>
+        <div className="bg-blue-600/10 px-5 py-3 rounded-2xl border border-blue-500/20 shadow-lg">
+          <span className="text-[11px] font-mono font-bold text-blue-400 uppercase tracking-widest">{queue.length} Due</span>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-10">
+        {(['All', ...visibleSubjects(subjects).map(s => s.id)] as (Subject | 'All')[]).map(s => {
+          const count = s === 'All' ? Object.values(dueCounts).reduce<number>((a, b) => a + (b || 0), 0) : dueCounts[s] || 0;
+          return (
             <button 
-              type="submit" 
-              disabled={!input.trim() || isTyping} 
-              className="bg-blue-600 text-white p-3 rounded-xl hover:bg-blue-500 disabled:opacity-50 transition-all shadow-xl shadow-blue-500/20 active:scale-95 shrink-0"
+              key={s} 
+              onClick={() => { setSubjectFilter(s); setRevealed(false); }} 
+              className={`px-4 py-2 rounded-2xl border text-[10px] font-mono font-bold uppercase tracking-widest transition-all flex items-center gap-2 ${subjectFilter === s ? 'bg-blue-600 border-blue-500 text-white' : 'bg-white/5 border-white/10 text-slate-400 hover:text-white'}`}
             >
-              <Play size={16} fill="currentColor" />
+              {s !== 'All' && <span>{subjectInfo(subjects, s).icon}</span>} {s === 'All' ? s : subjectInfo(subjects, s).name}
+              <span className={`px-1.5 rounded-md ${count > 0 ? 'bg-white/20' : 'opacity-40'}`}>{count}</span>
             </button>
-          </form>
-          <p className="text-[7px] font-mono font-bold text-slate-700 uppercase tracking-[0.4em] mt-3 text-center">Neural Protocol Synchronized</p>
-        </div>
+          );
+        })}
       </div>
+
+      {card ? (
+        <div className="bg-slate-900/60 backdrop-blur-xl rounded-[3rem] border border-white/10 shadow-2xl overflow-hidden">
+          <div className="p-10 min-h-[200px] flex flex-col items-center justify-center text-center">
+            <span className="text-[10px] font-mono font-bold text-slate-500 uppercase tracking-[0.3em] mb-6">{subjectInfo(subjects, card.subject).icon} {subjectInfo(subjects, card.subject).name}</span>
+            <div className="markdown-body text-lg text-white font-medium">
+              <ReactMarkdown remarkPlugins={[remarkMath, remarkGfm]} rehypePlugins={[rehypeKatex]}>{card.front}</ReactMarkdown>
+            </div>
+          </div>
+          {revealed ? (
+            <>
+              <div className="p-10 border-t border-white/5 bg-black/20 text-center markdown-body text-slate-300">
+                <ReactMarkdown remarkPlugins={[remarkMath, remarkGfm]} rehypePlugins={[rehypeKatex]}>{card.back}</ReactMarkdown>
+              </div>
+              <div className="p-6 grid grid-cols-4 gap-3 border-t border-white/5">
+                {GRADES.map(g => (
+                  <button key={g.grade} onClick={() => grade(g.grade)} className={`text-white py-3 rounded-2xl font-black uppercase text-[10px] tracking-widest transition-all shadow-xl ${g.className}`}>
+                    {g.label}
+                  </button>
+                ))}
+              </div>
+            </>
+          ) : (
+            <div className="p-6 border-t border-white/5">
+              <button onClick={() => setRevealed(true)} className="w-full bg-white/5 text-white py-4 rounded-2xl font-black uppercase text-[11px] tracking-widest hover:bg-white/10 transition-all">
+                Reveal Answer
+              </button>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="py-24 text-center space-y-6 bg-slate-900/40 backdrop-blur-xl rounded-[3rem] border border-white/5 border-dashed shadow-2xl">
+          <div className="w-20 h-20 rounded-[2rem] bg-white/5 mx-auto flex items-center justify-center text-slate-700 shadow-inner">
+            <CheckCircle size={32} />
+          </div>
+          <p className="text-slate-500 text-[11px] uppercase font-mono font-bold tracking-[0.4em]">{cards.length === 0 ? 'No flashcards — create them from Vault notes' : 'All caught up'}</p>
+        </div>
+      )}
     </div>
   );
 };
 
-const VaultView: React.FC<{ notes: SavedNote[], onDelete: (id: string) => void }> = ({ notes, onDelete }) => {
-  const [selectedNote, setSelectedNote] = useState<SavedNote | null>(null);
+const VaultView: React.FC<{ 
+  subjects: SubjectDefinition[],
+  notes: SavedNote[], 
+  onDelete: (id: string) => void,
+  onUpdate: (id: string, patch: Pick<SavedNote, 'title' | 'tags' | 'content'>) => void,
+  onOpenSource: (note: SavedNote) => boolean,
+  onExportPack: (pack: StudyPack) => void,
+  onImportNotes: (notes: SavedNote[], skipped: number) => void,
+  flashcards: Flashcard[],
+  onGenerateFlashcards: (note: SavedNote) => Promise<{ front: string, back: string }[] | null>,
+  onSaveFlashcards: (note: SavedNote, cards: { id?: string, front: string, back: string }[]) => void
+}> = ({ subjects, notes, onDelete, onUpdate, onOpenSource, onExportPack, onImportNotes, flashcards, onGenerateFlashcards, onSaveFlashcards }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selectedNote = notes.find(n => n.id === selectedId) || null;
+  const [subjectFilter, setSubjectFilter] = useState<Subject | 'All'>('All');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [query, setQuery] = useState('');
+  const searchIndex = useMemo(() => buildSearchIndex(notes), [notes]);
+  const allTags = useMemo(() => collectTags(notes), [notes]);
+  const filteredNotes = useMemo(() => {
+    const filtered = filterNotes(notes, { subject: subjectFilter, tag: tagFilter, from: dateFrom, to: dateTo });
+    if (!query.trim()) return filtered;
+    // Search ranks; the filters only narrow
+    const byId = new Map(filtered.map(n => [n.id, n]));
+    return searchNotes(searchIndex, query).flatMap(id => byId.get(id) || []);
+  }, [notes, searchIndex, subjectFilter, tagFilter, dateFrom, dateTo, query]);
+  const hasFilters = !!(query.trim() || tagFilter || dateFrom || dateTo || subjectFilter !== 'All');
+  // Deleted or hidden subjects stay filterable while they still have notes
+  const noteSubjects = Array.from(new Set([...visibleSubjects(subjects).map(s => s.id), ...notes.map(n => n.subject)]));
+  const [cardDrafts, setCardDrafts] = useState<{ id?: string, front: string, back: string }[] | null>(null);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [noteDraft, setNoteDraft] = useState<{ title: string, tags: string, content: string } | null>(null);
+  const [editorTab, setEditorTab] = useState<'write' | 'preview'>('write');
+  const [snapshotNote, setSnapshotNote] = useState<SavedNote | null>(null);
+  const [showAnki, setShowAnki] = useState(false);
+  // Non-null while picking notes for a study pack
+  const [packSelection, setPackSelection] = useState<Set<string> | null>(null);
+
+  const togglePackNote = (id: string) => {
+    setPackSelection(prev => {
+      if (!prev) return prev;
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const exportSelection = () => {
+    if (!packSelection) return;
+    const title = subjectFilter === 'All' ? 'Study Pack' : `${subjectInfo(subjects, subjectFilter).name} Study Pack`;
+    // Keep the order the notes are listed in, so a search ranking carries into the pack
+    const listed = [...filteredNotes, ...notes.filter(n => !filteredNotes.includes(n))];
+    onExportPack(packFromNotes(listed.filter(n => packSelection.has(n.id)), title));
+    setPackSelection(null);
+  };
+
+  const openInContext = (note: SavedNote) => {
+    if (!onOpenSource(note)) setSnapshotNote(note);
+  };
+
+  const selectNote = (id: string | null) => {
+    setSelectedId(id);
+    setNoteDraft(null);
+  };
+
+  const startEditing = (note: SavedNote) => {
+    setNoteDraft({ title: note.title, tags: note.tags.join(', '), content: note.content });
+    setEditorTab('write');
+  };
+
+  const saveNoteDraft = () => {
+    if (!selectedNote || !noteDraft || !noteDraft.content.trim()) return;
+    onUpdate(selectedNote.id, {
+      title: noteDraft.title.trim() || suggestNoteTitle(noteDraft.content),
+      tags: normalizeTags(noteDraft.tags),
+      content: noteDraft.content,
+    });
+    setNoteDraft(null);
+  };
+
+  const clearFilters = () => {
+    setQuery('');
+    setTagFilter(null);
+    setDateFrom('');
+    setDateTo('');
+    setSubjectFilter('All');
+  };
+
+  const openCardEditor = (note: SavedNote) => {
+    setCardDrafts(flashcards.filter(c => c.noteId === note.id).map(c => ({ id: c.id, front: c.front, back: c.back })));
+  };
+
+  const handleExtract = async (note: SavedNote) => {
+    setIsExtracting(true);
+    const extracted = await onGenerateFlashcards(note);
+    setIsExtracting(false);
+    if (extracted) setCardDrafts(prev => [...(prev || []), ...extracted]);
+  };
+
+  const updateDraft = (index: number, patch: { front?: string, back?: string }) => {
+    setCardDrafts(prev => prev ? prev.map((d, i) => i === index ? { ...d, ...patch } : d) : prev);
+  };
 
   const handleDownload = (note: SavedNote) => {
     const blob = new Blob([note.content], { type: 'text/markdown' });
@@ -1379,6 +4256,36 @@ const VaultView: React.FC<{ notes: SavedNote[], onDelete: (id: string) => void }
     URL.revokeObjectURL(url);
   };
 
+  const renderMarkdown = (content: string) => (
+    <div className="markdown-body text-sm leading-relaxed text-slate-300">
+      <ReactMarkdown 
+        remarkPlugins={[remarkMath, remarkGfm]} 
+        rehypePlugins={[rehypeKatex]}
+        components={{
+          code({ node, inline, className, children, ...props }: any) {
+            const match = /language-(\w+)/.exec(className || '');
+            if (!inline && match && match[1] === 'chart') {
+              return <ChartRenderer content={String(children).replace(/\n$/, '')} />;
+            }
+            if (!inline && match && match[1] === 'smiles') {
+              return <SmilesRenderer content={String(children).replace(/\n$/, '')} />;
+            }
+            if (!inline && match && match[1] === 'reaction') {
+              return <ReactionRenderer content={String(children).replace(/\n$/, '')} />;
+            }
+            return (
+              <code className={className} {...props}>
+                {children}
+              </code>
+            );
+          }
+        }}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+
   return (
     <div className="max-w-7xl mx-auto p-6 animate-in fade-in slide-in-from-bottom-4 duration-700 h-full flex flex-col">
       <div className="flex justify-between items-end mb-10">
@@ -1386,38 +4293,152 @@ const VaultView: React.FC<{ notes: SavedNote[], onDelete: (id: string) => void }
           <h2 className="text-3xl font-display font-black text-white tracking-tight uppercase">Knowledge Vault</h2>
           <p className="text-slate-500 text-[10px] uppercase font-mono font-bold tracking-[0.4em] mt-2">Stored Intelligence Fragments</p>
         </div>
-        <div className="bg-blue-600/10 px-5 py-3 rounded-2xl border border-blue-500/20 shadow-lg">
-          <span className="text-[11px] font-mono font-bold text-blue-400 uppercase tracking-widest">{notes.length} Active Nodes</span>
+        <div className="flex items-center gap-3">
+          <button 
+            onClick={() => setShowAnki(true)} 
+            className="flex items-center gap-2 px-5 py-3 rounded-2xl border bg-white/5 border-white/10 text-slate-400 hover:text-white text-[11px] font-mono font-bold uppercase tracking-widest transition-all"
+          >
+            <Share size={14} /> Anki
+          </button>
+          {notes.length > 0 && (
+            <button 
+              onClick={() => setPackSelection(prev => prev ? null : new Set())} 
+              className={`flex items-center gap-2 px-5 py-3 rounded-2xl border text-[11px] font-mono font-bold uppercase tracking-widest transition-all ${packSelection ? 'bg-blue-600 border-blue-500 text-white' : 'bg-white/5 border-white/10 text-slate-400 hover:text-white'}`}
+            >
+              <FileDown size={14} /> Study Pack
+            </button>
+          )}
+          <div className="bg-blue-600/10 px-5 py-3 rounded-2xl border border-blue-500/20 shadow-lg">
+            <span className="text-[11px] font-mono font-bold text-blue-400 uppercase tracking-widest">{notes.length} Active Nodes</span>
+          </div>
+        </div>
+      </div>
+
+      {packSelection && (
+        <div className="flex flex-wrap items-center gap-3 mb-6 bg-blue-600/10 border border-blue-500/20 rounded-2xl px-5 py-3">
+          <span className="text-[10px] font-mono font-bold uppercase tracking-widest text-blue-300 flex-1">{packSelection.size} selected — tap notes to add them</span>
+          <button onClick={() => setPackSelection(new Set(filteredNotes.map(n => n.id)))} className="text-[10px] font-mono font-bold uppercase tracking-widest text-slate-300 hover:text-white">Select shown</button>
+          <button onClick={() => setPackSelection(new Set())} className="text-[10px] font-mono font-bold uppercase tracking-widest text-slate-400 hover:text-white">Clear</button>
+          <button onClick={exportSelection} disabled={packSelection.size === 0} className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-xl font-black uppercase text-[9px] tracking-widest hover:bg-blue-500 disabled:opacity-50 transition-all">
+            <FileDown size={12} /> Export
+          </button>
+          <button onClick={() => setPackSelection(null)} className="text-slate-500 hover:text-white"><X size={16} /></button>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <div className="flex-1 min-w-[220px] flex items-center gap-3 bg-white/5 border border-white/10 rounded-2xl px-4 py-3 focus-within:border-blue-500 transition-all">
+          <Search size={16} className="text-slate-500 shrink-0" />
+          <input 
+            value={query} 
+            onChange={e => setQuery(e.target.value)} 
+            placeholder="Search notes, titles and tags — ค้นหาโน้ต" 
+            className="flex-1 bg-transparent outline-none text-xs text-white placeholder:text-slate-600"
+          />
+          {query && <button onClick={() => setQuery('')} className="text-slate-500 hover:text-white"><X size={14} /></button>}
+        </div>
+        <div className="flex items-center gap-2 bg-white/5 border border-white/10 rounded-2xl px-4 py-2.5">
+          <Calendar size={14} className="text-slate-500" />
+          <input type="date" value={dateFrom} max={dateTo || undefined} onChange={e => setDateFrom(e.target.value)} className="bg-transparent outline-none text-[10px] font-mono text-slate-300 [color-scheme:dark]" title="From" />
+          <span className="text-slate-600 text-[10px]">–</span>
+          <input type="date" value={dateTo} min={dateFrom || undefined} onChange={e => setDateTo(e.target.value)} className="bg-transparent outline-none text-[10px] font-mono text-slate-300 [color-scheme:dark]" title="To" />
         </div>
+        {hasFilters && (
+          <button onClick={clearFilters} className="px-4 py-3 rounded-2xl border border-white/10 text-[10px] font-mono font-bold uppercase tracking-widest text-slate-400 hover:text-white hover:bg-white/5 transition-all">
+            Clear
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {(['All', ...noteSubjects] as (Subject | 'All')[]).map(s => {
+          const count = s === 'All' ? notes.length : notes.filter(n => n.subject === s).length;
+          if (s !== 'All' && count === 0) return null;
+          return (
+            <button 
+              key={s} 
+              onClick={() => setSubjectFilter(s)} 
+              className={`px-4 py-2 rounded-2xl border text-[10px] font-mono font-bold uppercase tracking-widest transition-all flex items-center gap-2 ${subjectFilter === s ? 'bg-blue-600 border-blue-500 text-white' : 'bg-white/5 border-white/10 text-slate-400 hover:text-white'}`}
+            >
+              {s !== 'All' && <span>{subjectInfo(subjects, s).icon}</span>} {s === 'All' ? s : subjectInfo(subjects, s).name}
+              <span className="px-1.5 rounded-md bg-white/20">{count}</span>
+            </button>
+          );
+        })}
       </div>
 
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-8">
+          <Tag size={12} className="text-slate-600" />
+          {allTags.map(({ tag, count }) => {
+            const active = tagFilter?.toLowerCase() === tag.toLowerCase();
+            return (
+              <button 
+                key={tag} 
+                onClick={() => setTagFilter(active ? null : tag)} 
+                className={`px-3 py-1 rounded-xl border text-[9px] font-mono font-bold tracking-wider transition-all ${active ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-white/5 border-white/10 text-slate-500 hover:text-white'}`}
+              >
+                #{tag} <span className="opacity-60">{count}</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+      {allTags.length === 0 && <div className="mb-4" />}
+
       <div className="flex-1 grid grid-cols-1 md:grid-cols-3 gap-8 min-h-0">
         <div className="md:col-span-1 overflow-y-auto custom-scrollbar space-y-4 pr-4">
-          {notes.map(note => (
+          {filteredNotes.map(note => (
             <motion.button 
               key={note.id} 
               layoutId={note.id}
-              onClick={() => setSelectedNote(note)}
-              className={`w-full text-left p-6 rounded-[2.5rem] border transition-all duration-500 group relative shadow-xl ${selectedNote?.id === note.id ? 'bg-blue-600 border-blue-500 text-white shadow-blue-500/30' : 'bg-slate-900/40 backdrop-blur-xl border-white/5 text-slate-400 hover:border-blue-500/30 hover:bg-white/5'}`}
+              onClick={() => packSelection ? togglePackNote(note.id) : selectNote(note.id)}
+              className={`w-full text-left p-6 rounded-[2.5rem] border transition-all duration-500 group relative shadow-xl ${packSelection?.has(note.id) ? 'ring-2 ring-blue-400' : ''} ${selectedNote?.id === note.id ? 'bg-blue-600 border-blue-500 text-white shadow-blue-500/30' : 'bg-slate-900/40 backdrop-blur-xl border-white/5 text-slate-400 hover:border-blue-500/30 hover:bg-white/5'}`}
             >
               <div className="flex items-center gap-4 mb-4">
-                <span className="text-2xl">{SUBJECT_INFO[note.subject as Subject].icon}</span>
-                <span className={`text-[10px] font-mono font-bold uppercase tracking-[0.3em] ${selectedNote?.id === note.id ? 'text-blue-100' : 'text-slate-500'}`}>{note.subject}</span>
+                <span className="text-2xl">{subjectInfo(subjects, note.subject).icon}</span>
+                <span className={`text-[10px] font-mono font-bold uppercase tracking-[0.3em] ${selectedNote?.id === note.id ? 'text-blue-100' : 'text-slate-500'}`}>{subjectInfo(subjects, note.subject).name}</span>
               </div>
-              <p className={`text-xs font-medium line-clamp-2 leading-relaxed ${selectedNote?.id === note.id ? 'text-white' : 'text-slate-300'}`}>
+              <h4 className={`text-sm font-bold line-clamp-1 mb-1 pr-8 ${selectedNote?.id === note.id ? 'text-white' : 'text-slate-200'}`}>{note.title}</h4>
+              <p className={`text-xs font-medium line-clamp-2 leading-relaxed ${selectedNote?.id === note.id ? 'text-blue-100' : 'text-slate-400'}`}>
                 {note.content.substring(0, 100)}...
               </p>
+              {note.tags.length > 0 && (
+                <div className="flex flex-wrap gap-1.5 mt-4">
+                  {note.tags.map(tag => (
+                    <span key={tag} className={`px-2 py-0.5 rounded-lg text-[9px] font-mono font-bold ${selectedNote?.id === note.id ? 'bg-white/20 text-white' : 'bg-white/5 text-slate-500'}`}>#{tag}</span>
+                  ))}
+                </div>
+              )}
               <div className={`text-[9px] font-mono font-bold uppercase mt-6 tracking-widest ${selectedNote?.id === note.id ? 'text-blue-200' : 'text-slate-600'}`}>
                 {new Date(note.timestamp).toLocaleDateString()}
               </div>
-              <button 
-                onClick={(e) => { e.stopPropagation(); onDelete(note.id); if (selectedNote?.id === note.id) setSelectedNote(null); }}
-                className={`absolute top-6 right-6 p-2 rounded-xl opacity-0 group-hover:opacity-100 transition-all ${selectedNote?.id === note.id ? 'hover:bg-white/20 text-white' : 'hover:bg-red-500/10 text-slate-600 hover:text-red-400'}`}
-              >
-                <Trash2 size={16} />
-              </button>
+              {packSelection ? (
+                <span className={`absolute top-6 right-6 p-2 ${packSelection.has(note.id) ? 'text-blue-400' : 'text-slate-700'}`}>
+                  <CheckCircle size={18} />
+                </span>
+              ) : (
+                <button 
+                  onClick={(e) => { 
+                    e.stopPropagation(); 
+                    const cardCount = flashcards.filter(c => c.noteId === note.id).length;
+                    if (cardCount && !confirm(`Delete this note and its ${cardCount} ${cardCount === 1 ? 'flashcard' : 'flashcards'}?`)) return;
+                    onDelete(note.id); 
+                    if (selectedNote?.id === note.id) selectNote(null); 
+                  }}
+                  className={`absolute top-6 right-6 p-2 rounded-xl opacity-0 group-hover:opacity-100 transition-all ${selectedNote?.id === note.id ? 'hover:bg-white/20 text-white' : 'hover:bg-red-500/10 text-slate-600 hover:text-red-400'}`}
+                >
+                  <Trash2 size={16} />
+                </button>
+              )}
             </motion.button>
           ))}
+          {notes.length > 0 && filteredNotes.length === 0 && (
+            <div className="py-16 text-center space-y-4">
+              <p className="text-slate-500 text-[11px] uppercase font-mono font-bold tracking-[0.4em]">No matching notes</p>
+              <button onClick={clearFilters} className="text-[10px] font-mono font-bold uppercase tracking-widest text-blue-400 hover:text-blue-300">Clear filters</button>
+            </div>
+          )}
           {notes.length === 0 && (
             <div className="py-24 text-center space-y-6 bg-slate-900/40 backdrop-blur-xl rounded-[3rem] border border-white/5 border-dashed shadow-2xl">
               <div className="w-20 h-20 rounded-[2rem] bg-white/5 mx-auto flex items-center justify-center text-slate-700 shadow-inner">
@@ -1431,48 +4452,106 @@ const VaultView: React.FC<{ notes: SavedNote[], onDelete: (id: string) => void }
         <div className="md:col-span-2 bg-slate-900/40 backdrop-blur-xl rounded-[3rem] border border-white/5 shadow-2xl overflow-hidden flex flex-col relative">
           {selectedNote ? (
             <>
-              <div className="p-8 border-b border-white/5 flex justify-between items-center bg-slate-900/60 relative z-10">
-                <div className="flex items-center gap-5">
-                  <div className={`w-14 h-14 rounded-[1.5rem] flex items-center justify-center text-3xl shadow-xl ${SUBJECT_INFO[selectedNote.subject as Subject].color} text-white`}>
-                    {SUBJECT_INFO[selectedNote.subject as Subject].icon}
+              <div className="p-8 border-b border-white/5 flex justify-between items-center gap-6 bg-slate-900/60 relative z-10">
+                <div className="flex items-center gap-5 min-w-0">
+                  <div style={{ backgroundColor: subjectInfo(subjects, selectedNote.subject).color }} className="w-14 h-14 shrink-0 rounded-[1.5rem] flex items-center justify-center text-3xl shadow-xl text-white">
+                    {subjectInfo(subjects, selectedNote.subject).icon}
                   </div>
-                  <div>
-                    <h3 className="text-xl font-display font-black text-white uppercase tracking-tight">{selectedNote.subject} Analysis</h3>
-                    <p className="text-slate-500 text-[10px] font-mono font-bold uppercase tracking-[0.3em] mt-1">{new Date(selectedNote.timestamp).toLocaleString()}</p>
+                  <div className="min-w-0">
+                    <h3 className="text-xl font-display font-black text-white tracking-tight truncate">{selectedNote.title}</h3>
+                    <p className="text-slate-500 text-[10px] font-mono font-bold uppercase tracking-[0.3em] mt-1">
+                      {subjectInfo(subjects, selectedNote.subject).name} · {new Date(selectedNote.timestamp).toLocaleString()}
+                      {selectedNote.updatedAt && <span className="normal-case tracking-normal"> · edited {new Date(selectedNote.updatedAt).toLocaleDateString()}</span>}
+                    </p>
+                    {selectedNote.tags.length > 0 && !noteDraft && (
+                      <div className="flex flex-wrap gap-1.5 mt-2">
+                        {selectedNote.tags.map(tag => (
+                          <button key={tag} onClick={() => setTagFilter(tag)} className="px-2 py-0.5 rounded-lg bg-white/5 text-[9px] font-mono font-bold text-slate-400 hover:text-white">#{tag}</button>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 </div>
-                <div className="flex gap-4">
-                  <button onClick={() => handleDownload(selectedNote)} className="p-4 bg-white/5 border border-white/10 rounded-2xl text-slate-400 hover:text-white hover:bg-white/10 transition-all shadow-xl" title="Download .md">
-                    <Download size={18} />
-                  </button>
-                  <button onClick={() => { navigator.clipboard.writeText(selectedNote.content); }} className="p-4 bg-white/5 border border-white/10 rounded-2xl text-slate-400 hover:text-white hover:bg-white/10 transition-all shadow-xl" title="Copy">
-                    <Copy size={18} />
-                  </button>
-                </div>
+                {noteDraft ? (
+                  <div className="flex gap-3 shrink-0">
+                    <button onClick={() => setNoteDraft(null)} className="px-5 py-3 bg-white/5 border border-white/10 rounded-2xl text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-white hover:bg-white/10 transition-all">
+                      Cancel
+                    </button>
+                    <button onClick={saveNoteDraft} disabled={!noteDraft.content.trim()} className="flex items-center gap-2 px-5 py-3 bg-blue-600 rounded-2xl text-[10px] font-black uppercase tracking-widest text-white hover:bg-blue-500 disabled:opacity-50 transition-all shadow-xl shadow-blue-500/20">
+                      <Save size={14} /> Save
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex gap-4 shrink-0">
+                    {selectedNote.source && (
+                      <button onClick={() => openInContext(selectedNote)} className="p-4 bg-white/5 border border-white/10 rounded-2xl text-slate-400 hover:text-white hover:bg-white/10 transition-all shadow-xl" title="Open in context">
+                        <ExternalLink size={18} />
+                      </button>
+                    )}
+                    <button onClick={() => startEditing(selectedNote)} className="p-4 bg-white/5 border border-white/10 rounded-2xl text-slate-400 hover:text-white hover:bg-white/10 transition-all shadow-xl" title="Edit">
+                      <Pencil size={18} />
+                    </button>
+                    <button onClick={() => openCardEditor(selectedNote)} className="p-4 bg-white/5 border border-white/10 rounded-2xl text-slate-400 hover:text-white hover:bg-white/10 transition-all shadow-xl relative" title="Flashcards">
+                      <Layers size={18} />
+                      {flashcards.some(c => c.noteId === selectedNote.id) && (
+                        <span className="absolute -top-1.5 -right-1.5 bg-blue-600 text-white text-[8px] font-mono font-black rounded-full min-w-[18px] h-[18px] flex items-center justify-center px-1">{flashcards.filter(c => c.noteId === selectedNote.id).length}</span>
+                      )}
+                    </button>
+                    <button onClick={() => handleDownload(selectedNote)} className="p-4 bg-white/5 border border-white/10 rounded-2xl text-slate-400 hover:text-white hover:bg-white/10 transition-all shadow-xl" title="Download .md">
+                      <Download size={18} />
+                    </button>
+                    <button onClick={() => { navigator.clipboard.writeText(selectedNote.content); }} className="p-4 bg-white/5 border border-white/10 rounded-2xl text-slate-400 hover:text-white hover:bg-white/10 transition-all shadow-xl" title="Copy">
+                      <Copy size={18} />
+                    </button>
+                  </div>
+                )}
               </div>
-              <div className="flex-1 overflow-y-auto p-10 custom-scrollbar relative z-10">
-                <div className="markdown-body text-sm leading-relaxed text-slate-300">
-                  <ReactMarkdown 
-                    remarkPlugins={[remarkMath, remarkGfm]} 
-                    rehypePlugins={[rehypeKatex]}
-                    components={{
-                      code({ node, inline, className, children, ...props }: any) {
-                        const match = /language-(\w+)/.exec(className || '');
-                        if (!inline && match && match[1] === 'chart') {
-                          return <ChartRenderer content={String(children).replace(/\n$/, '')} />;
-                        }
-                        return (
-                          <code className={className} {...props}>
-                            {children}
-                          </code>
-                        );
-                      }
-                    }}
-                  >
-                    {selectedNote.content}
-                  </ReactMarkdown>
+              {noteDraft ? (
+                <div className="flex-1 flex flex-col min-h-0 p-8 gap-4 relative z-10">
+                  <div className="flex gap-3">
+                    <input 
+                      value={noteDraft.title} 
+                      onChange={e => setNoteDraft({ ...noteDraft, title: e.target.value })} 
+                      placeholder={suggestNoteTitle(noteDraft.content)} 
+                      className="flex-1 bg-white/5 p-3 rounded-xl border border-white/10 outline-none focus:border-blue-500 text-sm font-bold text-white"
+                    />
+                    <button onClick={() => setNoteDraft({ ...noteDraft, title: suggestNoteTitle(noteDraft.content) })} className="flex items-center gap-2 px-4 bg-white/5 border border-white/10 rounded-xl text-[9px] font-black uppercase tracking-widest text-blue-400 hover:bg-white/10 transition-all" title="Suggest a title from the content">
+                      <Sparkles size={14} /> Suggest
+                    </button>
+                  </div>
+                  <div className="flex items-center gap-3 bg-white/5 px-3 rounded-xl border border-white/10 focus-within:border-blue-500">
+                    <Tag size={14} className="text-slate-500" />
+                    <input 
+                      value={noteDraft.tags} 
+                      onChange={e => setNoteDraft({ ...noteDraft, tags: e.target.value })} 
+                      placeholder="Tags, separated by commas (e.g. kinetics, exam 2024)" 
+                      className="flex-1 bg-transparent py-3 outline-none text-xs text-white"
+                    />
+                  </div>
+                  <div className="flex gap-2">
+                    {(['write', 'preview'] as const).map(tab => (
+                      <button key={tab} onClick={() => setEditorTab(tab)} className={`flex items-center gap-2 px-4 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all ${editorTab === tab ? 'bg-blue-600 text-white' : 'bg-white/5 text-slate-500 hover:text-white'}`}>
+                        {tab === 'write' ? <Pencil size={12} /> : <Eye size={12} />} {tab}
+                      </button>
+                    ))}
+                  </div>
+                  {editorTab === 'write' ? (
+                    <textarea 
+                      value={noteDraft.content} 
+                      onChange={e => setNoteDraft({ ...noteDraft, content: e.target.value })} 
+                      className="flex-1 min-h-[200px] bg-black/30 p-5 rounded-2xl border border-white/10 outline-none focus:border-blue-500 text-xs font-mono leading-relaxed text-slate-200 resize-none custom-scrollbar"
+                    />
+                  ) : (
+                    <div className="flex-1 min-h-[200px] overflow-y-auto bg-black/30 p-6 rounded-2xl border border-white/10 custom-scrollbar">
+                      {renderMarkdown(noteDraft.content)}
+                    </div>
+                  )}
                 </div>
-              </div>
+              ) : (
+                <div className="flex-1 overflow-y-auto p-10 custom-scrollbar relative z-10">
+                  {renderMarkdown(selectedNote.content)}
+                </div>
+              )}
               <div className="absolute inset-0 opacity-[0.02] pointer-events-none bg-[radial-gradient(#fff_1px,transparent_1px)] [background-size:32px_32px]" />
             </>
           ) : (
@@ -1488,8 +4567,95 @@ const VaultView: React.FC<{ notes: SavedNote[], onDelete: (id: string) => void }
           )}
         </div>
       </div>
+
+      {showAnki && (
+        <AnkiDialog 
+          subjects={subjects} 
+          notes={filteredNotes} 
+          allNotes={notes} 
+          flashcards={flashcards} 
+          onImport={(imported, skipped) => { onImportNotes(imported, skipped); setShowAnki(false); }} 
+          onClose={() => setShowAnki(false)} 
+        />
+      )}
+
+      {snapshotNote?.source && (
+        <div className="fixed inset-0 z-[110] bg-black/60 backdrop-blur-md flex items-center justify-center p-4">
+          <motion.div 
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            className="bg-slate-900 w-full max-w-2xl rounded-3xl shadow-2xl overflow-hidden border border-white/10 flex flex-col max-h-[85vh]"
+          >
+            <div className="p-5 border-b border-white/5 flex justify-between items-center bg-white/5">
+              <h3 className="text-[10px] font-display font-black uppercase tracking-[0.3em] text-white">Original Exchange</h3>
+              <button onClick={() => setSnapshotNote(null)} className="text-slate-500 hover:text-white transition-colors"><X size={20}/></button>
+            </div>
+            <div className="p-6 space-y-5 overflow-y-auto custom-scrollbar flex-1">
+              <div className="flex items-start gap-3 bg-amber-500/10 border border-amber-500/20 rounded-2xl p-4 text-[11px] text-amber-300">
+                <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+                <p>
+                  {snapshotNote.source.conversationTitle ? `"${snapshotNote.source.conversationTitle}"` : 'The conversation'} is no longer on this device, so this is the copy saved with the note on {new Date(snapshotNote.timestamp).toLocaleString()}.
+                </p>
+              </div>
+              {snapshotNote.source.question && (
+                <div className="flex justify-end">
+                  <div className="max-w-[85%] rounded-[2rem] rounded-tr-none px-6 py-5 bg-blue-600 text-white text-sm whitespace-pre-wrap shadow-2xl shadow-blue-500/20">
+                    {snapshotNote.source.question}
+                  </div>
+                </div>
+              )}
+              <div className="rounded-[2rem] rounded-tl-none px-6 py-5 bg-slate-950/60 border border-white/10">
+                {renderMarkdown(snapshotNote.source.answer || snapshotNote.content)}
+              </div>
+            </div>
+          </motion.div>
+        </div>
+      )}
+
+      {cardDrafts && selectedNote && (
+        <div className="fixed inset-0 z-[110] bg-black/60 backdrop-blur-md flex items-center justify-center p-4">
+          <motion.div 
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            className="bg-slate-900 w-full max-w-2xl rounded-3xl shadow-2xl overflow-hidden border border-white/10 flex flex-col max-h-[85vh]"
+          >
+            <div className="p-5 border-b border-white/5 flex justify-between items-center bg-white/5">
+              <h3 className="text-[10px] font-display font-black uppercase tracking-[0.3em] text-white">Flashcards — {subjectInfo(subjects, selectedNote.subject).name}</h3>
+              <button onClick={() => setCardDrafts(null)} className="text-slate-500 hover:text-white transition-colors"><X size={20}/></button>
+            </div>
+            <div className="p-6 space-y-4 overflow-y-auto custom-scrollbar flex-1">
+              {cardDrafts.map((draft, i) => (
+                <div key={draft.id || `draft-${i}`} className="grid grid-cols-1 sm:grid-cols-2 gap-3 bg-black/30 p-4 rounded-2xl border border-white/5 relative group">
+                  <textarea value={draft.front} onChange={e => updateDraft(i, { front: e.target.value })} placeholder="Front" rows={3} className="bg-white/5 p-3 rounded-xl border border-white/10 outline-none focus:border-blue-500 text-xs text-white resize-none" />
+                  <textarea value={draft.back} onChange={e => updateDraft(i, { back: e.target.value })} placeholder="Back" rows={3} className="bg-white/5 p-3 rounded-xl border border-white/10 outline-none focus:border-blue-500 text-xs text-white resize-none" />
+                  <button onClick={() => setCardDrafts(prev => prev ? prev.filter((_, idx) => idx !== i) : prev)} className="absolute -top-2 -right-2 bg-slate-800 p-1.5 rounded-full text-slate-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-all">
+                    <X size={12} />
+                  </button>
+                </div>
+              ))}
+              {cardDrafts.length === 0 && (
+                <p className="text-slate-600 text-[10px] uppercase font-mono font-bold tracking-[0.3em] text-center py-8">No cards yet — extract with AI or add one manually</p>
+              )}
+            </div>
+            <div className="p-5 border-t border-white/5 flex gap-3">
+              <button onClick={() => handleExtract(selectedNote)} disabled={isExtracting} className="flex items-center gap-2 bg-white/5 text-blue-400 border border-white/10 px-4 py-3 rounded-xl font-black uppercase text-[9px] tracking-widest hover:bg-white/10 disabled:opacity-50 transition-all">
+                {isExtracting ? <RefreshCw size={14} className="animate-spin" /> : <Sparkles size={14} />} AI Extract
+              </button>
+              <button onClick={() => setCardDrafts(prev => [...(prev || []), { front: '', back: '' }])} className="flex items-center gap-2 bg-white/5 text-slate-300 border border-white/10 px-4 py-3 rounded-xl font-black uppercase text-[9px] tracking-widest hover:bg-white/10 transition-all">
+                <Plus size={14} /> Add Card
+              </button>
+              <button 
+                onClick={() => { onSaveFlashcards(selectedNote, cardDrafts.filter(d => d.front.trim() && d.back.trim())); setCardDrafts(null); }} 
+                className="flex-1 bg-blue-600 text-white py-3 rounded-xl font-black uppercase tracking-widest text-[10px] hover:bg-blue-500 transition-all shadow-xl shadow-blue-500/20"
+              >
+                Save Deck
+              </button>
+            </div>
+          </motion.div>
+        </div>
+      )}
     </div>
   );
 };
 
-export default App;
\ No newline at end of file
+export default App;
@@ -1,26 +1,43 @@
 
-import { Subject, DayOfWeek } from './types';
-
-export const SUBJECTS: Subject[] = ['Math', 'Physics', 'Chemistry', 'Biology', 'Social', 'Thai', 'TPAT1'];
+import { BuiltinSubject, DayOfWeek, TimerProfile, TutorPersona, SubjectDefinition } from './types';
 
 export const DAYS: DayOfWeek[] = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
 
-export const SUBJECT_INFO: Record<Subject, { color: string; description: string; icon: string }> = {
-  Math: { color: 'bg-blue-500', description: 'Logic, Algebra, Calculus', icon: '📐' },
-  Physics: { color: 'bg-indigo-500', description: 'Mechanics, Electricity, Waves', icon: '⚡' },
-  Chemistry: { color: 'bg-green-500', description: 'Organic, Inorganic, Stoichiometry', icon: '🧪' },
-  Biology: { color: 'bg-emerald-500', description: 'Genetics, Physiology, Botany', icon: '🧬' },
-  Social: { color: 'bg-orange-500', description: 'History, Geography, Economics', icon: '🌍' },
-  Thai: { color: 'bg-red-500', description: 'Grammar, Literature, Reading', icon: '🇹🇭' },
-  TPAT1: { color: 'bg-purple-500', description: 'Medical Aptitude, Ethics', icon: '🩺' },
+export const DEFAULT_TIMER_PROFILES: TimerProfile[] = [
+  { id: 'classic', name: 'Classic 25/5', studyMinutes: 25, shortBreakMinutes: 5, longBreakMinutes: 15, cyclesBeforeLongBreak: 4, autoStartBreaks: false, autoStartStudy: false },
+  { id: 'deep', name: 'Deep Work 50/10', studyMinutes: 50, shortBreakMinutes: 10, longBreakMinutes: 30, cyclesBeforeLongBreak: 3, autoStartBreaks: true, autoStartStudy: false },
+  { id: 'exam', name: 'Exam Sim 90/15', studyMinutes: 90, shortBreakMinutes: 15, longBreakMinutes: 30, cyclesBeforeLongBreak: 2, autoStartBreaks: false, autoStartStudy: false },
+];
+
+// The original seven subjects. Seeded into every user's registry and never deleted, so older data keeps resolving.
+export const DEFAULT_SUBJECTS: SubjectDefinition[] = [
+  { id: 'Math', name: 'Math', color: '#3b82f6', icon: '📐', description: 'Logic, Algebra, Calculus', builtin: true,
+    prompt: "You are a world-class Mathematics tutor specializing in the Thai Medical Entrance Exam (A-Level/TPAT). Focus on problem-solving techniques, shortcuts, and core concepts. Be precise." },
+  { id: 'Physics', name: 'Physics', color: '#6366f1', icon: '⚡', description: 'Mechanics, Electricity, Waves', builtin: true,
+    prompt: "You are a Physics expert. Explain complex phenomena simply. Use examples relevant to medical entrance exams. Help students visualize forces and energy." },
+  { id: 'Chemistry', name: 'Chemistry', color: '#22c55e', icon: '🧪', description: 'Organic, Inorganic, Stoichiometry', builtin: true,
+    prompt: "You are a Chemistry specialist. Help the student master chemical reactions, formulas, and periodic table trends. Focus on both theory and calculation." },
+  { id: 'Biology', name: 'Biology', color: '#10b981', icon: '🧬', description: 'Genetics, Physiology, Botany', builtin: true,
+    prompt: "You are a Biology professor. Assist with diagrams, processes, and classification. Connect biological concepts to medical practice where appropriate." },
+  { id: 'Social', name: 'Social', color: '#f97316', icon: '🌍', description: 'History, Geography, Economics', builtin: true,
+    prompt: "You are a Social Studies expert. Summarize key historical events, geographic facts, and economic principles in a way that is easy to remember for exams." },
+  { id: 'Thai', name: 'Thai', color: '#ef4444', icon: '🇹🇭', description: 'Grammar, Literature, Reading', builtin: true,
+    prompt: "You are a master of Thai Language and Literature. Help with reading comprehension, critical analysis, and grammar rules used in standard exams." },
+  { id: 'TPAT1', name: 'TPAT1', color: '#a855f7', icon: '🩺', description: 'Medical Aptitude, Ethics', builtin: true,
+    prompt: "You are an expert in Medical Aptitude (TPAT1). Focus on medical ethics, reasoning skills, and the specific format of the TPAT1 exam. Provide ethical dilemmas to practice." },
+];
+
+// Persona settings other than the instructions, which come from the subject's prompt
+export const DEFAULT_PERSONA_TRAITS: Omit<TutorPersona, 'subject' | 'name' | 'instructions'> = {
+  tone: 'encouraging', language: 'mixed', level: 'exam', style: 'direct', useLatex: false,
 };
 
-export const SYSTEM_PROMPTS: Record<Subject, string> = {
-  Math: "You are a world-class Mathematics tutor specializing in the Thai Medical Entrance Exam (A-Level/TPAT). Focus on problem-solving techniques, shortcuts, and core concepts. Be precise and encouraging. ALWAYS use LaTeX for mathematical symbols and formulas (e.g., use $x^2$ or $\\frac{a}{b}$). Use Markdown tables for comparisons. To create a graph, use a code block with language 'chart' and JSON format: {\"type\": \"bar\"|\"line\"|\"area\"|\"pie\", \"title\": \"...\", \"data\": [{\"name\": \"...\", \"value\": 10}, ...]}",
-  Physics: "You are a Physics expert. Explain complex phenomena simply. Use examples relevant to medical entrance exams. Help students visualize forces and energy. ALWAYS use LaTeX for mathematical symbols and formulas (e.g., use $F=ma$ or $\\lambda = \\frac{h}{p}$). Use Markdown tables for comparisons. To create a graph, use a code block with language 'chart' and JSON format: {\"type\": \"bar\"|\"line\"|\"area\"|\"pie\", \"title\": \"...\", \"data\": [{\"name\": \"...\", \"value\": 10}, ...]}",
-  Chemistry: "You are a Chemistry specialist. Help the student master chemical reactions, formulas, and periodic table trends. Focus on both theory and calculation. ALWAYS use LaTeX for chemical formulas and mathematical symbols (e.g., $H_2O$ or $PV=nRT$). Use Markdown tables for comparisons. To create a graph, use a code block with language 'chart' and JSON format: {\"type\": \"bar\"|\"line\"|\"area\"|\"pie\", \"title\": \"...\", \"data\": [{\"name\": \"...\", \"value\": 10}, ...]}",
-  Biology: "You are a Biology professor. Assist with diagrams, processes, and classification. Connect biological concepts to medical practice where appropriate. Use LaTeX for any mathematical or chemical notations. Use Markdown tables for comparisons. To create a graph, use a code block with language 'chart' and JSON format: {\"type\": \"bar\"|\"line\"|\"area\"|\"pie\", \"title\": \"...\", \"data\": [{\"name\": \"...\", \"value\": 10}, ...]}",
-  Social: "You are a Social Studies expert. Summarize key historical events, geographic facts, and economic principles in a way that is easy to remember for exams. Use Markdown tables for comparisons. To create a graph, use a code block with language 'chart' and JSON format: {\"type\": \"bar\"|\"line\"|\"area\"|\"pie\", \"title\": \"...\", \"data\": [{\"name\": \"...\", \"value\": 10}, ...]}",
-  Thai: "You are a master of Thai Language and Literature. Help with reading comprehension, critical analysis, and grammar rules used in standard exams. Use Markdown tables for comparisons. To create a graph, use a code block with language 'chart' and JSON format: {\"type\": \"bar\"|\"line\"|\"area\"|\"pie\", \"title\": \"...\", \"data\": [{\"name\": \"...\", \"value\": 10}, ...]}",
-  TPAT1: "You are an expert in Medical Aptitude (TPAT1). Focus on medical ethics, reasoning skills, and the specific format of the TPAT1 exam. Provide ethical dilemmas to practice. Use Markdown tables for comparisons. To create a graph, use a code block with language 'chart' and JSON format: {\"type\": \"bar\"|\"line\"|\"area\"|\"pie\", \"title\": \"...\", \"data\": [{\"name\": \"...\", \"value\": 10}, ...]}"
+export const BUILTIN_PERSONA_TRAITS: Record<BuiltinSubject, Partial<TutorPersona> & { name: string }> = {
+  Math: { name: 'Math Coach', useLatex: true },
+  Physics: { name: 'Physics Expert', useLatex: true },
+  Chemistry: { name: 'Chemistry Specialist', useLatex: true },
+  Biology: { name: 'Biology Professor', useLatex: true },
+  Social: { name: 'Social Studies Guide' },
+  Thai: { name: 'Thai Language Master', language: 'th' },
+  TPAT1: { name: 'TPAT1 Mentor', style: 'socratic' },
 };
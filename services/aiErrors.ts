@@ -0,0 +1,111 @@
+import { AIErrorKind } from "../types";
+
+export interface RetryPolicy {
+  maxAttempts: number; // total tries, including the first
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // A Retry-After longer than this is treated as "not now" and surfaced instead of waited out
+  maxRetryAfterMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 8000,
+  maxRetryAfterMs: 30000,
+};
+
+const KIND_MESSAGES: Record<AIErrorKind, string> = {
+  auth: "The AI provider rejected the API key. Check it in Settings.",
+  quota: "The API quota or rate limit for this key has been reached.",
+  overload: "The AI servers are busy right now. Please try again in a moment.",
+  safety: "The AI provider blocked this request or its answer under its safety policy. Try rephrasing the question.",
+  network: "Could not reach the AI provider. Check your internet connection.",
+  empty: "The AI provider returned an empty answer.",
+  unknown: "The AI provider returned an unexpected error.",
+};
+
+/**
+ * An AI call failure with a category the UI can act on. `message` is always
+ * safe to show to a student; the raw provider text is kept in `detail`.
+ */
+export class AIError extends Error {
+  kind: AIErrorKind;
+  status?: number;
+  retryAfterMs?: number;
+  detail?: string;
+
+  constructor(kind: AIErrorKind, options: { message?: string, status?: number, retryAfterMs?: number, detail?: string } = {}) {
+    super(options.message || KIND_MESSAGES[kind]);
+    this.name = 'AIError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.detail = options.detail;
+  }
+}
+
+export const kindForStatus = (status: number): AIErrorKind => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'quota';
+  if (status === 500 || status === 502 || status === 503 || status === 504 || status === 529) return 'overload';
+  return 'unknown';
+};
+
+/** Parses an HTTP Retry-After header (delta-seconds or HTTP-date) into milliseconds. */
+export const parseRetryAfter = (value: string | null | undefined, now: number = Date.now()): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+export const isAbortError = (error: any) => error?.name === 'AbortError';
+
+/**
+ * Normalises anything thrown by a provider or SDK into an AIError. Aborts are
+ * not errors and must be checked with isAbortError before calling this.
+ */
+export const toAIError = (error: any): AIError => {
+  if (error instanceof AIError) return error;
+  const detail = String(error?.message || error || '');
+  const status = typeof error?.status === 'number' ? error.status : undefined;
+
+  // Gemini reports a suggested wait inside the error body rather than as a header
+  const retryDelay = /"retryDelay":\s*"(\d+(?:\.\d+)?)s"/.exec(detail);
+  const retryAfterMs = retryDelay ? Number(retryDelay[1]) * 1000 : undefined;
+
+  // A status like Gemini's 400 for a bad key says nothing on its own, so fall through to the body
+  const statusKind = status ? kindForStatus(status) : 'unknown';
+  if (statusKind !== 'unknown') return new AIError(statusKind, { status, retryAfterMs, detail });
+
+  if (/API key not valid|API_KEY_INVALID|PERMISSION_DENIED|unauthori[sz]ed/i.test(detail)) return new AIError('auth', { status, detail });
+  if (/RESOURCE_EXHAUSTED|quota|rate limit/i.test(detail)) return new AIError('quota', { status, retryAfterMs, detail });
+  if (/UNAVAILABLE|overloaded|high demand|\b50[34]\b/i.test(detail)) return new AIError('overload', { status, detail });
+  if (/SAFETY|blocked|PROHIBITED_CONTENT/i.test(detail)) return new AIError('safety', { status, detail });
+  if (error instanceof TypeError || /fetch failed|Failed to fetch|NetworkError|network/i.test(detail)) return new AIError('network', { status, detail });
+  return new AIError('unknown', { status, message: detail ? `${KIND_MESSAGES.unknown} (${detail.slice(0, 200)})` : undefined, detail });
+};
+
+/** Whether a failed call is worth repeating, and if so how long to wait first. */
+export const retryDelayFor = (error: AIError, attempt: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY): number | null => {
+  if (attempt >= policy.maxAttempts) return null;
+  if (error.retryAfterMs !== undefined) {
+    return error.retryAfterMs <= policy.maxRetryAfterMs ? error.retryAfterMs : null;
+  }
+  // A 429 without a wait hint is usually a daily quota; retrying just burns more of it
+  if (error.kind !== 'overload' && error.kind !== 'network') return null;
+  // Full jitter: spreads out retries from many tabs hitting the same outage
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+};
+
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  }, { once: true });
+});
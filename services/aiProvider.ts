@@ -0,0 +1,100 @@
+import { AIProviderId, AIProviderConfig, AIProviderSettings, ChatAttachment, VoiceLanguage } from "../types";
+import { createGeminiProvider } from "./providers/geminiProvider";
+import { createOpenAICompatibleProvider } from "./providers/openAICompatibleProvider";
+import { createMockProvider } from "./providers/mockProvider";
+import { defaultContextBudget } from "./contextService";
+
+// Plain JSON Schema. Gemini, llama.cpp and recent Ollama all accept it for structured output.
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+  minItems?: number;
+  maxItems?: number;
+  examples?: unknown[];
+}
+
+export interface AIMessage {
+  role: 'user' | 'model';
+  text: string;
+  attachments?: ChatAttachment[];
+}
+
+export interface AIRequest {
+  system?: string;
+  messages: AIMessage[];
+  temperature?: number;
+  signal?: AbortSignal;
+}
+
+export interface AIJsonRequest extends AIRequest {
+  schema: JsonSchema;
+}
+
+/**
+ * One backend the app can talk to. Text streaming yields deltas, not the
+ * accumulated answer; aiService does the accumulating and retrying so each
+ * provider only has to speak its own wire format. Failures should be thrown
+ * as AIError where the provider knows the category; anything else is
+ * classified by toAIError.
+ */
+export interface AIProvider {
+  id: AIProviderId;
+  generateText: (request: AIRequest) => Promise<string>;
+  streamText: (request: AIRequest) => AsyncGenerator<string>;
+  generateJson: (request: AIJsonRequest) => Promise<unknown>;
+  synthesizeSpeech: (text: string) => Promise<AudioBuffer>;
+  transcribeAudio: (audio: { data: string, mimeType: string }, language: VoiceLanguage) => Promise<string>;
+}
+
+export const PROVIDER_OPTIONS: { id: AIProviderId, label: string, defaultModel: string, description: string }[] = [
+  { id: 'gemini', label: 'Google Gemini', defaultModel: 'gemini-3-flash-preview', description: 'Full feature set, including PDF reading and voice.' },
+  { id: 'openai', label: 'OpenAI-compatible', defaultModel: 'llama3.1', description: 'Any /v1/chat/completions server, e.g. llama.cpp, Ollama or LM Studio.' },
+  { id: 'mock', label: 'Offline mock', defaultModel: 'mock-1', description: 'Deterministic canned answers for demos and testing. No network.' },
+];
+
+export const DEFAULT_COMPAT_BASE_URL = 'http://localhost:11434/v1';
+
+export const DEFAULT_PROVIDER_SETTINGS: AIProviderSettings = {
+  provider: 'gemini',
+  model: '',
+  baseUrl: DEFAULT_COMPAT_BASE_URL,
+  compatApiKey: '',
+  maxRetries: 2,
+  contextBudget: 0,
+};
+
+export const defaultModelFor = (provider: AIProviderId) =>
+  PROVIDER_OPTIONS.find(p => p.id === provider)?.defaultModel || PROVIDER_OPTIONS[0].defaultModel;
+
+/** Combines stored settings with the Gemini key into the config services take. */
+export const resolveProviderConfig = (settings: AIProviderSettings, geminiApiKey: string): AIProviderConfig => {
+  const model = settings.model.trim() || defaultModelFor(settings.provider);
+  return {
+    provider: settings.provider,
+    model,
+    baseUrl: settings.baseUrl.trim() || DEFAULT_COMPAT_BASE_URL,
+    apiKey: settings.provider === 'gemini' ? geminiApiKey : settings.compatApiKey,
+    maxRetries: Math.max(0, Math.min(5, Math.round(settings.maxRetries))) || 0,
+    // Below ~1k tokens not even a question plus the system prompt fits
+    contextBudget: settings.contextBudget > 0 ? Math.max(1000, Math.round(settings.contextBudget)) : defaultContextBudget(model),
+  };
+};
+
+/**
+ * Builds the provider for a config. Throws when the config cannot work at
+ * all (e.g. no Gemini key), before any request is made.
+ */
+export const createProvider = (config: AIProviderConfig): AIProvider => {
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAICompatibleProvider(config);
+    case 'mock':
+      return createMockProvider(config);
+    default:
+      return createGeminiProvider(config);
+  }
+};
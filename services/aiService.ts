@@ -0,0 +1,287 @@
+import { TutorPersona, QuizQuestion, StudyPlanRequest, StudySession, ChatAttachment, VoiceLanguage, AIProviderConfig } from "../types";
+import { DAYS } from "../constants";
+import { composeSystemPrompt } from "./personaService";
+import { normalizeQuizQuestions } from "./quizService";
+import { buildStudyPlanPrompt, finalizeStudyPlan } from "./studyPlanService";
+import { createProvider, AIMessage, JsonSchema } from "./aiProvider";
+import { AIError, RetryPolicy, DEFAULT_RETRY_POLICY, toAIError, retryDelayFor, isAbortError, sleep } from "./aiErrors";
+
+type TutorHistoryEntry = { role: 'user' | 'model', content: string, attachments?: ChatAttachment[], error?: unknown };
+
+export interface TutorRequestOptions {
+  signal?: AbortSignal;
+  attachments?: ChatAttachment[];
+  summary?: string; // Rolling summary of turns older than `history`
+}
+
+// `history` is sent as given; callers trim it to the context budget with contextService.planContext
+const buildConversation = (message: string, history: TutorHistoryEntry[], attachments: ChatAttachment[] = []): AIMessage[] => {
+  // Failed replies are UI-only; the model never sees them, nor a half-answer that ended in an error
+  const conversationHistory: AIMessage[] = history
+    .filter(h => !h.error)
+    .map(h => ({ role: h.role === 'model' ? 'model' : 'user', text: h.content, attachments: h.attachments }));
+
+  // Add the current message
+  conversationHistory.push({ role: 'user', text: message || "Please explain and solve the attached problem.", attachments });
+  return conversationHistory;
+};
+
+const retryPolicyFor = (config: AIProviderConfig): RetryPolicy => ({ ...DEFAULT_RETRY_POLICY, maxAttempts: config.maxRetries + 1 });
+
+/**
+ * Runs `task`, repeating it after transient failures with jittered backoff
+ * (or the provider's Retry-After). Always rejects with an AIError, or with
+ * the AbortError itself when `signal` fires.
+ */
+const withRetry = async <T>(task: () => Promise<T>, config: AIProviderConfig, signal?: AbortSignal): Promise<T> => {
+  const policy = retryPolicyFor(config);
+  let attempt = 0;
+  while (true) {
+    try {
+      return await task();
+    } catch (error: any) {
+      if (isAbortError(error) || signal?.aborted) throw error;
+      const aiError = toAIError(error);
+      attempt++;
+      const delay = retryDelayFor(aiError, attempt, policy);
+      if (delay === null) throw aiError;
+      console.warn(`AI request failed (${aiError.kind}), retrying in ${delay}ms`, aiError.detail);
+      await sleep(delay, signal);
+    }
+  }
+};
+
+export const tutorSystemPrompt = (persona: TutorPersona, summary?: string) => summary
+  ? `${composeSystemPrompt(persona)}\n\n## Earlier in this conversation (summary)\n${summary}`
+  : composeSystemPrompt(persona);
+
+/** Single-shot tutor answer. Throws AIError on failure. */
+export const getTutorResponse = async (persona: TutorPersona, message: string, history: TutorHistoryEntry[] = [], config: AIProviderConfig, options: TutorRequestOptions = {}) => {
+  const provider = createProvider(config);
+  return withRetry(() => provider.generateText({
+    system: tutorSystemPrompt(persona, options.summary),
+    messages: buildConversation(message, history, options.attachments),
+    temperature: 0.7,
+    signal: options.signal,
+  }), config, options.signal);
+};
+
+/**
+ * Streaming variant of getTutorResponse. Yields the accumulated answer text each
+ * time a new chunk arrives. Aborting `signal` ends the stream quietly so the
+ * caller can keep whatever text it already received; any other failure is
+ * thrown as an AIError after the retry policy is exhausted.
+ */
+export async function* streamTutorResponse(persona: TutorPersona, message: string, history: TutorHistoryEntry[] = [], config: AIProviderConfig, options: TutorRequestOptions = {}): AsyncGenerator<string> {
+  const { signal, attachments = [], summary } = options;
+  const provider = createProvider(config);
+  const policy = retryPolicyFor(config);
+  let attempt = 0;
+  let accumulated = '';
+
+  while (true) {
+    try {
+      const stream = provider.streamText({
+        system: tutorSystemPrompt(persona, summary),
+        messages: buildConversation(message, history, attachments),
+        temperature: 0.7,
+        signal,
+      });
+
+      for await (const chunk of stream) {
+        if (signal?.aborted) return;
+        accumulated += chunk;
+        yield accumulated;
+      }
+
+      if (!accumulated) {
+        throw new AIError('empty');
+      }
+      return;
+    } catch (error: any) {
+      if (signal?.aborted || isAbortError(error)) return;
+      const aiError = toAIError(error);
+      attempt++;
+
+      // Only retry when nothing has been shown yet, otherwise the student would see the answer restart
+      const delay = accumulated ? null : retryDelayFor(aiError, attempt, policy);
+      if (delay === null) throw aiError;
+      try {
+        await sleep(delay, signal);
+      } catch (e) {
+        return;
+      }
+    }
+  }
+}
+
+/**
+ * Folds `messages` into the running summary of a tutoring conversation so
+ * they can leave the context window without being forgotten. Throws
+ * AIError on failure; callers keep the previous summary in that case.
+ */
+export const summarizeConversation = async (persona: TutorPersona, previousSummary: string | undefined, messages: TutorHistoryEntry[], maxTokens: number, config: AIProviderConfig): Promise<string> => {
+  const provider = createProvider(config);
+  const transcript = messages
+    .filter(m => !m.error && m.content)
+    .map(m => `${m.role === 'model' ? 'Tutor' : 'Student'}: ${m.content}`)
+    .join('\n\n');
+  const prompt = `${previousSummary ? `Current summary:\n${previousSummary}\n\n` : ''}New turns to fold in:\n${transcript}\n\nWrite the updated summary.`;
+
+  return withRetry(() => provider.generateText({
+    system: `You maintain a running summary of a ${persona.subject} tutoring conversation with a Thai medical-school applicant. Keep: the topics covered, the student's specific questions and misconceptions, key results and formulas (in LaTeX), and anything the tutor promised to follow up on. Write in the conversation's language, as terse bullet points, under ${Math.round(maxTokens * 3)} characters.`,
+    messages: [{ role: 'user', text: prompt }],
+    temperature: 0.2,
+  }), config);
+};
+
+const QUIZ_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    questions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          prompt: { type: 'string', description: "The question text. Use LaTeX for formulas." },
+          choices: { type: 'array', items: { type: 'string' }, minItems: 4, maxItems: 5, description: "Exactly 4 or 5 answer options." },
+          answerIndex: { type: 'integer', description: "Zero-based index of the correct choice.", examples: [1, 3, 0, 2] },
+          explanation: { type: 'string', description: "Short worked solution explaining the correct choice." }
+        },
+        required: ['prompt', 'choices', 'answerIndex', 'explanation']
+      }
+    }
+  },
+  required: ['questions']
+};
+
+/**
+ * Asks the subject persona for multiple-choice exam drill questions using a JSON
+ * response schema. Unlike the chat helpers this throws, because a quiz cannot
+ * be built from an error message.
+ */
+export const generateQuiz = async (persona: TutorPersona, topic: string, count: number, config: AIProviderConfig): Promise<QuizQuestion[]> => {
+  const provider = createProvider(config);
+  const prompt = `Write ${count} multiple-choice questions on "${topic || persona.subject}" in the style of the Thai A-Level / TPAT medical entrance exams. Vary the difficulty from standard to hard and make every distractor plausible.`;
+
+  return withRetry(async () => {
+    const response = await provider.generateJson({
+      system: composeSystemPrompt(persona),
+      messages: [{ role: 'user', text: prompt }],
+      temperature: 0.8,
+      schema: QUIZ_SCHEMA,
+    });
+    const questions = normalizeQuizQuestions(response);
+    if (questions.length === 0) {
+      throw new AIError('empty', { message: "The AI node returned no usable questions." });
+    }
+    return questions;
+  }, config);
+};
+
+const FLASHCARD_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    cards: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          front: { type: 'string', description: "A single question or cue. Use LaTeX for formulas." },
+          back: { type: 'string', description: "The concise answer to the front." }
+        },
+        required: ['front', 'back']
+      }
+    }
+  },
+  required: ['cards']
+};
+
+/**
+ * Extracts front/back flashcard pairs from a saved Vault note. Throws on
+ * failure like generateQuiz.
+ */
+export const generateFlashcards = async (persona: TutorPersona, noteContent: string, config: AIProviderConfig): Promise<{ front: string, back: string }[]> => {
+  const provider = createProvider(config);
+  const prompt = `Turn the following study note into between 3 and 12 flashcards. Each card tests exactly one fact, definition, formula or step. Keep both sides short.\n\n---\n${noteContent}`;
+
+  const parsed: any = await withRetry(() => provider.generateJson({
+    system: composeSystemPrompt(persona),
+    messages: [{ role: 'user', text: prompt }],
+    temperature: 0.4,
+    schema: FLASHCARD_SCHEMA,
+  }), config);
+
+  const cards = (Array.isArray(parsed?.cards) ? parsed.cards : [])
+    .filter((c: any) => typeof c?.front === 'string' && typeof c?.back === 'string' && c.front.trim() && c.back.trim());
+  if (cards.length === 0) {
+    throw new AIError('empty', { message: "The AI node could not extract any flashcards from this note." });
+  }
+  return cards.map((c: any) => ({ front: c.front, back: c.back }));
+};
+
+/**
+ * Transcribes a recorded dictation clip for browsers without
+ * SpeechRecognition. Returns the plain transcript; throws on failure.
+ */
+export const transcribeAudio = async (audio: { data: string, mimeType: string }, language: VoiceLanguage, config: AIProviderConfig): Promise<string> => {
+  const provider = createProvider(config);
+  const transcript = await withRetry(() => provider.transcribeAudio(audio, language), config);
+  if (!transcript) {
+    throw new AIError('empty', { message: "No speech was recognised in the recording." });
+  }
+  return transcript;
+};
+
+/**
+ * Synthesizes one chunk of plain text with the configured provider's voice.
+ * Callers are expected to chunk long text themselves (see speechService);
+ * throws on any failure.
+ */
+export const synthesizeSpeech = (text: string, config: AIProviderConfig): Promise<AudioBuffer> =>
+  createProvider(config).synthesizeSpeech(text);
+
+const studyPlanSchema = (subjects: string[]): JsonSchema => ({
+  type: 'object',
+  properties: {
+    sessions: {
+      type: 'array',
+      minItems: 5,
+      items: {
+        type: 'object',
+        properties: {
+          day: { type: 'string', enum: DAYS },
+          startTime: { type: 'string', description: "HH:mm, 24-hour", examples: ['17:00', '19:30', '09:00'] },
+          endTime: { type: 'string', description: "HH:mm, 24-hour", examples: ['18:00', '20:30', '10:30'] },
+          subject: { type: 'string', enum: subjects }
+        },
+        required: ['subject', 'day', 'startTime', 'endTime']
+      }
+    }
+  },
+  required: ['sessions']
+});
+
+/**
+ * Asks the AI provider for a weekly plan and validates it into
+ * StudySession[]. Throws on failure like generateQuiz; sessions that break
+ * the schedule rules are dropped and listed in `warnings`.
+ */
+export const generateStudyPlan = async (request: StudyPlanRequest, config: AIProviderConfig): Promise<{ sessions: StudySession[], warnings: string[] }> => {
+  const provider = createProvider(config);
+
+  return withRetry(async () => {
+    const response = await provider.generateJson({
+      system: "You are an academic planner for Thai medical entrance exam candidates. You output realistic, sustainable weekly timetables.",
+      messages: [{ role: 'user', text: buildStudyPlanPrompt(request) }],
+      temperature: 0.4,
+      schema: studyPlanSchema(Object.keys(request.weakness)),
+    });
+
+    const plan = finalizeStudyPlan(response, request);
+    if (plan.sessions.length === 0) {
+      throw new AIError('empty', { message: "The AI node could not produce a valid plan. Try allowing more hours." });
+    }
+    return plan;
+  }, config);
+};
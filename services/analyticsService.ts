@@ -0,0 +1,188 @@
+import { StudyLogEntry, StudySession, Subject } from "../types";
+import { DAYS } from "../constants";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// How far back missed schedule blocks are filled in after the app was away
+const MAX_BACKFILL_DAYS = 42;
+
+export const MAX_LOG_ENTRIES = 3000;
+
+export const sessionMinutes = (session: Pick<StudySession, 'startTime' | 'endTime'>) => {
+  const [sh, sm] = session.startTime.split(':').map(Number);
+  const [eh, em] = session.endTime.split(':').map(Number);
+  return Math.max(0, (eh * 60 + em) - (sh * 60 + sm));
+};
+
+// Monday 00:00 local time of the week containing `time`
+export const startOfWeek = (time: number) => {
+  const d = new Date(time);
+  d.setHours(0, 0, 0, 0);
+  const offset = d.getDay() === 0 ? 6 : d.getDay() - 1;
+  d.setDate(d.getDate() - offset);
+  return d.getTime();
+};
+
+const startOfDay = (time: number) => {
+  const d = new Date(time);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+// Only timer blocks count as "actual" study; schedule entries describe the plan
+const actualEntries = (entries: StudyLogEntry[]) => entries.filter(e => e.source === 'timer' && e.actualMinutes > 0);
+
+/**
+ * Hours studied per subject for each of the last `weeks` weeks, oldest first,
+ * shaped for a stacked recharts BarChart.
+ */
+export const weeklyHoursBySubject = (entries: StudyLogEntry[], subjects: Subject[], weeks: number = 6, now: number = Date.now()) => {
+  const firstWeek = startOfWeek(now) - (weeks - 1) * 7 * DAY_MS;
+  const rows = Array.from({ length: weeks }, (_, i) => {
+    const weekStart = firstWeek + i * 7 * DAY_MS;
+    const row: Record<string, number | string> = { name: new Date(weekStart).toLocaleDateString([], { day: 'numeric', month: 'short' }), weekStart };
+    subjects.forEach(s => { row[s] = 0; });
+    row.Unassigned = 0;
+    return row;
+  });
+
+  actualEntries(entries).forEach(e => {
+    const index = Math.round((startOfWeek(e.startedAt) - firstWeek) / (7 * DAY_MS));
+    if (index < 0 || index >= rows.length) return;
+    const key = e.subject || 'Unassigned';
+    rows[index][key] = Math.round(((Number(rows[index][key]) || 0) + e.actualMinutes / 60) * 100) / 100;
+  });
+  return rows;
+};
+
+/**
+ * Consecutive days (ending today, or yesterday if nothing yet today) with at
+ * least `minMinutes` of completed study. Also returns the longest run on record.
+ */
+export const computeStreak = (entries: StudyLogEntry[], now: number = Date.now(), minMinutes: number = 10) => {
+  const minutesByDay = new Map<number, number>();
+  actualEntries(entries).forEach(e => {
+    const day = startOfDay(e.startedAt);
+    minutesByDay.set(day, (minutesByDay.get(day) || 0) + e.actualMinutes);
+  });
+  const studiedDays = [...minutesByDay.entries()].filter(([, m]) => m >= minMinutes).map(([d]) => d).sort((a, b) => a - b);
+  const studied = new Set(studiedDays);
+
+  let current = 0;
+  let cursor = startOfDay(now);
+  if (!studied.has(cursor)) cursor = startOfDay(cursor - DAY_MS / 2);
+  while (studied.has(cursor)) {
+    current++;
+    cursor = startOfDay(cursor - DAY_MS / 2);
+  }
+
+  let longest = 0;
+  let run = 0;
+  let previous: number | null = null;
+  studiedDays.forEach(day => {
+    // Compare calendar days rather than raw ms so DST shifts do not break a run
+    run = previous !== null && startOfDay(previous + DAY_MS * 1.5) === day ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = day;
+  });
+
+  return { current, longest };
+};
+
+/**
+ * Planned minutes (from logged schedule blocks) against actual minutes (from
+ * timer blocks) per week, plus the completion rate of scheduled blocks.
+ */
+export const plannedVsActual = (entries: StudyLogEntry[], weeks: number = 6, now: number = Date.now()) => {
+  const currentWeek = startOfWeek(now);
+  return Array.from({ length: weeks }, (_, i) => {
+    const weekStart = currentWeek - (weeks - 1 - i) * 7 * DAY_MS;
+    const weekEnd = weekStart + 7 * DAY_MS;
+    const inWeek = entries.filter(e => e.startedAt >= weekStart && e.startedAt < weekEnd);
+    const scheduled = inWeek.filter(e => e.source === 'schedule');
+    const planned = scheduled.reduce((sum, e) => sum + e.plannedMinutes, 0);
+    const actual = actualEntries(inWeek).reduce((sum, e) => sum + e.actualMinutes, 0);
+    const completed = scheduled.filter(e => e.status === 'completed').length;
+    return {
+      name: new Date(weekStart).toLocaleDateString([], { day: 'numeric', month: 'short' }),
+      planned: Math.round(planned / 6) / 10,
+      actual: Math.round(actual / 6) / 10,
+      adherence: scheduled.length ? Math.round((completed / scheduled.length) * 100) : null
+    };
+  });
+};
+
+/**
+ * Minutes studied per calendar day for the last `weeks` weeks, as columns of
+ * seven days (Monday first) for a GitHub-style heatmap.
+ */
+export const dailyHeatmap = (entries: StudyLogEntry[], weeks: number = 12, now: number = Date.now()) => {
+  const firstWeek = startOfWeek(now) - (weeks - 1) * 7 * DAY_MS;
+  const minutesByDay = new Map<number, number>();
+  actualEntries(entries).forEach(e => {
+    const day = startOfDay(e.startedAt);
+    minutesByDay.set(day, (minutesByDay.get(day) || 0) + e.actualMinutes);
+  });
+
+  return Array.from({ length: weeks }, (_, w) =>
+    Array.from({ length: 7 }, (_, d) => {
+      const date = startOfDay(firstWeek + (w * 7 + d) * DAY_MS + DAY_MS / 2);
+      return { date, minutes: Math.round(minutesByDay.get(date) || 0), future: date > now };
+    })
+  );
+};
+
+/**
+ * Decides whether a scheduled session that ended at `endedAt` was actually studied,
+ * by looking for timer blocks that overlap its time window.
+ */
+export const resolveScheduledSession = (session: StudySession, entries: StudyLogEntry[], endedAt: number): StudyLogEntry => {
+  const plannedMinutes = sessionMinutes(session);
+  const startedAt = endedAt - plannedMinutes * 60 * 1000;
+  const overlapMinutes = actualEntries(entries)
+    .filter(e => e.subject === null || e.subject === session.subject)
+    .reduce((sum, e) => {
+      const overlap = Math.min(e.endedAt, endedAt) - Math.max(e.startedAt, startedAt);
+      return sum + Math.max(0, overlap) / 60000;
+    }, 0);
+  const actualMinutes = Math.round(Math.min(plannedMinutes, overlapMinutes));
+
+  return {
+    id: `log-${Math.random().toString(36).substr(2, 9)}`,
+    subject: session.subject,
+    source: 'schedule',
+    status: plannedMinutes > 0 && actualMinutes >= plannedMinutes / 2 ? 'completed' : 'skipped',
+    sessionId: session.id,
+    startedAt,
+    endedAt,
+    plannedMinutes,
+    actualMinutes
+  };
+};
+
+const localDateKey = (time: number) => {
+  const d = new Date(time);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+/** Identifies one dated occurrence of a weekly session, so it is logged at most once. */
+export const scheduleOccurrenceKey = (sessionId: string, endedAt: number) => `${sessionId}@${localDateKey(endedAt)}`;
+
+/**
+ * Occurrences of the weekly sessions whose end time fell in (since, now],
+ * oldest first, so blocks that ended while the app was closed or in the
+ * background still get logged.
+ */
+export const endedSessionsBetween = (sessions: StudySession[], since: number, now: number) => {
+  const from = Math.max(since, now - MAX_BACKFILL_DAYS * DAY_MS);
+  const ended: { session: StudySession, endedAt: number }[] = [];
+  for (let day = startOfDay(from); day <= now; day = startOfDay(day + DAY_MS * 1.5)) {
+    const weekday = DAYS[(new Date(day).getDay() + 6) % 7];
+    sessions.filter(s => s.day === weekday).forEach(session => {
+      const [h, m] = session.endTime.split(':').map(Number);
+      const end = new Date(day);
+      end.setHours(h, m, 0, 0);
+      if (end.getTime() > from && end.getTime() <= now) ended.push({ session, endedAt: end.getTime() });
+    });
+  }
+  return ended.sort((a, b) => a.endedAt - b.endedAt);
+};
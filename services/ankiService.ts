@@ -0,0 +1,376 @@
+import { unzipSync, zipSync, strToU8 } from "fflate";
+import type { SqlJsStatic } from "sql.js";
+import { Flashcard, SavedNote, Subject, SubjectDefinition } from "../types";
+import { subjectInfo } from "./subjectService";
+import { suggestNoteTitle, normalizeTags } from "./noteService";
+
+// One Anki note: fields are HTML, as Anki stores them
+export interface AnkiRow {
+  guid: string;
+  front: string;
+  back: string;
+  deck: string;
+  tags: string[];
+}
+
+// A note read from a deck, with fields already converted to Markdown
+export interface ImportedAnkiNote {
+  guid?: string;
+  deck: string;
+  front: string;
+  back: string;
+  tags: string[];
+}
+
+// Stable ids so re-importing an export updates the same Anki note type and notes instead of duplicating them
+const MODEL_ID = 1718203425190;
+const NOTE_GUID_PREFIX = 'medquest-note-';
+const CARD_GUID_PREFIX = 'medquest-card-';
+const DECK_ROOT = 'MedQuest';
+
+export const ankiDeckName = (subjectName: string) => `${DECK_ROOT}::${subjectName.replace(/::/g, ':')}`;
+
+// Anki tags cannot contain spaces
+const ankiTag = (tag: string) => tag.trim().replace(/\s+/g, '_');
+
+const escapeHtml = (text: string) => text.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c]!));
+
+/** One Anki note per Vault note: the title on the front, the rendered note on the back. */
+export const ankiRowsFromNotes = (notes: SavedNote[], subjects: SubjectDefinition[], toHtml: (markdown: string) => string): AnkiRow[] =>
+  notes.map(n => ({
+    guid: `${NOTE_GUID_PREFIX}${n.id}`,
+    front: escapeHtml(n.title),
+    back: toHtml(n.content),
+    deck: ankiDeckName(subjectInfo(subjects, n.subject).name),
+    tags: [...n.tags, subjectInfo(subjects, n.subject).name].map(ankiTag),
+  }));
+
+/** Flashcards keep their own front and back and take their tags from the note they were made from. */
+export const ankiRowsFromFlashcards = (cards: Flashcard[], notes: SavedNote[], subjects: SubjectDefinition[], toHtml: (markdown: string) => string): AnkiRow[] =>
+  cards.map(c => ({
+    guid: `${CARD_GUID_PREFIX}${c.id}`,
+    front: toHtml(c.front),
+    back: toHtml(c.back),
+    deck: ankiDeckName(subjectInfo(subjects, c.subject).name),
+    tags: [...(notes.find(n => n.id === c.noteId)?.tags || []), subjectInfo(subjects, c.subject).name].map(ankiTag),
+  }));
+
+const csvField = (value: string) => /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/** CSV with Anki's file headers, so Anki picks the deck, tags and duplicate handling up without manual mapping. */
+export const exportAnkiCsv = (rows: AnkiRow[]) => [
+  '#separator:Comma',
+  '#html:true',
+  '#guid column:1',
+  '#deck column:4',
+  '#tags column:5',
+  ...rows.map(r => [r.guid, r.front, r.back, r.deck, r.tags.join(' ')].map(csvField).join(',')),
+].join('\n');
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+// SQLite (as WebAssembly) is only downloaded the first time a package is read or written
+const loadSqlJs = () => sqlJs ??= Promise.all([import('sql.js'), import('sql.js/dist/sql-wasm.wasm?url')])
+  .then(([{ default: initSqlJs }, { default: wasmUrl }]) => initSqlJs({ locateFile: () => wasmUrl }))
+  .catch(e => {
+    sqlJs = null;
+    throw e;
+  });
+
+// Legacy collection schema (version 11), which every Anki release since 2.1 can import
+const COLLECTION_SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const deckJson = (id: number, name: string, now: number) => ({
+  id, name, mod: Math.floor(now / 1000), usn: -1, desc: '', dyn: 0, conf: 1, collapsed: false, browserCollapsed: false,
+  extendNew: 10, extendRev: 50, newToday: [0, 0], revToday: [0, 0], lrnToday: [0, 0], timeToday: [0, 0],
+});
+
+const modelJson = (deckId: number, now: number) => ({
+  id: MODEL_ID,
+  name: 'MedQuest Basic',
+  type: 0,
+  mod: Math.floor(now / 1000),
+  usn: -1,
+  sortf: 0,
+  did: deckId,
+  tmpls: [{ name: 'Card 1', ord: 0, qfmt: '{{Front}}', afmt: '{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}', did: null, bqfmt: '', bafmt: '' }],
+  flds: ['Front', 'Back'].map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+  css: '.card { font-family: arial; font-size: 18px; text-align: left; color: black; background-color: white; }\ntable { border-collapse: collapse; }\ntd, th { border: 1px solid #ccc; padding: 4px 8px; }',
+  latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+  latexPost: '\\end{document}',
+  tags: [],
+  vers: [],
+  req: [[0, 'all', [0]]],
+});
+
+const DECK_CONFIG = {
+  1: {
+    id: 1, name: 'Default', mod: 0, usn: 0, dyn: false, autoplay: true, replayq: true, timer: 0, maxTaken: 60,
+    new: { bury: true, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 7], order: 1, perDay: 20, separate: true },
+    rev: { bury: true, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, minSpace: 1, perDay: 100 },
+    lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 },
+  },
+};
+
+const stripHtml = (html: string) => html.replace(/<[^>]+>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Anki's duplicate check: the first 8 hex digits of the SHA-1 of the stripped sort field
+const fieldChecksum = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  return parseInt(Array.from(new Uint8Array(digest).slice(0, 4)).map(b => b.toString(16).padStart(2, '0')).join(''), 16);
+};
+
+/** Builds an .apkg (a zipped SQLite collection) with one deck per subject and every card new. */
+export const exportAnkiPackage = async (rows: AnkiRow[], now: number = Date.now()): Promise<Uint8Array> => {
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database();
+  try {
+    db.run(COLLECTION_SCHEMA);
+    const deckIds = new Map<string, number>();
+    const decks: Record<number, object> = { 1: deckJson(1, 'Default', now) };
+    Array.from(new Set(rows.map(r => r.deck))).forEach((name, i) => {
+      const id = now + i;
+      deckIds.set(name, id);
+      decks[id] = deckJson(id, name, now);
+    });
+    const firstDeck = deckIds.values().next().value ?? 1;
+    const conf = { activeDecks: [1], curDeck: 1, newSpread: 0, collapseTime: 1200, timeLim: 0, estTimes: true, dueCounts: true, curModel: MODEL_ID, nextPos: rows.length + 1, sortType: 'noteFld', sortBackwards: false, addToCur: true };
+    const dayStart = new Date(now);
+    dayStart.setHours(0, 0, 0, 0);
+    db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      Math.floor(dayStart.getTime() / 1000), now, now,
+      JSON.stringify(conf), JSON.stringify({ [MODEL_ID]: modelJson(firstDeck, now) }), JSON.stringify(decks), JSON.stringify(DECK_CONFIG), '{}',
+    ]);
+
+    for (const [i, row] of rows.entries()) {
+      // Anki ids are millisecond timestamps; consecutive values keep them unique within the package
+      const id = now + i;
+      const sortField = stripHtml(row.front);
+      db.run("INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, '')", [
+        id, row.guid, MODEL_ID, Math.floor(now / 1000), row.tags.length ? ` ${row.tags.join(' ')} ` : '', `${row.front}\x1f${row.back}`, sortField, await fieldChecksum(sortField),
+      ]);
+      db.run("INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, '')", [
+        id, id, deckIds.get(row.deck) ?? 1, Math.floor(now / 1000), i + 1,
+      ]);
+    }
+    return zipSync({ 'collection.anki2': db.export(), media: strToU8('{}') });
+  } finally {
+    db.close();
+  }
+};
+
+const decodeEntities = (text: string) => text
+  .replace(/&nbsp;/g, ' ')
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&#39;|&apos;/g, "'")
+  .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+  .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+  .replace(/&amp;/g, '&');
+
+/**
+ * Converts an Anki field to Markdown: basic formatting and line breaks are
+ * kept, MathJax and [$] LaTeX become $…$ for KaTeX, cloze deletions are
+ * shown in bold, and media references are dropped because media is not
+ * imported.
+ */
+export const ankiHtmlToMarkdown = (html: string) => decodeEntities(html
+  .replace(/\r\n/g, '\n')
+  .replace(/\[sound:[^\]]*\]/g, '')
+  .replace(/<img[^>]*>/gi, '')
+  .replace(/<br\s*\/?>/gi, '\n')
+  .replace(/<li[^>]*>/gi, '\n- ')
+  .replace(/<\/(div|p|h[1-6]|tr|ul|ol)>/gi, '\n')
+  .replace(/<(b|strong)(\s[^>]*)?>([\s\S]*?)<\/\1>/gi, (_, _tag, _attrs, inner) => `**${inner}**`)
+  .replace(/<(i|em)(\s[^>]*)?>([\s\S]*?)<\/\1>/gi, (_, _tag, _attrs, inner) => `*${inner}*`)
+  .replace(/<[^>]+>/g, ''))
+  .replace(/\\\(([\s\S]+?)\\\)/g, (_, math) => `$${math.trim()}$`)
+  .replace(/\\\[([\s\S]+?)\\\]/g, (_, math) => `\n$$\n${math.trim()}\n$$\n`)
+  .replace(/\[\$\]([\s\S]+?)\[\/\$\]/g, (_, math) => `$${math.trim()}$`)
+  .replace(/\[\$\$\]([\s\S]+?)\[\/\$\$\]/g, (_, math) => `\n$$\n${math.trim()}\n$$\n`)
+  .replace(/\{\{c\d+::([\s\S]*?)(::[^}]*)?\}\}/g, (_, answer) => `**${answer}**`)
+  .replace(/[ \t]+\n/g, '\n')
+  .replace(/\n{3,}/g, '\n\n')
+  .trim();
+
+const SEPARATORS: Record<string, string> = { tab: '\t', comma: ',', semicolon: ';', space: ' ', pipe: '|', colon: ':' };
+
+// RFC 4180 style: quoted fields may contain separators, doubled quotes and line breaks
+const parseDelimited = (text: string, separator: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"' && field === '') {
+      quoted = true;
+    } else if (c === separator) {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length) rows.push([...row, field]);
+  return rows.filter(r => r.some(f => f.trim()));
+};
+
+/**
+ * Reads Anki's "Notes in Plain Text" export or a CSV. Honours the file
+ * headers Anki writes (#separator, #html, #deck column, #tags column,
+ * #guid column, #notetype column); the first two remaining columns are the
+ * front and back.
+ */
+export const parseAnkiText = (text: string): ImportedAnkiNote[] => {
+  const lines = text.replace(/^\uFEFF/, '').split('\n');
+  const headers: Record<string, string> = {};
+  let start = 0;
+  while (start < lines.length && lines[start].startsWith('#')) {
+    const header = /^#([^:]+):(.*)$/.exec(lines[start].trim());
+    if (header) headers[header[1].trim().toLowerCase()] = header[2].trim();
+    start++;
+  }
+  const body = lines.slice(start).join('\n');
+  const declared = headers.separator?.toLowerCase();
+  const separator = declared ? SEPARATORS[declared] || declared : (lines[start] || '').includes('\t') ? '\t' : ',';
+  const column = (name: string) => headers[`${name} column`] ? Number(headers[`${name} column`]) - 1 : -1;
+  const deckColumn = column('deck');
+  const tagsColumn = column('tags');
+  const guidColumn = column('guid');
+  const metaColumns = new Set([deckColumn, tagsColumn, guidColumn, column('notetype')]);
+  const isHtml = headers.html !== 'false';
+
+  const rows = parseDelimited(body, separator);
+  if (rows.length === 0) throw new Error("The file does not contain any notes.");
+  return rows.flatMap(row => {
+    const fields = row.filter((_, i) => !metaColumns.has(i)).map(f => isHtml ? ankiHtmlToMarkdown(f) : f.trim());
+    if (!fields[0]) return [];
+    return [{
+      ...(guidColumn >= 0 && row[guidColumn] ? { guid: row[guidColumn] } : {}),
+      deck: (deckColumn >= 0 && row[deckColumn]) || headers.deck || '',
+      front: fields[0],
+      back: fields.slice(1).filter(Boolean).join('\n\n'),
+      tags: [...(headers.tags ? headers.tags.split(/\s+/) : []), ...(tagsColumn >= 0 && row[tagsColumn] ? row[tagsColumn].split(/\s+/) : [])].filter(Boolean),
+    }];
+  });
+};
+
+/** Reads the notes of an .apkg. Media files are ignored; scheduling data is not imported. */
+export const readAnkiPackage = async (data: Uint8Array): Promise<ImportedAnkiNote[]> => {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(data, { filter: file => file.name.startsWith('collection.') });
+  } catch (e) {
+    throw new Error("This file is not an Anki package.");
+  }
+  // Current Anki writes a zstd-compressed anki21b next to a placeholder anki2 that only says "please update"
+  if (files['collection.anki21b'] && !files['collection.anki21']) {
+    throw new Error('This deck uses the newest Anki package format. In Anki, export it again with "Support older Anki versions" ticked.');
+  }
+  const collection = files['collection.anki21'] || files['collection.anki2'];
+  if (!collection) throw new Error("This file is not an Anki package.");
+
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database(collection);
+  try {
+    const deckNames = new Map<number, string>();
+    const storedDecks = db.exec('SELECT decks FROM col')[0]?.values[0]?.[0];
+    Object.values(JSON.parse(typeof storedDecks === 'string' && storedDecks ? storedDecks : '{}') as Record<string, { id: number, name: string }>)
+      .forEach(d => deckNames.set(Number(d.id), d.name));
+    // Newer collections keep decks in their own table with \x1f between levels
+    if (deckNames.size === 0 && db.exec("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'decks'").length > 0) {
+      db.exec('SELECT id, name FROM decks')[0]?.values.forEach(([id, name]) => deckNames.set(Number(id), String(name).replace(/\x1f/g, '::')));
+    }
+
+    const rows = db.exec('SELECT n.guid, n.tags, n.flds, (SELECT c.did FROM cards c WHERE c.nid = n.id ORDER BY c.ord LIMIT 1) FROM notes n ORDER BY n.id')[0]?.values || [];
+    const notes = rows.flatMap(([guid, tags, flds, deckId]): ImportedAnkiNote[] => {
+      const fields = String(flds).split('\x1f').map(ankiHtmlToMarkdown);
+      if (!fields[0]) return [];
+      return [{
+        guid: String(guid),
+        deck: deckNames.get(Number(deckId)) || '',
+        front: fields[0],
+        back: fields.slice(1).filter(Boolean).join('\n\n'),
+        tags: String(tags).split(/\s+/).filter(Boolean),
+      }];
+    });
+    if (notes.length === 0) throw new Error("The package does not contain any notes.");
+    return notes;
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * Suggests a subject for a deck from its name ("MedQuest::Chemistry",
+ * "Biology::Cells"), checking the deepest level first, then the notes' tags.
+ */
+export const matchDeckSubject = (deck: string, tags: string[], subjects: SubjectDefinition[]): Subject | null => {
+  const candidates = [...deck.split('::').reverse(), ...tags.map(t => t.replace(/_/g, ' '))].map(c => c.trim().toLowerCase());
+  for (const candidate of candidates) {
+    const subject = subjects.find(s => s.id.toLowerCase() === candidate || s.name.toLowerCase() === candidate);
+    if (subject) return subject.id;
+  }
+  return null;
+};
+
+/**
+ * Turns imported Anki notes into Vault notes, the deck deciding the subject.
+ * Entries that came from a MedQuest export of a note or flashcard that still
+ * exists are skipped, so a round trip does not duplicate them.
+ */
+export const ankiNotesToSavedNotes = (imported: ImportedAnkiNote[], deckSubjects: Record<string, Subject>, subjects: SubjectDefinition[], existing: SavedNote[], existingCards: Flashcard[], now: number = Date.now()) => {
+  const existingIds = new Set(existing.map(n => n.id));
+  const existingCardIds = new Set(existingCards.map(c => c.id));
+  const notes: SavedNote[] = [];
+  let skipped = 0;
+  imported.forEach(item => {
+    const isKnownNote = item.guid?.startsWith(NOTE_GUID_PREFIX) && existingIds.has(item.guid.slice(NOTE_GUID_PREFIX.length));
+    const isKnownCard = item.guid?.startsWith(CARD_GUID_PREFIX) && existingCardIds.has(item.guid.slice(CARD_GUID_PREFIX.length));
+    if (isKnownNote || isKnownCard) {
+      skipped++;
+      return;
+    }
+    const subject = deckSubjects[item.deck];
+    // Export tags notes with the subject's display name, so both it and the id are dropped
+    const subjectTags = new Set([subject, subjectInfo(subjects, subject).name].map(t => t.replace(/_/g, ' ').toLowerCase()));
+    // Sub-decks (e.g. "Cells" in "Biology::Cells") become tags; the subject itself and Anki's own markers do not
+    const tags = [...item.tags, ...item.deck.split('::').slice(1)]
+      .map(t => t.replace(/_/g, ' '))
+      .filter(t => !/^(marked|leech)$/i.test(t) && !subjectTags.has(t.toLowerCase()));
+    notes.push({
+      id: Math.random().toString(36).substr(2, 9),
+      subject,
+      title: suggestNoteTitle(item.front),
+      tags: normalizeTags(tags),
+      content: item.back ? `${item.front}\n\n---\n\n${item.back}` : item.front,
+      timestamp: now,
+    });
+  });
+  return { notes, skipped };
+};
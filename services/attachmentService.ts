@@ -0,0 +1,76 @@
+import { ChatAttachment } from "../types";
+
+export const MAX_ATTACHMENTS = 4;
+export const MAX_ATTACHMENT_BYTES = 8 * 1024 * 1024;
+const MAX_IMAGE_EDGE = 1600;
+const ACCEPTED_TYPES = /^(image\/(png|jpeg|webp|heic|heif)|application\/pdf)$/;
+
+export const ATTACHMENT_ACCEPT = 'image/png,image/jpeg,image/webp,image/heic,image/heif,application/pdf';
+
+const readAsDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+const stripDataUrl = (dataUrl: string) => dataUrl.slice(dataUrl.indexOf(',') + 1);
+
+// Phone photos of past papers are often 12MP+; shrink them so they fit in a request and in IndexedDB
+const downscaleImage = async (file: File): Promise<{ data: string, mimeType: string }> => {
+  const dataUrl = await readAsDataUrl(file);
+  const image = new Image();
+  const loaded = new Promise<void>((resolve, reject) => {
+    image.onload = () => resolve();
+    image.onerror = () => reject(new Error(`Could not decode ${file.name}.`));
+  });
+  image.src = dataUrl;
+
+  try {
+    await loaded;
+  } catch (e) {
+    // Formats the browser cannot draw (e.g. HEIC outside Safari) go up unchanged
+    return { data: stripDataUrl(dataUrl), mimeType: file.type };
+  }
+
+  const scale = Math.min(1, MAX_IMAGE_EDGE / Math.max(image.naturalWidth, image.naturalHeight));
+  if (scale === 1 && file.size < 1024 * 1024) {
+    return { data: stripDataUrl(dataUrl), mimeType: file.type };
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.naturalWidth * scale);
+  canvas.height = Math.round(image.naturalHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return { data: stripDataUrl(dataUrl), mimeType: file.type };
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return { data: stripDataUrl(canvas.toDataURL('image/jpeg', 0.85)), mimeType: 'image/jpeg' };
+};
+
+/**
+ * Reads a picked or captured file into a ChatAttachment with base64 data,
+ * ready to be sent as an inlineData part. Throws with a readable message for
+ * unsupported or oversized files.
+ */
+export const readAttachment = async (file: File): Promise<ChatAttachment> => {
+  if (!ACCEPTED_TYPES.test(file.type)) {
+    throw new Error(`${file.name}: only images and PDFs can be attached.`);
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new Error(`${file.name} is larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB.`);
+  }
+
+  const { data, mimeType } = file.type === 'application/pdf'
+    ? { data: stripDataUrl(await readAsDataUrl(file)), mimeType: file.type }
+    : await downscaleImage(file);
+
+  return {
+    id: `file-${Math.random().toString(36).substr(2, 9)}`,
+    name: file.name || (mimeType === 'application/pdf' ? 'document.pdf' : 'photo.jpg'),
+    mimeType,
+    data,
+    size: Math.round(data.length * 0.75)
+  };
+};
+
+export const attachmentDataUrl = (attachment: ChatAttachment) => `data:${attachment.mimeType};base64,${attachment.data}`;
@@ -0,0 +1,249 @@
+import { compileExpression } from "./mathExpression";
+
+// Version 1 is the original single-series shape ({type, data, xKey, yKey})
+export const CHART_SPEC_VERSION = 2;
+
+const MAX_ROWS = 500;
+const MAX_SERIES = 8;
+const DEFAULT_SAMPLES = 200;
+const MAX_SAMPLES = 1000;
+
+export const CHART_COLORS = ['#2563eb', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#14b8a6', '#64748b'];
+
+const CATEGORY_TYPES = ['bar', 'line', 'area', 'pie'] as const;
+const XY_TYPES = ['scatter', 'function'] as const;
+
+export interface ChartAxis {
+  label?: string;
+  unit?: string;
+  min?: number;
+  max?: number;
+}
+
+export interface ChartPoint {
+  x: number;
+  y: number;
+}
+
+export interface LinearFit {
+  slope: number;
+  intercept: number;
+  r2: number;
+}
+
+export interface CategorySeries {
+  key: string;
+  name: string;
+  color: string;
+}
+
+// Every xy series is drawn from points: measured (scatter) or sampled from an expression (line).
+// Sampled points have y = null where the function is undefined or off the y range, which breaks the line.
+export interface XYSeries {
+  name: string;
+  color: string;
+  points: { x: number, y: number | null }[];
+  line: boolean;
+  fit?: LinearFit & { points: ChartPoint[] };
+}
+
+export type ChartSpec =
+  | { kind: 'category', type: typeof CATEGORY_TYPES[number], title?: string, xKey: string, x: ChartAxis, y: ChartAxis, series: CategorySeries[], data: Record<string, unknown>[], stacked: boolean }
+  | { kind: 'xy', title?: string, x: ChartAxis, y: ChartAxis, series: XYSeries[] };
+
+const isObject = (value: unknown): value is Record<string, any> => !!value && typeof value === 'object' && !Array.isArray(value);
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const optionalString = (value: unknown, path: string) => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') throw new Error(`${path} must be text`);
+  return value.trim() || undefined;
+};
+
+const readAxis = (raw: unknown, path: string): ChartAxis => {
+  if (raw === undefined || raw === null) return {};
+  if (typeof raw === 'string') return { label: raw.trim() || undefined };
+  if (!isObject(raw)) throw new Error(`${path} must be an object like {"label": "Time", "unit": "s"}`);
+  const axis: ChartAxis = { label: optionalString(raw.label, `${path}.label`), unit: optionalString(raw.unit, `${path}.unit`) };
+  (['min', 'max'] as const).forEach(bound => {
+    if (raw[bound] === undefined || raw[bound] === null) return;
+    if (!isNumber(raw[bound])) throw new Error(`${path}.${bound} must be a number`);
+    axis[bound] = raw[bound];
+  });
+  if (axis.min !== undefined && axis.max !== undefined && axis.min >= axis.max) {
+    throw new Error(`${path}.min (${axis.min}) must be less than ${path}.max (${axis.max})`);
+  }
+  return axis;
+};
+
+const colorAt = (raw: unknown, index: number) =>
+  typeof raw === 'string' && /^#[0-9a-f]{3,8}$/i.test(raw) ? raw : CHART_COLORS[index % CHART_COLORS.length];
+
+/** Least-squares line through the points; null when x never varies. */
+export const linearFit = (points: ChartPoint[]): LinearFit | null => {
+  const n = points.length;
+  if (n < 2) return null;
+  const meanX = points.reduce((s, p) => s + p.x, 0) / n;
+  const meanY = points.reduce((s, p) => s + p.y, 0) / n;
+  let sxx = 0, sxy = 0, syy = 0;
+  points.forEach(p => {
+    sxx += (p.x - meanX) ** 2;
+    sxy += (p.x - meanX) * (p.y - meanY);
+    syy += (p.y - meanY) ** 2;
+  });
+  if (sxx === 0) return null;
+  const slope = sxy / sxx;
+  return { slope, intercept: meanY - slope * meanX, r2: syy === 0 ? 1 : (sxy * sxy) / (sxx * syy) };
+};
+
+const readCategoryChart = (raw: Record<string, any>, type: typeof CATEGORY_TYPES[number], legacy: boolean): ChartSpec => {
+  if (!Array.isArray(raw.data) || raw.data.length === 0) throw new Error(`"data" must be a non-empty array of rows`);
+  if (raw.data.length > MAX_ROWS) throw new Error(`"data" has ${raw.data.length} rows; the limit is ${MAX_ROWS}`);
+  const badRow = raw.data.findIndex((row: unknown) => !isObject(row));
+  if (badRow >= 0) throw new Error(`data[${badRow}] must be an object like {"name": "A", "value": 3}`);
+
+  const x = readAxis(raw.x, 'x');
+  const xKey = optionalString(legacy ? raw.xKey : (isObject(raw.x) ? raw.x.key : undefined) ?? raw.xKey, 'x.key') || 'name';
+  const rawSeries: unknown[] = legacy || raw.series === undefined
+    ? [{ key: optionalString(raw.yKey, 'yKey') || 'value' }]
+    : raw.series;
+  if (!Array.isArray(rawSeries) || rawSeries.length === 0) throw new Error(`"series" must be a non-empty array like [{"key": "speed", "name": "Car A"}]`);
+  if (rawSeries.length > MAX_SERIES) throw new Error(`"series" has ${rawSeries.length} entries; the limit is ${MAX_SERIES}`);
+  if (type === 'pie' && rawSeries.length > 1) throw new Error(`a pie chart takes exactly one series, got ${rawSeries.length}`);
+
+  const series = rawSeries.map((s, i) => {
+    const entry = typeof s === 'string' ? { key: s } : s;
+    if (!isObject(entry) || typeof entry.key !== 'string' || !entry.key) throw new Error(`series[${i}] needs a "key" naming a field of each data row`);
+    const missing = raw.data.findIndex((row: Record<string, unknown>) => row[entry.key] !== undefined && row[entry.key] !== null && !isNumber(row[entry.key]));
+    if (missing >= 0) throw new Error(`data[${missing}].${entry.key} must be a number, got ${JSON.stringify(raw.data[missing][entry.key])}`);
+    if (!raw.data.some((row: Record<string, unknown>) => isNumber(row[entry.key]))) throw new Error(`no data row has a numeric "${entry.key}" for series[${i}]`);
+    return { key: entry.key, name: optionalString(entry.name, `series[${i}].name`) || entry.key, color: colorAt(entry.color, i) };
+  });
+  const unlabeled = raw.data.findIndex((row: Record<string, unknown>) => row[xKey] === undefined);
+  if (unlabeled >= 0) throw new Error(`data[${unlabeled}] has no "${xKey}" field for the x axis`);
+
+  return {
+    kind: 'category',
+    type,
+    title: optionalString(raw.title, 'title'),
+    xKey,
+    x,
+    y: readAxis(raw.y, 'y'),
+    series,
+    data: raw.data,
+    stacked: raw.stacked === true,
+  };
+};
+
+const readPoints = (raw: unknown, path: string): ChartPoint[] => {
+  if (!Array.isArray(raw) || raw.length === 0) throw new Error(`${path} must be a non-empty array of [x, y] pairs`);
+  if (raw.length > MAX_ROWS) throw new Error(`${path} has ${raw.length} points; the limit is ${MAX_ROWS}`);
+  return raw.map((p, i) => {
+    const point = Array.isArray(p) ? { x: p[0], y: p[1] } : isObject(p) ? { x: p.x, y: p.y } : null;
+    if (!point || !isNumber(point.x) || !isNumber(point.y)) throw new Error(`${path}[${i}] must be [x, y] or {"x": .., "y": ..} with numbers, got ${JSON.stringify(p)}`);
+    return point;
+  });
+};
+
+const sampleExpression = (expression: string, path: string, min: number, max: number, samples: number, yAxis: ChartAxis) => {
+  let fn: (x: number) => number;
+  try {
+    fn = compileExpression(expression);
+  } catch (e: any) {
+    throw new Error(`${path} "${expression}": ${e.message}`);
+  }
+  const raw = Array.from({ length: samples }, (_, i) => {
+    const x = min + (max - min) * (i / (samples - 1));
+    return { x: Math.round(x * 1e6) / 1e6, y: fn(x) };
+  });
+  const finite = raw.map(p => p.y).filter(Number.isFinite).sort((a, b) => a - b);
+  if (finite.length === 0) throw new Error(`${path} "${expression}" has no real values between x = ${min} and ${max}`);
+
+  // Without an explicit y range, clip far outside the bulk of the values so a pole (tan at pi/2) does not flatten the curve
+  const p5 = finite[Math.floor(finite.length * 0.05)];
+  const p95 = finite[Math.ceil(finite.length * 0.95) - 1];
+  const spread = p95 - p5 || Math.abs(p95) || 1;
+  const low = yAxis.min ?? p5 - spread;
+  const high = yAxis.max ?? p95 + spread;
+  // Domain errors (sqrt of negatives) and clipped values become gaps in the line
+  return raw.map(p => ({ x: p.x, y: Number.isFinite(p.y) && p.y >= low && p.y <= high ? p.y : null }));
+};
+
+const readXYChart = (raw: Record<string, any>, type: typeof XY_TYPES[number]): ChartSpec => {
+  const x = readAxis(raw.x, 'x');
+  const y = readAxis(raw.y, 'y');
+  const samples = raw.samples === undefined ? DEFAULT_SAMPLES : raw.samples;
+  if (!Number.isInteger(samples) || samples < 2 || samples > MAX_SAMPLES) throw new Error(`"samples" must be a whole number from 2 to ${MAX_SAMPLES}`);
+
+  // "functions" is accepted as shorthand for expression-only series
+  const rawSeries: unknown[] = raw.series ?? raw.functions;
+  if (!Array.isArray(rawSeries) || rawSeries.length === 0) {
+    throw new Error(type === 'function'
+      ? `"series" must list functions like [{"expr": "sin(x)"}] with x.min and x.max`
+      : `"series" must list point sets like [{"name": "Trial 1", "points": [[0, 1], [1, 3]]}]`);
+  }
+  if (rawSeries.length > MAX_SERIES) throw new Error(`"series" has ${rawSeries.length} entries; the limit is ${MAX_SERIES}`);
+
+  const series = rawSeries.map((s, i): XYSeries => {
+    const path = `series[${i}]`;
+    const entry = typeof s === 'string' ? { expr: s } : s;
+    if (!isObject(entry)) throw new Error(`${path} must be an object`);
+    const color = colorAt(entry.color, i);
+    if (entry.expr !== undefined) {
+      if (typeof entry.expr !== 'string') throw new Error(`${path}.expr must be text like "x^2 - 1"`);
+      if (x.min === undefined || x.max === undefined) throw new Error(`${path}.expr needs a range: set "x": {"min": .., "max": ..}`);
+      return { name: optionalString(entry.name, `${path}.name`) || `y = ${entry.expr.replace(/^\s*y\s*=\s*/i, '')}`, color, points: sampleExpression(entry.expr, `${path}.expr`, x.min, x.max, samples, y), line: true };
+    }
+    const points = readPoints(entry.points ?? entry.data, `${path}.points`);
+    const wantsFit = entry.regression === true || entry.regression === 'linear';
+    if (entry.regression !== undefined && entry.regression !== false && !wantsFit) throw new Error(`${path}.regression must be "linear"`);
+    const fit = wantsFit ? linearFit(points) : null;
+    if (wantsFit && !fit) throw new Error(`${path}.regression needs at least two points with different x values`);
+    const xs = points.map(p => p.x);
+    const from = x.min ?? Math.min(...xs);
+    const to = x.max ?? Math.max(...xs);
+    return {
+      name: optionalString(entry.name, `${path}.name`) || `Series ${i + 1}`,
+      color,
+      points,
+      line: entry.line === true,
+      fit: fit ? { ...fit, points: [{ x: from, y: fit.slope * from + fit.intercept }, { x: to, y: fit.slope * to + fit.intercept }] } : undefined,
+    };
+  });
+
+  return { kind: 'xy', title: optionalString(raw.title, 'title'), x, y, series };
+};
+
+/**
+ * Parses and validates a ```chart block. Throws an Error whose message
+ * names the offending field (e.g. `series[1].points[3] must be [x, y]`)
+ * so the renderer can show it in place of the chart.
+ */
+export const parseChartSpec = (source: string): ChartSpec => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(source);
+  } catch (e: any) {
+    throw new Error(`not valid JSON (${e?.message || 'parse error'})`);
+  }
+  if (!isObject(raw)) throw new Error(`the block must be a JSON object with a "type"`);
+
+  // Models often drop the version; only the original shape is read as v1 then
+  const version = raw.version ?? (raw.series !== undefined || raw.functions !== undefined || (XY_TYPES as readonly unknown[]).includes(raw.type) ? CHART_SPEC_VERSION : 1);
+  if (version !== 1 && version !== CHART_SPEC_VERSION) throw new Error(`unsupported chart version ${JSON.stringify(raw.version)}; use ${CHART_SPEC_VERSION}`);
+  const type = raw.type;
+  if ((CATEGORY_TYPES as readonly unknown[]).includes(type)) return readCategoryChart(raw, type, version === 1);
+  if ((XY_TYPES as readonly unknown[]).includes(type)) {
+    if (version === 1) throw new Error(`"${type}" charts need "version": ${CHART_SPEC_VERSION}`);
+    return readXYChart(raw, type);
+  }
+  throw new Error(`unknown "type" ${JSON.stringify(type)}; expected one of ${[...CATEGORY_TYPES, ...XY_TYPES].join(', ')}`);
+};
+
+export const axisTitle = (axis: ChartAxis) =>
+  axis.label ? (axis.unit ? `${axis.label} (${axis.unit})` : axis.label) : axis.unit ? `(${axis.unit})` : undefined;
+
+export const formatFit = (fit: LinearFit) => {
+  const round = (v: number) => Number(v.toPrecision(3));
+  const sign = fit.intercept < 0 ? '−' : '+';
+  return `y = ${round(fit.slope)}x ${sign} ${Math.abs(round(fit.intercept))} (R² = ${fit.r2.toFixed(3)})`;
+};
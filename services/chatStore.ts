@@ -0,0 +1,135 @@
+import { Conversation, Subject } from "../types";
+
+const DB_NAME = 'med_quest_v5_chats';
+const DB_VERSION = 1;
+const STORE = 'conversations';
+
+// Keep the store well below browser quotas; the least recently updated conversations go first
+export const MAX_CONVERSATIONS = 150;
+export const MAX_STORE_BYTES = 15 * 1024 * 1024;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available in this browser."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          const store = db.createObjectStore(STORE, { keyPath: 'id' });
+          store.createIndex('subject', 'subject');
+          store.createIndex('updatedAt', 'updatedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed (e.g. private mode)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const runRequest = <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) =>
+  openDb().then(db => new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = fn(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  }));
+
+const estimateSize = (conversation: Conversation) => JSON.stringify(conversation).length * 2;
+
+// Running size per conversation, so a save only lists the store when it is actually over a
+// limit. Filled by one scan on first use and kept current by saves and deletes.
+let usagePromise: Promise<{ sizes: Map<string, number>, bytes: number }> | null = null;
+
+const loadUsage = () => {
+  if (!usagePromise) {
+    usagePromise = runRequest<Conversation[]>('readonly', store => store.getAll()).then(all => {
+      const sizes = new Map(all.map(c => [c.id, estimateSize(c)] as const));
+      return { sizes, bytes: Array.from(sizes.values()).reduce((sum, size) => sum + size, 0) };
+    });
+    usagePromise.catch(() => { usagePromise = null; });
+  }
+  return usagePromise;
+};
+
+const trackSize = async (id: string, size: number | null) => {
+  const usage = await loadUsage();
+  usage.bytes += (size ?? 0) - (usage.sizes.get(id) ?? 0);
+  if (size === null) usage.sizes.delete(id);
+  else usage.sizes.set(id, size);
+  return usage;
+};
+
+export const listConversations = async (subject?: Subject): Promise<Conversation[]> => {
+  const all = await runRequest<Conversation[]>('readonly', store =>
+    subject ? store.index('subject').getAll(subject) : store.getAll()
+  );
+  return all.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getConversation = (id: string) =>
+  runRequest<Conversation | undefined>('readonly', store => store.get(id));
+
+export const deleteConversation = async (id: string) => {
+  await runRequest<undefined>('readwrite', store => store.delete(id));
+  await trackSize(id, null);
+};
+
+/**
+ * Drops the oldest conversations until the store fits MAX_CONVERSATIONS and
+ * MAX_STORE_BYTES. The conversation in `keepId` is never evicted.
+ * Returns the ids that were removed.
+ */
+export const evictConversations = async (keepId?: string, extraBytes: number = 0): Promise<string[]> => {
+  const usage = await loadUsage();
+  if (usage.sizes.size <= MAX_CONVERSATIONS && usage.bytes + extraBytes <= MAX_STORE_BYTES) return [];
+
+  const all = await listConversations();
+  let count = all.length;
+  let bytes = usage.bytes + extraBytes;
+  const evicted: string[] = [];
+
+  for (let i = all.length - 1; i >= 0 && (count > MAX_CONVERSATIONS || bytes > MAX_STORE_BYTES); i--) {
+    const candidate = all[i];
+    if (candidate.id === keepId) continue;
+    await deleteConversation(candidate.id);
+    evicted.push(candidate.id);
+    count--;
+    bytes -= usage.sizes.get(candidate.id) ?? estimateSize(candidate);
+  }
+  return evicted;
+};
+
+/**
+ * Writes a conversation and enforces the store limits. If the browser still
+ * reports a quota error, old conversations are evicted harder and the write
+ * is retried once. Returns the ids of any conversations evicted to make room.
+ */
+export const saveConversation = async (conversation: Conversation): Promise<string[]> => {
+  // Streaming flags only make sense for the live session
+  const record: Conversation = {
+    ...conversation,
+    messages: conversation.messages.map(({ isStreaming, isAudioPlaying, ...m }) => m)
+  };
+
+  try {
+    await runRequest('readwrite', store => store.put(record));
+    await trackSize(record.id, estimateSize(record));
+    return await evictConversations(record.id);
+  } catch (error: any) {
+    if (error?.name !== 'QuotaExceededError') throw error;
+    const evicted = await evictConversations(record.id, MAX_STORE_BYTES / 4);
+    await runRequest('readwrite', store => store.put(record));
+    await trackSize(record.id, estimateSize(record));
+    return evicted;
+  }
+};
@@ -0,0 +1,246 @@
+// Parses ```reaction blocks such as "2H2 + O2 -> 2H2O" or "Fe^{3+} + e- -> Fe^{2+}",
+// checks that atoms and charge balance, and suggests coefficients when they do not.
+
+export interface Species {
+  text: string; // As written, without the coefficient
+  coefficient: number;
+  formula: string; // Without charge or state, e.g. "CuSO4·5H2O"
+  charge: number;
+  state?: string;
+  atoms: Record<string, number>; // Per formula unit
+}
+
+export interface ReactionCheck {
+  reactants: Species[];
+  products: Species[];
+  arrow: string;
+  balanced: boolean;
+  // Elements whose totals differ between the two sides
+  mismatches: { element: string, left: number, right: number }[];
+  charge: { left: number, right: number };
+  // Smallest whole-number coefficients that balance the equation, when there is exactly one such set
+  suggestion?: number[];
+}
+
+const ELEMENTS = new Set(('H He Li Be B C N O F Ne Na Mg Al Si P S Cl Ar K Ca Sc Ti V Cr Mn Fe Co Ni Cu Zn Ga Ge As Se Br Kr ' +
+  'Rb Sr Y Zr Nb Mo Tc Ru Rh Pd Ag Cd In Sn Sb Te I Xe Cs Ba La Ce Pr Nd Pm Sm Eu Gd Tb Dy Ho Er Tm Yb Lu Hf Ta W Re Os Ir Pt Au Hg ' +
+  'Tl Pb Bi Po At Rn Fr Ra Ac Th Pa U Np Pu Am Cm Bk Cf Es Fm Md No Lr Rf Db Sg Bh Hs Mt Ds Rg Cn Nh Fl Mc Lv Ts Og D T').split(' '));
+
+const ARROW_PATTERN = /\s*(<=>|<->|⇌|⇄|->|→|⟶|=>|=)\s*/;
+const STATE_PATTERN = /\s*\((aq|s|l|g)\)\s*$/i;
+const SUBSCRIPTS = '₀₁₂₃₄₅₆₇₈₉';
+const SUPERSCRIPTS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+
+// Unicode sub/superscripts (H₂O, SO₄²⁻) become the ASCII forms the parser reads
+const normalize = (text: string) => text
+  .replace(/[₀-₉]/g, c => String(SUBSCRIPTS.indexOf(c)))
+  .replace(/([⁰-⁹¹²³]*)([⁺⁻])/g, (_, digits: string, sign: string) => `^{${Array.from(digits).map(d => SUPERSCRIPTS.indexOf(d)).join('')}${sign === '⁺' ? '+' : '-'}}`)
+  .replace(/−/g, '-')
+  .trim();
+
+const parseCharge = (text: string): { rest: string, charge: number } => {
+  const caret = /\^\{?(\d*)([+-])\}?$/.exec(text) || /\^\{?([+-])(\d*)\}?$/.exec(text);
+  if (caret) {
+    const [digits, sign] = /\d/.test(caret[1]) || caret[1] === '' ? [caret[1], caret[2]] : [caret[2], caret[1]];
+    return { rest: text.slice(0, caret.index), charge: (sign === '+' ? 1 : -1) * (digits ? Number(digits) : 1) };
+  }
+  // A bare trailing sign is a single charge: NH4+, Cl-
+  const bare = /([+-]+)$/.exec(text);
+  if (bare) return { rest: text.slice(0, bare.index), charge: (bare[1][0] === '+' ? 1 : -1) * bare[1].length };
+  return { rest: text, charge: 0 };
+};
+
+const addAtoms = (target: Record<string, number>, source: Record<string, number>, times: number) => {
+  Object.entries(source).forEach(([element, count]) => { target[element] = (target[element] || 0) + count * times; });
+};
+
+/** Counts atoms in a formula such as "Ca(OH)2", "[Cu(NH3)4]SO4" or "CuSO4·5H2O". */
+export const parseFormula = (formula: string): Record<string, number> => {
+  const atoms: Record<string, number> = {};
+  formula.split(/[·•*.]/).forEach(part => {
+    const multiplier = /^(\d+)/.exec(part);
+    const body = multiplier ? part.slice(multiplier[1].length) : part;
+    if (!body) throw new Error(`"${formula}" has an empty part`);
+
+    let i = 0;
+    const readCount = () => {
+      const digits = /^\d+/.exec(body.slice(i));
+      if (!digits) return 1;
+      i += digits[0].length;
+      return Number(digits[0]);
+    };
+    const readGroup = (close?: string): Record<string, number> => {
+      const group: Record<string, number> = {};
+      while (i < body.length) {
+        const c = body[i];
+        if (c === '(' || c === '[') {
+          i++;
+          const inner = readGroup(c === '(' ? ')' : ']');
+          addAtoms(group, inner, readCount());
+        } else if (c === ')' || c === ']') {
+          if (c !== close) throw new Error(`"${formula}" has an unmatched "${c}"`);
+          i++;
+          return group;
+        } else {
+          const symbol = /^[A-Z][a-z]?/.exec(body.slice(i));
+          if (!symbol) throw new Error(`"${formula}" has an unexpected "${c}" (element symbols start with a capital letter)`);
+          // Prefer the two-letter symbol only when it is a real element (Co vs C + O is decided by case already)
+          const element = ELEMENTS.has(symbol[0]) ? symbol[0] : symbol[0][0];
+          if (!ELEMENTS.has(element)) throw new Error(`"${symbol[0]}" in "${formula}" is not an element`);
+          i += element.length;
+          addAtoms(group, { [element]: 1 }, readCount());
+        }
+      }
+      if (close) throw new Error(`"${formula}" is missing a closing "${close}"`);
+      return group;
+    };
+    addAtoms(atoms, readGroup(), multiplier ? Number(multiplier[1]) : 1);
+  });
+  return atoms;
+};
+
+const parseSpecies = (raw: string): Species => {
+  let text = normalize(raw);
+  const coefficientMatch = /^(\d+\/\d+|\d*\.\d+|\d+)\s*/.exec(text);
+  let coefficient = 1;
+  if (coefficientMatch) {
+    const [num, den] = coefficientMatch[1].split('/').map(Number);
+    coefficient = den ? num / den : num;
+    text = text.slice(coefficientMatch[0].length);
+  }
+  if (!text) throw new Error(`"${raw}" has a coefficient but no formula`);
+  if (coefficient <= 0) throw new Error(`"${raw}" has a coefficient of zero`);
+
+  let state: string | undefined;
+  const stateMatch = STATE_PATTERN.exec(text);
+  if (stateMatch) {
+    state = stateMatch[1].toLowerCase();
+    text = text.slice(0, stateMatch.index);
+  }
+  const { rest, charge } = parseCharge(text);
+  const formula = rest.trim();
+  if (/^e$/.test(formula) && charge === -1) {
+    return { text, coefficient, formula: 'e', charge: -1, state, atoms: {} };
+  }
+  return { text, coefficient, formula, charge, state, atoms: parseFormula(formula) };
+};
+
+const gcd = (a: number, b: number): number => b === 0 ? Math.abs(a) : gcd(b, a % b);
+
+/**
+ * Finds the smallest positive whole-number coefficients that conserve every
+ * element and the charge, by Gaussian elimination over fractions. Returns
+ * undefined when there is no solution or more than one independent one.
+ */
+const solveCoefficients = (species: Species[], reactantCount: number): number[] | undefined => {
+  const elements = Array.from(new Set(species.flatMap(s => Object.keys(s.atoms))));
+  const rows = elements.map(e => species.map((s, j) => (s.atoms[e] || 0) * (j < reactantCount ? 1 : -1)));
+  if (species.some(s => s.charge !== 0)) rows.push(species.map((s, j) => s.charge * (j < reactantCount ? 1 : -1)));
+
+  // Fractions as [numerator, denominator]
+  type Fraction = [number, number];
+  const reduce = ([n, d]: Fraction): Fraction => {
+    const g = gcd(n, d) || 1;
+    return d < 0 ? [-n / g, -d / g] : [n / g, d / g];
+  };
+  const sub = (a: Fraction, b: Fraction): Fraction => reduce([a[0] * b[1] - b[0] * a[1], a[1] * b[1]]);
+  const mul = (a: Fraction, b: Fraction): Fraction => reduce([a[0] * b[0], a[1] * b[1]]);
+  const div = (a: Fraction, b: Fraction): Fraction => reduce([a[0] * b[1], a[1] * b[0]]);
+
+  const matrix: Fraction[][] = rows.map(r => r.map(v => [v, 1] as Fraction));
+  const columns = species.length;
+  const pivots: number[] = [];
+  let row = 0;
+  for (let col = 0; col < columns && row < matrix.length; col++) {
+    const pivot = matrix.findIndex((r, i) => i >= row && r[col][0] !== 0);
+    if (pivot < 0) continue;
+    [matrix[row], matrix[pivot]] = [matrix[pivot], matrix[row]];
+    const lead = matrix[row][col];
+    matrix[row] = matrix[row].map(v => div(v, lead));
+    matrix.forEach((r, i) => {
+      if (i === row || r[col][0] === 0) return;
+      const factor = r[col];
+      matrix[i] = r.map((v, k) => sub(v, mul(factor, matrix[row][k])));
+    });
+    pivots.push(col);
+    row++;
+  }
+  const free = Array.from({ length: columns }, (_, c) => c).filter(c => !pivots.includes(c));
+  if (free.length !== 1) return undefined;
+
+  // Set the free coefficient to 1 and read the others off the reduced rows
+  const values: Fraction[] = Array.from({ length: columns }, () => [0, 1] as Fraction);
+  values[free[0]] = [1, 1];
+  pivots.forEach((col, r) => { values[col] = reduce([-matrix[r][free[0]][0], matrix[r][free[0]][1]]); });
+  const lcm = values.reduce((acc, [, d]) => acc * d / gcd(acc, d), 1);
+  let integers = values.map(([n, d]) => n * lcm / d);
+  if (integers.every(v => v <= 0)) integers = integers.map(v => -v);
+  if (integers.some(v => v <= 0)) return undefined;
+  const divisor = integers.reduce((acc, v) => gcd(acc, v));
+  return integers.map(v => v / divisor);
+};
+
+const totals = (side: Species[]) => {
+  const atoms: Record<string, number> = {};
+  side.forEach(s => addAtoms(atoms, s.atoms, s.coefficient));
+  return { atoms, charge: side.reduce((sum, s) => sum + s.charge * s.coefficient, 0) };
+};
+
+const close = (a: number, b: number) => Math.abs(a - b) < 1e-9;
+
+/**
+ * Parses and checks one reaction equation. Species on each side are
+ * separated by " + " (with spaces, so ion charges like Na+ are not split).
+ * Throws with a readable message when the equation cannot be read.
+ */
+export const checkReaction = (source: string): ReactionCheck => {
+  const line = source.split('\n').map(l => l.trim()).filter(Boolean).join(' ');
+  const arrow = ARROW_PATTERN.exec(line);
+  if (!arrow) throw new Error(`no reaction arrow found; write reactants -> products`);
+  const [left, right] = [line.slice(0, arrow.index), line.slice(arrow.index + arrow[0].length)];
+  if (ARROW_PATTERN.test(right)) throw new Error(`only one arrow is allowed per block`);
+  if (!left.trim() || !right.trim()) throw new Error(`both sides of the arrow need at least one species`);
+
+  const readSide = (side: string) => side.split(/\s+\+\s+/).map(parseSpecies);
+  const reactants = readSide(left);
+  const products = readSide(right);
+
+  const l = totals(reactants);
+  const r = totals(products);
+  const elements = Array.from(new Set([...Object.keys(l.atoms), ...Object.keys(r.atoms)]));
+  const mismatches = elements
+    .filter(e => !close(l.atoms[e] || 0, r.atoms[e] || 0))
+    .map(e => ({ element: e, left: l.atoms[e] || 0, right: r.atoms[e] || 0 }));
+  const balanced = mismatches.length === 0 && close(l.charge, r.charge);
+
+  return {
+    reactants,
+    products,
+    arrow: /<|⇌|⇄/.test(arrow[1]) ? '⇌' : '→',
+    balanced,
+    mismatches,
+    charge: { left: l.charge, right: r.charge },
+    suggestion: balanced ? undefined : solveCoefficients([...reactants, ...products], reactants.length),
+  };
+};
+
+/** Splits a species into plain, subscript (counts) and superscript (charge) runs for display. */
+export const formulaSegments = (species: Pick<Species, 'formula' | 'charge'>): { text: string, kind: 'text' | 'sub' | 'sup' }[] => {
+  const segments: { text: string, kind: 'text' | 'sub' | 'sup' }[] = [];
+  const push = (text: string, kind: 'text' | 'sub' | 'sup') => {
+    const last = segments[segments.length - 1];
+    if (last?.kind === kind) last.text += text;
+    else segments.push({ text, kind });
+  };
+  Array.from(species.formula).forEach((c, i, chars) => {
+    // Digits after a symbol or bracket are counts; digits that open a hydrate part (·5H2O) are multipliers
+    const previous = chars[i - 1] || '';
+    const continuesCount = /\d/.test(previous) && segments[segments.length - 1]?.kind === 'sub';
+    push(c, /\d/.test(c) && (/[A-Za-z)\]]/.test(previous) || continuesCount) ? 'sub' : 'text');
+  });
+  if (species.charge) {
+    const size = Math.abs(species.charge);
+    push(`${size > 1 ? size : ''}${species.charge > 0 ? '+' : '−'}`, 'sup');
+  }
+  return segments;
+};
@@ -0,0 +1,78 @@
+import { ChatMessage, ChatAttachment, ConversationSummary } from "../types";
+
+// Gemini bills an image at a flat 258 tokens; PDFs vary with page count, so assume a few pages
+const IMAGE_TOKENS = 258;
+const PDF_TOKENS = 2000;
+// Role markers and separators the API adds around each turn
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Input budgets we choose to spend, well under each model's hard limit, to keep latency and cost sane
+const MODEL_CONTEXT_BUDGETS: [RegExp, number][] = [
+  [/^gemini/, 32000],
+  [/^gpt-4|^gpt-5|^o\d/, 16000],
+  [/^mock/, 4000],
+];
+// Local llama.cpp/Ollama models commonly run with an 8k window
+const FALLBACK_CONTEXT_BUDGET = 6000;
+
+export const defaultContextBudget = (model: string) =>
+  MODEL_CONTEXT_BUDGETS.find(([pattern]) => pattern.test(model))?.[1] ?? FALLBACK_CONTEXT_BUDGET;
+
+/**
+ * Rough token count without a tokenizer: about 4 characters per token for
+ * Latin text, and closer to 1.5 for Thai, whose characters each take more
+ * of a BPE vocabulary.
+ */
+export const estimateTokens = (text: string) => {
+  let latin = 0;
+  let other = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) < 0x250) latin++;
+    else other++;
+  }
+  return Math.ceil(latin / 4 + other / 1.5);
+};
+
+const attachmentTokens = (attachments: ChatAttachment[] = []) =>
+  attachments.reduce((sum, a) => sum + (a.mimeType.startsWith('image/') ? IMAGE_TOKENS : PDF_TOKENS), 0);
+
+export const messageTokens = (message: Pick<ChatMessage, 'content' | 'attachments'>) =>
+  estimateTokens(message.content) + attachmentTokens(message.attachments) + MESSAGE_OVERHEAD_TOKENS;
+
+export interface ContextPlan {
+  included: ChatMessage[];
+  // Older than the window and not yet folded into the summary
+  unsummarized: ChatMessage[];
+  tokens: number;
+  budget: number;
+}
+
+/**
+ * Picks the most recent run of history that fits `budget` once the fixed
+ * cost (system prompt, summary, new question) is paid. The window is
+ * contiguous: one oversized message ends it rather than being skipped over,
+ * so the model never sees a conversation with a hole in it.
+ */
+export const planContext = (history: ChatMessage[], fixedTokens: number, budget: number, summary?: ConversationSummary): ContextPlan => {
+  // Failed and in-flight replies are never part of the conversation the model sees
+  const eligible = history.filter(m => !m.error && !m.isStreaming);
+  let tokens = fixedTokens + (summary?.tokens ?? 0);
+  let start = eligible.length;
+  while (start > 0) {
+    const cost = messageTokens(eligible[start - 1]);
+    if (tokens + cost > budget) break;
+    tokens += cost;
+    start--;
+  }
+
+  const coveredThrough = summary ? eligible.findIndex(m => m.id === summary.throughMessageId) : -1;
+  return {
+    included: eligible.slice(start),
+    unsummarized: eligible.slice(coveredThrough + 1, start),
+    tokens,
+    budget,
+  };
+};
+
+/** Caps a summary so that it can never crowd out the recent window. */
+export const maxSummaryTokens = (budget: number) => Math.max(200, Math.round(budget * 0.15));
@@ -0,0 +1,49 @@
+import { Flashcard, ReviewGrade, Subject } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+const DEFAULT_EASE = 2.5;
+
+export const createFlashcard = (subject: Subject, front: string, back: string, noteId?: string, now: number = Date.now()): Flashcard => ({
+  id: `card-${Math.random().toString(36).substr(2, 9)}`,
+  noteId,
+  subject,
+  front: front.trim(),
+  back: back.trim(),
+  easeFactor: DEFAULT_EASE,
+  interval: 0,
+  repetitions: 0,
+  dueAt: now,
+  createdAt: now
+});
+
+/**
+ * SM-2 scheduling. A grade below 3 resets the card to the start of the
+ * ladder (1 day); otherwise the interval grows 1 → 6 → interval × ease.
+ * The ease factor moves with every review and never drops below 1.3.
+ */
+export const scheduleReview = (card: Flashcard, grade: ReviewGrade, now: number = Date.now()): Flashcard => {
+  const easeFactor = Math.max(MIN_EASE, card.easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)));
+
+  let repetitions: number;
+  let interval: number;
+  if (grade < 3) {
+    repetitions = 0;
+    interval = 1;
+  } else {
+    repetitions = card.repetitions + 1;
+    interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval * easeFactor);
+  }
+
+  return { ...card, easeFactor, repetitions, interval, dueAt: now + interval * DAY_MS, lastReviewedAt: now };
+};
+
+export const isDue = (card: Flashcard, now: number = Date.now()) => card.dueAt <= now;
+
+export const countDueBySubject = (cards: Flashcard[], now: number = Date.now()) => {
+  const counts: Partial<Record<Subject, number>> = {};
+  cards.forEach(card => {
+    if (isDue(card, now)) counts[card.subject] = (counts[card.subject] || 0) + 1;
+  });
+  return counts;
+};
@@ -1,220 +0,0 @@
-import { GoogleGenAI, Modality } from "@google/genai";
-import { Subject } from "../types";
-import { SYSTEM_PROMPTS } from "../constants";
-
-export const getTutorResponse = async (subject: Subject, message: string, history: { role: 'user' | 'model', content: string }[] = [], customApiKey?: string) => {
-  try {
-    // Check if we are in the AI Studio preview environment
-    const isPreview = window.location.hostname.endsWith('.run.app') || 
-                      window.location.hostname === 'localhost' || 
-                      window.location.hostname === '0.0.0.0';
-
-    // Robust API Key detection
-    const envKey = (process.env.GEMINI_API_KEY && process.env.GEMINI_API_KEY !== "undefined") ? process.env.GEMINI_API_KEY : null;
-    const legacyEnvKey = (process.env.API_KEY && process.env.API_KEY !== "undefined") ? process.env.API_KEY : null;
-    
-    // ONLY use environment keys if we are in the preview/dev environment.
-    // On production (Vercel), we REQUIRE the manual customApiKey.
-    const apiKey = (customApiKey && customApiKey.trim()) || (isPreview ? (envKey || legacyEnvKey) : null);
-
-    if (!apiKey) {
-      return "Access Denied: No API Key detected. To prevent high demand on the developer's account, please enter your OWN Gemini API Key in the Settings (Gear Icon) to use the AI Tutor.";
-    }
-
-    if (!apiKey.startsWith("AIza")) {
-      return "Invalid API Key format. Gemini API keys typically start with 'AIza'. Please update your key in the Settings menu.";
-    }
-
-    const ai = new GoogleGenAI({ apiKey });
-    
-    // Upgrade to Gemini 3 Flash for better stability and performance
-    const modelName = 'gemini-3-flash-preview'; 
-
-    // Ensure history roles are correct and alternating
-    const conversationHistory = history
-      .slice(-10) 
-      .map(h => ({
-        role: h.role === 'model' ? 'model' : 'user',
-        parts: [{ text: h.content }]
-      }));
-    
-    // Add the current message
-    conversationHistory.push({ role: 'user', parts: [{ text: message }] });
-
-    // Implement retry logic for 503/504 errors
-    let attempts = 0;
-    const maxAttempts = 3;
-    let lastError = null;
-
-    while (attempts < maxAttempts) {
-      try {
-        const response = await ai.models.generateContent({
-          model: modelName,
-          contents: conversationHistory,
-          config: {
-            systemInstruction: SYSTEM_PROMPTS[subject],
-            temperature: 0.7,
-          }
-        });
-
-        if (!response || !response.text) {
-          throw new Error("Empty response from AI node.");
-        }
-
-        return response.text;
-      } catch (error: any) {
-        lastError = error;
-        const isRetryable = error?.message?.includes('503') || 
-                           error?.message?.includes('504') || 
-                           error?.message?.includes('high demand') ||
-                           error?.message?.includes('overloaded');
-        
-        if (isRetryable && attempts < maxAttempts - 1) {
-          attempts++;
-          // Exponential backoff: 1s, 2s
-          await new Promise(resolve => setTimeout(resolve, 1000 * attempts));
-          continue;
-        }
-        break;
-      }
-    }
-
-    throw lastError;
-  } catch (error: any) {
-    console.error("Gemini AI Session Error:", error);
-    const errorMsg = error?.message || "Unknown Error";
-    
-    if (errorMsg.includes('503') || errorMsg.includes('high demand')) {
-      return "Google's AI servers are currently experiencing a temporary spike in demand. I've tried to reconnect 3 times, but they are still busy. Please wait 30 seconds and try your question again.";
-    }
-    
-    return `The specialist node encountered an error: ${errorMsg}. Please check your API key and network connection.`;
-  }
-};
-
-let audioContext: AudioContext | null = null;
-
-const getAudioContext = () => {
-  if (!audioContext) {
-    audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-  }
-  if (audioContext.state === 'suspended') {
-    audioContext.resume();
-  }
-  return audioContext;
-};
-
-export const resumeAudio = async () => {
-  try {
-    const ctx = getAudioContext();
-    if (ctx.state === 'suspended') {
-      await ctx.resume();
-    }
-    // iOS "Unlock": Play a short silent buffer to enable audio
-    const buffer = ctx.createBuffer(1, 1, 22050);
-    const source = ctx.createBufferSource();
-    source.buffer = buffer;
-    source.connect(ctx.destination);
-    source.start(0);
-  } catch (e) {
-    console.error("Audio resume error:", e);
-  }
-};
-
-export const playNotificationSound = async (type: 'default' | 'alarm' = 'default') => {
-  try {
-    const ctx = getAudioContext();
-    
-    // Ensure context is running
-    if (ctx.state === 'suspended') {
-      await ctx.resume();
-    }
-
-    const osc = ctx.createOscillator();
-    const gain = ctx.createGain();
-    const now = ctx.currentTime;
-    
-    if (type === 'alarm') {
-      // More urgent sound for session end
-      osc.type = 'square';
-      osc.frequency.setValueAtTime(440, now);
-      osc.frequency.exponentialRampToValueAtTime(880, now + 0.5);
-      osc.frequency.exponentialRampToValueAtTime(440, now + 1.0);
-      
-      gain.gain.setValueAtTime(0, now);
-      gain.gain.linearRampToValueAtTime(0.2, now + 0.1);
-      gain.gain.linearRampToValueAtTime(0.2, now + 0.9);
-      gain.gain.exponentialRampToValueAtTime(0.01, now + 1.2);
-      
-      osc.connect(gain);
-      gain.connect(ctx.destination);
-      osc.start(now);
-      osc.stop(now + 1.2);
-    } else {
-      // Standard notification beep
-      osc.type = 'sine';
-      osc.frequency.setValueAtTime(660, now);
-      osc.frequency.exponentialRampToValueAtTime(880, now + 0.1);
-      
-      gain.gain.setValueAtTime(0, now);
-      gain.gain.linearRampToValueAtTime(0.1, now + 0.05);
-      gain.gain.exponentialRampToValueAtTime(0.01, now + 0.2);
-      
-      osc.connect(gain);
-      gain.connect(ctx.destination);
-      osc.start(now);
-      osc.stop(now + 0.2);
-    }
-  } catch (e) {
-    console.error("Audio play error:", e);
-  }
-};
-
-export const speakText = async (text: string, customApiKey?: string) => {
-  try {
-    const isPreview = window.location.hostname.endsWith('.run.app') || 
-                      window.location.hostname === 'localhost' || 
-                      window.location.hostname === '0.0.0.0';
-
-    const envKey = (process.env.GEMINI_API_KEY && process.env.GEMINI_API_KEY !== "undefined") ? process.env.GEMINI_API_KEY : null;
-    const legacyEnvKey = (process.env.API_KEY && process.env.API_KEY !== "undefined") ? process.env.API_KEY : null;
-    const apiKey = (customApiKey && customApiKey.trim()) || (isPreview ? (envKey || legacyEnvKey) : null);
-    
-    if (!apiKey) return false;
-    const ai = new GoogleGenAI({ apiKey });
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text: text.slice(0, 250) }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Kore' },
-          },
-        },
-      },
-    });
-
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (base64Audio) {
-      const audioData = atob(base64Audio);
-      const arrayBuffer = new ArrayBuffer(audioData.length);
-      const view = new Uint8Array(arrayBuffer);
-      for (let i = 0; i < audioData.length; i++) {
-        view[i] = audioData.charCodeAt(i);
-      }
-      const ctx = getAudioContext();
-      const dataInt16 = new Int16Array(arrayBuffer);
-      const buffer = ctx.createBuffer(1, dataInt16.length, 24000);
-      const channelData = buffer.getChannelData(0);
-      for (let i = 0; i < dataInt16.length; i++) {
-        channelData[i] = dataInt16[i] / 32768.0;
-      }
-      const source = ctx.createBufferSource();
-      source.buffer = buffer;
-      source.connect(ctx.destination);
-      source.start();
-    }
-  } catch (error) {}
-  return false;
-};
\ No newline at end of file
@@ -0,0 +1,151 @@
+// A small arithmetic language for function plots. Model output is untrusted, so expressions are
+// parsed into closures rather than handed to eval/Function.
+
+type Fn = (x: number) => number;
+
+const FUNCTIONS: Record<string, (v: number) => number> = {
+  sin: Math.sin, cos: Math.cos, tan: Math.tan,
+  asin: Math.asin, acos: Math.acos, atan: Math.atan,
+  sinh: Math.sinh, cosh: Math.cosh, tanh: Math.tanh,
+  sqrt: Math.sqrt, abs: Math.abs, exp: Math.exp,
+  ln: Math.log, log: Math.log10, log2: Math.log2,
+  floor: Math.floor, ceil: Math.ceil, round: Math.round, sign: Math.sign,
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+type Token = { kind: 'num', value: number, pos: number } | { kind: 'id', value: string, pos: number } | { kind: 'op', value: string, pos: number };
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const c = source[i];
+    if (/\s/.test(c)) { i++; continue; }
+    const number = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(source.slice(i));
+    if (number) {
+      tokens.push({ kind: 'num', value: Number(number[0]), pos: i });
+      i += number[0].length;
+      continue;
+    }
+    const id = /^[a-z_π][a-z0-9_]*/i.exec(source.slice(i));
+    if (id) {
+      tokens.push({ kind: 'id', value: id[0] === 'π' ? 'pi' : id[0].toLowerCase(), pos: i });
+      i += id[0].length;
+      continue;
+    }
+    if ('+-*/^(),'.includes(c) || c === '×' || c === '·' || c === '−') {
+      tokens.push({ kind: 'op', value: c === '×' || c === '·' ? '*' : c === '−' ? '-' : c, pos: i });
+      i++;
+      continue;
+    }
+    throw new Error(`unexpected "${c}" at position ${i + 1}`);
+  }
+  return tokens;
+};
+
+/**
+ * Compiles an expression in `x` such as "2sin(x)^2 + x/3" into a function.
+ * Accepts an optional "y =" or "f(x) =" prefix, implicit multiplication
+ * after numbers and closing brackets, ^ for powers (right-associative) and
+ * the usual functions and constants. Throws with the position of the first
+ * problem.
+ */
+export const compileExpression = (expression: string): Fn => {
+  const source = expression.replace(/^\s*(y|f\s*\(\s*x\s*\))\s*=/i, '');
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const fail = (message: string, token?: Token): never => {
+    throw new Error(token ? `${message} at position ${token.pos + 1}` : `${message} at the end`);
+  };
+  const expectOp = (value: string) => {
+    const token = peek();
+    if (token?.kind !== 'op' || token.value !== value) fail(`expected "${value}"`, token);
+    index++;
+  };
+
+  // expression := term (('+' | '-') term)*
+  const parseExpression = (): Fn => {
+    let left = parseTerm();
+    while (peek()?.kind === 'op' && (peek().value === '+' || peek().value === '-')) {
+      const op = tokens[index++].value;
+      const a = left, b = parseTerm();
+      left = op === '+' ? x => a(x) + b(x) : x => a(x) - b(x);
+    }
+    return left;
+  };
+
+  // term := unary (('*' | '/') unary | implicit unary)*
+  const parseTerm = (): Fn => {
+    let left = parseUnary();
+    while (true) {
+      const token = peek();
+      if (token?.kind === 'op' && (token.value === '*' || token.value === '/')) {
+        index++;
+        const a = left, b = parseUnary();
+        left = token.value === '*' ? x => a(x) * b(x) : x => a(x) / b(x);
+      } else if (token && (token.kind === 'id' || token.kind === 'num' || token.value === '(')) {
+        // 2x, 3sin(x), (x+1)(x-1)
+        const a = left, b = parseUnary();
+        left = x => a(x) * b(x);
+      } else {
+        return left;
+      }
+    }
+  };
+
+  // unary := '-' unary | power
+  const parseUnary = (): Fn => {
+    const token = peek();
+    if (token?.kind === 'op' && (token.value === '-' || token.value === '+')) {
+      index++;
+      const inner = parseUnary();
+      return token.value === '-' ? x => -inner(x) : inner;
+    }
+    return parsePower();
+  };
+
+  // power := primary ('^' unary)?
+  const parsePower = (): Fn => {
+    const base = parsePrimary();
+    if (peek()?.kind === 'op' && peek().value === '^') {
+      index++;
+      const exponent = parseUnary();
+      return x => Math.pow(base(x), exponent(x));
+    }
+    return base;
+  };
+
+  const parsePrimary = (): Fn => {
+    const token = peek();
+    if (!token) return fail("expression ends too early");
+    index++;
+    if (token.kind === 'num') {
+      const value = token.value;
+      return () => value;
+    }
+    if (token.kind === 'op') {
+      if (token.value !== '(') return fail(`unexpected "${token.value}"`, token);
+      const inner = parseExpression();
+      expectOp(')');
+      return inner;
+    }
+    if (token.value === 'x') return x => x;
+    if (token.value in CONSTANTS) {
+      const value = CONSTANTS[token.value];
+      return () => value;
+    }
+    const fn = FUNCTIONS[token.value];
+    if (!fn) return fail(`unknown name "${token.value}"`, token);
+    // Allow "sin x" as well as "sin(x)"
+    const argument = peek()?.kind === 'op' && peek().value === '(' ? parsePrimary() : parsePower();
+    return x => fn(argument(x));
+  };
+
+  if (tokens.length === 0) fail("expression is empty");
+  const compiled = parseExpression();
+  if (index < tokens.length) fail(`unexpected "${tokens[index].value}"`, tokens[index]);
+  return compiled;
+};
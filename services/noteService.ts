@@ -0,0 +1,187 @@
+import { SavedNote, NoteSource, Subject } from "../types";
+
+const MAX_TITLE_LENGTH = 80;
+const MAX_TAG_LENGTH = 30;
+const MAX_TAGS = 20;
+
+// Search weights: a hit in the title or a tag says more about a note than one in the body
+const TITLE_WEIGHT = 3;
+const TAG_WEIGHT = 3;
+
+const stripMarkdown = (text: string) => text
+  .replace(/```[\s\S]*?```/g, ' ')
+  .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+  .replace(/\$+([^$]*)\$+/g, '$1')
+  .replace(/[#>*_`~|]/g, '')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+/** Suggests a title from the first heading, or failing that the first sentence of the note. */
+export const suggestNoteTitle = (content: string) => {
+  const heading = /^#{1,6}\s+(.+)$/m.exec(content.replace(/```[\s\S]*?```/g, ''));
+  const firstLine = content.replace(/```[\s\S]*?```/g, '').split('\n').map(stripMarkdown).find(Boolean) || '';
+  const source = heading ? stripMarkdown(heading[1]) : firstLine.split(/(?<=[.!?。])\s/)[0];
+  if (!source) return 'Untitled note';
+  if (source.length <= MAX_TITLE_LENGTH) return source;
+  const cut = source.slice(0, MAX_TITLE_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${lastSpace > MAX_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut}…`;
+};
+
+/** Splits comma- or newline-separated tag input; drops "#" prefixes and case-insensitive duplicates. */
+export const normalizeTags = (input: string | string[]) => {
+  const seen = new Set<string>();
+  const tags: string[] = [];
+  (Array.isArray(input) ? input : input.split(/[,\n]/)).forEach(raw => {
+    const tag = String(raw).trim().replace(/^#+/, '').replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH);
+    if (!tag || seen.has(tag.toLowerCase())) return;
+    seen.add(tag.toLowerCase());
+    tags.push(tag);
+  });
+  return tags.slice(0, MAX_TAGS);
+};
+
+const sanitizeSource = (raw: any): NoteSource | undefined => {
+  if (typeof raw?.conversationId !== 'string' || typeof raw.messageId !== 'string') return undefined;
+  return {
+    conversationId: raw.conversationId,
+    messageId: raw.messageId,
+    conversationTitle: typeof raw.conversationTitle === 'string' ? raw.conversationTitle : '',
+    question: typeof raw.question === 'string' ? raw.question : '',
+    answer: typeof raw.answer === 'string' ? raw.answer : '',
+  };
+};
+
+/**
+ * Reads stored notes. Notes saved before titles and tags existed get a
+ * suggested title and no tags, and older notes simply have no source;
+ * entries without content are dropped.
+ */
+export const loadNotes = (stored: unknown): SavedNote[] => {
+  if (!Array.isArray(stored)) return [];
+  return stored.flatMap((raw: any): SavedNote[] => {
+    if (typeof raw?.id !== 'string' || typeof raw.content !== 'string') return [];
+    const source = sanitizeSource(raw.source);
+    return [{
+      id: raw.id,
+      subject: typeof raw.subject === 'string' ? raw.subject : '',
+      title: typeof raw.title === 'string' && raw.title.trim() ? raw.title.trim().slice(0, MAX_TITLE_LENGTH) : suggestNoteTitle(raw.content),
+      tags: Array.isArray(raw.tags) ? normalizeTags(raw.tags) : [],
+      content: raw.content,
+      timestamp: typeof raw.timestamp === 'number' ? raw.timestamp : Date.now(),
+      ...(typeof raw.updatedAt === 'number' ? { updatedAt: raw.updatedAt } : {}),
+      ...(source ? { source } : {}),
+    }];
+  });
+};
+
+/** Every tag in use with its note count, most used first. */
+export const collectTags = (notes: SavedNote[]) => {
+  const counts = new Map<string, { tag: string, count: number }>();
+  notes.forEach(n => n.tags.forEach(tag => {
+    const entry = counts.get(tag.toLowerCase());
+    if (entry) entry.count++;
+    else counts.set(tag.toLowerCase(), { tag, count: 1 });
+  }));
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+// Thai is written without spaces between words, so splitting on whitespace would index whole
+// phrases. Intl.Segmenter knows Thai word boundaries; older browsers fall back to
+// letter/digit runs and rely on the substring matching in searchNotes.
+const segmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl ? new Intl.Segmenter('th', { granularity: 'word' }) : null;
+
+export const tokenize = (text: string): string[] => {
+  const normalized = text.normalize('NFC').toLowerCase();
+  if (segmenter) {
+    return Array.from(segmenter.segment(normalized)).filter(s => s.isWordLike).map(s => s.segment);
+  }
+  return normalized.split(/[^\p{L}\p{N}\p{M}]+/u).filter(Boolean);
+};
+
+export interface NoteSearchIndex {
+  // term → note id → weighted occurrence count
+  postings: Map<string, Map<string, number>>;
+  // Every indexed term in code-unit order, so the terms sharing a prefix sit next to each other
+  terms: string[];
+}
+
+export const buildSearchIndex = (notes: SavedNote[]): NoteSearchIndex => {
+  const postings = new Map<string, Map<string, number>>();
+  const add = (term: string, id: string, weight: number) => {
+    let entry = postings.get(term);
+    if (!entry) postings.set(term, entry = new Map());
+    entry.set(id, (entry.get(id) || 0) + weight);
+  };
+  notes.forEach(note => {
+    tokenize(stripMarkdown(note.content)).forEach(term => add(term, note.id, 1));
+    tokenize(note.title).forEach(term => add(term, note.id, TITLE_WEIGHT));
+    note.tags.forEach(tag => tokenize(tag).forEach(term => add(term, note.id, TAG_WEIGHT)));
+  });
+  return { postings, terms: Array.from(postings.keys()).sort() };
+};
+
+// First position in the sorted term list that is not before `term`
+const lowerBound = (terms: string[], term: string) => {
+  let lo = 0, hi = terms.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (terms[mid] < term) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+/**
+ * Ranks notes matching every word of the query. A query word matches an
+ * indexed term exactly, as a prefix (so results update while typing) or,
+ * with a lower score, anywhere inside it, which covers Thai compounds the
+ * segmenter kept together. The substring scan walks the whole vocabulary, so
+ * it only runs for a word with no exact or prefix match. Returns note ids,
+ * best match first.
+ */
+export const searchNotes = (index: NoteSearchIndex, query: string): string[] => {
+  const terms = tokenize(query);
+  if (terms.length === 0) return [];
+  const perTerm = terms.map(term => {
+    const termScores = new Map<string, number>();
+    const score = (notes: Map<string, number>, factor: number) => {
+      notes.forEach((weight, id) => termScores.set(id, (termScores.get(id) || 0) + weight * factor));
+    };
+    // The exact term sorts first among those it prefixes
+    for (let i = lowerBound(index.terms, term); i < index.terms.length && index.terms[i].startsWith(term); i++) {
+      const indexed = index.terms[i];
+      score(index.postings.get(indexed)!, indexed === term ? 3 : 2);
+    }
+    if (termScores.size === 0) {
+      index.postings.forEach((notes, indexed) => {
+        if (indexed.includes(term)) score(notes, 1);
+      });
+    }
+    return termScores;
+  });
+  const [first, ...rest] = perTerm;
+  return Array.from(first)
+    .filter(([id]) => rest.every(scores => scores.has(id)))
+    .map(([id, score]) => [id, rest.reduce((sum, scores) => sum + scores.get(id)!, score)] as const)
+    .sort((a, b) => b[1] - a[1])
+    .map(([id]) => id);
+};
+
+export interface NoteFilters {
+  subject: Subject | 'All';
+  tag: string | null;
+  from: string; // yyyy-mm-dd from a date input, '' for open-ended
+  to: string;
+}
+
+export const filterNotes = (notes: SavedNote[], filters: NoteFilters) => {
+  const from = filters.from ? new Date(`${filters.from}T00:00:00`).getTime() : -Infinity;
+  const to = filters.to ? new Date(`${filters.to}T23:59:59.999`).getTime() : Infinity;
+  const tag = filters.tag?.toLowerCase();
+  return notes.filter(n =>
+    (filters.subject === 'All' || n.subject === filters.subject) &&
+    (!tag || n.tags.some(t => t.toLowerCase() === tag)) &&
+    n.timestamp >= from && n.timestamp <= to
+  );
+};
@@ -0,0 +1,165 @@
+import { Subject, SubjectDefinition, BuiltinSubject, TutorPersona, PersonaTone, PersonaLanguage, PersonaLevel, PersonaStyle } from "../types";
+import { DEFAULT_PERSONA_TRAITS, BUILTIN_PERSONA_TRAITS } from "../constants";
+
+export const PERSONA_FORMAT = 'medquest-personas';
+export const PERSONA_FORMAT_VERSION = 1;
+
+export const PERSONA_OPTIONS = {
+  tone: [['encouraging', 'Encouraging'], ['neutral', 'Neutral'], ['strict', 'Strict']] as [PersonaTone, string][],
+  language: [['th', 'Thai'], ['en', 'English'], ['mixed', 'Mixed']] as [PersonaLanguage, string][],
+  level: [['foundation', 'Foundation'], ['exam', 'Exam level'], ['advanced', 'Advanced']] as [PersonaLevel, string][],
+  style: [['direct', 'Direct answers'], ['socratic', 'Socratic']] as [PersonaStyle, string][],
+};
+
+const TONE_FRAGMENTS: Record<PersonaTone, string> = {
+  encouraging: "Be warm and encouraging. Acknowledge what the student got right before correcting mistakes.",
+  neutral: "Keep a calm, matter-of-fact tone.",
+  strict: "Be demanding like an exam coach: point out every error plainly and hold the student to exam-standard precision.",
+};
+
+const LANGUAGE_FRAGMENTS: Record<PersonaLanguage, string> = {
+  th: "Reply in Thai. Give standard scientific terms in English in parentheses the first time they appear.",
+  en: "Reply in English, even if the student writes in Thai.",
+  mixed: "Reply in the language the student writes in. Mixing Thai explanations with English technical terms is fine.",
+};
+
+const LEVEL_FRAGMENTS: Record<PersonaLevel, string> = {
+  foundation: "Assume the student is still building fundamentals: define terms, avoid skipped steps and use simple numbers in examples.",
+  exam: "Pitch explanations at A-Level/TPAT exam standard and point out common exam traps.",
+  advanced: "The student is aiming for top scores: go beyond the syllabus where it helps, and prefer elegant shortcuts over step-by-step drills.",
+};
+
+const STYLE_FRAGMENTS: Record<PersonaStyle, string> = {
+  direct: "Give the full worked answer first, then a short summary of the key idea.",
+  socratic: "Teach Socratically: guide with one question or hint at a time and let the student take each step. Only give the full solution if they ask for it or are still stuck after two hints.",
+};
+
+// Shared output contracts: the app's renderers depend on these, so every persona gets them regardless of edits
+const LATEX_FRAGMENT = "ALWAYS use LaTeX for mathematical symbols, formulas and chemical notation (e.g. $x^2$, $\\frac{a}{b}$, $H_2O$).";
+const TABLE_FRAGMENT = "Use Markdown tables for comparisons.";
+// Mirrors chartSpec.ts (version 2); keep the two in step
+const CHART_FRAGMENT = [
+  "To draw a graph, use a code block with language 'chart' containing one JSON object with \"version\": 2. Always label axes with units where they apply.",
+  "- Categories (bar|line|area|pie): {\"version\": 2, \"type\": \"line\", \"title\": \"...\", \"x\": {\"key\": \"t\", \"label\": \"Time\", \"unit\": \"s\"}, \"y\": {\"label\": \"Speed\", \"unit\": \"m/s\"}, \"series\": [{\"key\": \"a\", \"name\": \"Car A\"}, {\"key\": \"b\", \"name\": \"Car B\"}], \"data\": [{\"t\": 0, \"a\": 0, \"b\": 2}, ...]}. Add \"stacked\": true to stack bars or areas. Pie charts take one series.",
+  "- Measurements (scatter): {\"version\": 2, \"type\": \"scatter\", \"x\": {...}, \"y\": {...}, \"series\": [{\"name\": \"Trial 1\", \"points\": [[0, 1.2], [1, 3.1]], \"regression\": \"linear\"}]}. Omit regression when no trend line is wanted.",
+  "- Functions: {\"version\": 2, \"type\": \"function\", \"x\": {\"min\": -6.28, \"max\": 6.28, \"label\": \"x\"}, \"series\": [{\"expr\": \"sin(x)\", \"name\": \"y = sin(x)\"}]}. Expressions use x, + - * / ^, parentheses, pi, e and sin cos tan asin acos atan sqrt abs exp ln log. Set y.min/y.max for functions with asymptotes.",
+].join('\n');
+// Mirrors chemEquation.ts and the smiles renderer. Added for the Chemistry subject whatever its prompt says,
+// so registries saved before these blocks existed still get them
+const CHEMISTRY_FRAGMENT = [
+  "Draw organic and molecular structures in a code block with language 'smiles': the first line is one SMILES string (e.g. CCO), an optional second line is the compound name. Use one block per structure.",
+  "Write every reaction equation in a code block with language 'reaction', one equation per block, species separated by \" + \" and an arrow -> (or <=> for equilibria), e.g. 2H2 + O2 -> 2H2O. Write charges with ^ (Fe^{3+}, SO4^{2-}, e-) and optional states in brackets (NaCl(aq)). The app checks whether it balances, so always give balanced coefficients.",
+].join('\n');
+
+/** Builds the system instruction sent to the model from a persona. */
+export const composeSystemPrompt = (persona: TutorPersona) => [
+  persona.instructions.trim(),
+  TONE_FRAGMENTS[persona.tone],
+  LEVEL_FRAGMENTS[persona.level],
+  STYLE_FRAGMENTS[persona.style],
+  LANGUAGE_FRAGMENTS[persona.language],
+  persona.useLatex ? LATEX_FRAGMENT : '',
+  TABLE_FRAGMENT,
+  CHART_FRAGMENT,
+  persona.subject === 'Chemistry' ? CHEMISTRY_FRAGMENT : '',
+].filter(Boolean).join('\n\n');
+
+/** The persona a subject gets until the user saves their own: its registry prompt plus default traits. */
+export const defaultPersonaFor = (subject: SubjectDefinition): TutorPersona => {
+  const builtin = subject.builtin ? BUILTIN_PERSONA_TRAITS[subject.id as BuiltinSubject] : undefined;
+  return {
+    ...DEFAULT_PERSONA_TRAITS,
+    name: `${subject.name} Tutor`,
+    ...builtin,
+    subject: subject.id,
+    instructions: subject.prompt,
+  };
+};
+
+const pick = <T extends string>(value: unknown, options: [T, string][], fallback: T): T =>
+  options.some(([id]) => id === value) ? value as T : fallback;
+
+/**
+ * Coerces an untrusted persona (storage or an import file) into a valid one,
+ * falling back to the subject default for anything missing or unknown.
+ * Returns null when the subject itself is not recognised.
+ */
+export const sanitizePersona = (raw: any, subjects: SubjectDefinition[]): TutorPersona | null => {
+  const subject = subjects.find(s => s.id === raw?.subject);
+  if (!subject) return null;
+  const fallback = defaultPersonaFor(subject);
+  return {
+    subject: raw.subject,
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim().slice(0, 60) : fallback.name,
+    instructions: typeof raw.instructions === 'string' && raw.instructions.trim() ? raw.instructions.slice(0, 4000) : fallback.instructions,
+    tone: pick(raw.tone, PERSONA_OPTIONS.tone, fallback.tone),
+    language: pick(raw.language, PERSONA_OPTIONS.language, fallback.language),
+    level: pick(raw.level, PERSONA_OPTIONS.level, fallback.level),
+    style: pick(raw.style, PERSONA_OPTIONS.style, fallback.style),
+    useLatex: typeof raw.useLatex === 'boolean' ? raw.useLatex : fallback.useLatex,
+  };
+};
+
+/**
+ * Resolves every registered subject's persona: the saved one where the user
+ * customised it, otherwise the default derived from the subject's prompt.
+ * Only customisations are stored, so prompt edits in the subject registry
+ * reach every persona that was never changed.
+ */
+export const mergePersonas = (stored: unknown, subjects: SubjectDefinition[]): Record<Subject, TutorPersona> => {
+  const merged: Record<Subject, TutorPersona> = {};
+  subjects.forEach(s => { merged[s.id] = defaultPersonaFor(s); });
+  if (stored && typeof stored === 'object') {
+    Object.values(stored as Record<string, unknown>).forEach(raw => {
+      const persona = sanitizePersona(raw, subjects);
+      if (persona) merged[persona.subject] = persona;
+    });
+  }
+  return merged;
+};
+
+export const isDefaultPersona = (persona: TutorPersona, subjects: SubjectDefinition[]) => {
+  const subject = subjects.find(s => s.id === persona.subject);
+  if (!subject) return false;
+  const fallback = defaultPersonaFor(subject);
+  return (Object.keys(fallback) as (keyof TutorPersona)[]).every(key => persona[key] === fallback[key]);
+};
+
+export const exportPersonasJson = (personas: TutorPersona[]) => JSON.stringify({
+  format: PERSONA_FORMAT,
+  version: PERSONA_FORMAT_VERSION,
+  exportedAt: new Date().toISOString(),
+  personas,
+}, null, 2);
+
+/**
+ * Parses a persona export. Accepts a full export or a bare array/single
+ * persona, so a teacher can hand-edit one. Throws on unusable input.
+ */
+export const parsePersonaImport = (text: string, subjects: SubjectDefinition[]): { personas: TutorPersona[], warnings: string[] } => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (parsed?.format && parsed.format !== PERSONA_FORMAT) {
+    throw new Error(`Unsupported file format "${parsed.format}".`);
+  }
+  if (typeof parsed?.version === 'number' && parsed.version > PERSONA_FORMAT_VERSION) {
+    throw new Error(`This file was made by a newer version of MedQuest (format v${parsed.version}).`);
+  }
+
+  const raw: any[] = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.personas) ? parsed.personas : [parsed];
+  const warnings: string[] = [];
+  const personas: TutorPersona[] = [];
+  raw.forEach((p, i) => {
+    const persona = sanitizePersona(p, subjects);
+    if (persona) personas.push(persona);
+    else warnings.push(`Persona ${i + 1}: unknown subject "${p?.subject}"`);
+  });
+  if (personas.length === 0) {
+    throw new Error("The file does not contain any personas.");
+  }
+  return { personas, warnings };
+};
@@ -0,0 +1,169 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import { AIProviderConfig, ChatAttachment } from "../../types";
+import { AIProvider, AIRequest, AIMessage } from "../aiProvider";
+import { getAudioContext } from "../audioService";
+import { AIError, toAIError, isAbortError } from "../aiErrors";
+
+const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+
+// Check if we are in the AI Studio preview environment
+const isPreviewHost = () => window.location.hostname.endsWith('.run.app') ||
+                           window.location.hostname === 'localhost' ||
+                           window.location.hostname === '0.0.0.0';
+
+// Robust API Key detection
+const resolveApiKey = (customApiKey?: string) => {
+  const envKey = (process.env.GEMINI_API_KEY && process.env.GEMINI_API_KEY !== "undefined") ? process.env.GEMINI_API_KEY : null;
+  const legacyEnvKey = (process.env.API_KEY && process.env.API_KEY !== "undefined") ? process.env.API_KEY : null;
+
+  // ONLY use environment keys if we are in the preview/dev environment.
+  // On production (Vercel), we REQUIRE the manual customApiKey.
+  return (customApiKey && customApiKey.trim()) || (isPreviewHost() ? (envKey || legacyEnvKey) : null);
+};
+
+const NO_KEY_MESSAGE = "Access Denied: No API Key detected. To prevent high demand on the developer's account, please enter your OWN Gemini API Key in the Settings (Gear Icon) to use the AI Tutor.";
+const INVALID_KEY_MESSAGE = "Invalid API Key format. Gemini API keys typically start with 'AIza'. Please update your key in the Settings menu.";
+
+const messageParts = (text: string, attachments: ChatAttachment[] = []) => [
+  ...attachments.map(a => ({ inlineData: { mimeType: a.mimeType, data: a.data } })),
+  ...(text ? [{ text }] : [])
+];
+
+const toContents = (messages: AIMessage[]) => messages
+  .map(m => ({ role: m.role === 'model' ? 'model' : 'user', parts: messageParts(m.text, m.attachments) }))
+  .filter(m => m.parts.length > 0);
+
+const decodePcm = (base64Audio: string) => {
+  const audioData = atob(base64Audio);
+  const arrayBuffer = new ArrayBuffer(audioData.length);
+  const view = new Uint8Array(arrayBuffer);
+  for (let i = 0; i < audioData.length; i++) {
+    view[i] = audioData.charCodeAt(i);
+  }
+  const ctx = getAudioContext();
+  const dataInt16 = new Int16Array(arrayBuffer, 0, Math.floor(arrayBuffer.byteLength / 2));
+  const buffer = ctx.createBuffer(1, dataInt16.length, 24000);
+  const channelData = buffer.getChannelData(0);
+  for (let i = 0; i < dataInt16.length; i++) {
+    channelData[i] = dataInt16[i] / 32768.0;
+  }
+  return buffer;
+};
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+// The SDK reports blocked prompts and answers as successful responses, so check explicitly
+const checkBlocked = (response: any) => {
+  const blockReason = response?.promptFeedback?.blockReason;
+  const finishReason = response?.candidates?.[0]?.finishReason;
+  if (blockReason || BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw new AIError('safety', { detail: blockReason || finishReason });
+  }
+};
+
+const textOf = (response: any): string => {
+  checkBlocked(response);
+  if (!response || !response.text) {
+    throw new AIError('empty');
+  }
+  return response.text;
+};
+
+const call = async <T>(request: () => Promise<T>): Promise<T> => {
+  try {
+    return await request();
+  } catch (error) {
+    throw isAbortError(error) ? error : toAIError(error);
+  }
+};
+
+export const createGeminiProvider = (config: AIProviderConfig): AIProvider => {
+  const apiKey = resolveApiKey(config.apiKey);
+  if (!apiKey) throw new AIError('auth', { message: NO_KEY_MESSAGE });
+  if (!apiKey.startsWith("AIza")) throw new AIError('auth', { message: INVALID_KEY_MESSAGE });
+
+  const ai = new GoogleGenAI({ apiKey });
+  const requestConfig = (request: AIRequest) => ({
+    systemInstruction: request.system,
+    temperature: request.temperature,
+    abortSignal: request.signal,
+  });
+
+  return {
+    id: 'gemini',
+
+    generateText: async (request) => {
+      const response = await call(() => ai.models.generateContent({
+        model: config.model,
+        contents: toContents(request.messages),
+        config: requestConfig(request),
+      }));
+      return textOf(response);
+    },
+
+    streamText: async function* (request) {
+      const stream = await call(() => ai.models.generateContentStream({
+        model: config.model,
+        contents: toContents(request.messages),
+        config: requestConfig(request),
+      }));
+      try {
+        for await (const chunk of stream) {
+          checkBlocked(chunk);
+          if (chunk.text) yield chunk.text;
+        }
+      } catch (error) {
+        throw isAbortError(error) ? error : toAIError(error);
+      }
+    },
+
+    generateJson: async (request) => {
+      const response = await call(() => ai.models.generateContent({
+        model: config.model,
+        contents: toContents(request.messages),
+        config: {
+          ...requestConfig(request),
+          responseMimeType: 'application/json',
+          responseJsonSchema: request.schema,
+        },
+      }));
+      return JSON.parse(textOf(response));
+    },
+
+    synthesizeSpeech: async (text) => {
+      const response = await call(() => ai.models.generateContent({
+        model: TTS_MODEL,
+        contents: [{ parts: [{ text }] }],
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: {
+              prebuiltVoiceConfig: { voiceName: 'Kore' },
+            },
+          },
+        },
+      }));
+      const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+      if (!base64Audio) {
+        throw new AIError('empty', { message: "The voice node returned no audio." });
+      }
+      return decodePcm(base64Audio);
+    },
+
+    transcribeAudio: async (audio, language) => {
+      const languageName = language === 'th-TH' ? 'Thai (keep any English technical terms in English)' : 'English';
+      const response = await call(() => ai.models.generateContent({
+        model: config.model,
+        contents: [{
+          role: 'user',
+          parts: [
+            { inlineData: { mimeType: audio.mimeType, data: audio.data } },
+            { text: `Transcribe this spoken study question verbatim in ${languageName}. Write formulas and numbers as spoken. Output only the transcript, with no commentary.` }
+          ]
+        }],
+        config: { temperature: 0 }
+      }));
+      return response?.text?.trim() || '';
+    },
+  };
+};
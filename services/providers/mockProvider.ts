@@ -0,0 +1,70 @@
+import { AIProviderConfig } from "../../types";
+import { AIProvider, AIRequest, JsonSchema } from "../aiProvider";
+import { getAudioContext } from "../audioService";
+import { sleep } from "../aiErrors";
+
+const STREAM_DELAY_MS = 25;
+
+// Same question, same answer: the reply only depends on the last user turn
+const mockReply = (request: AIRequest) => {
+  const last = [...request.messages].reverse().find(m => m.role === 'user');
+  const question = last?.text.trim() || 'the attached problem';
+  const attachmentNote = last?.attachments?.length ? `\n\nI received ${last.attachments.length} attachment(s).` : '';
+  return [
+    `**Mock tutor** — offline stand-in, no model was called.`,
+    ``,
+    `You asked: "${question.slice(0, 200)}"`,
+    ``,
+    `A worked step would look like this: $v = \\frac{d}{t}$, so doubling $d$ doubles $v$.`,
+    ``,
+    `- Switch the AI provider in Settings to get a real answer.`,
+  ].join('\n') + attachmentNote;
+};
+
+/**
+ * Fills a JSON Schema with deterministic values. `examples` and `enum` are
+ * cycled by array position so lists get varied but repeatable entries.
+ */
+const sampleFromSchema = (schema: JsonSchema, name: string, index: number): unknown => {
+  if (schema.examples?.length) return schema.examples[index % schema.examples.length];
+  if (schema.enum?.length) return schema.enum[index % schema.enum.length];
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(Object.entries(schema.properties || {}).map(([key, child]) => [key, sampleFromSchema(child, key, index)]));
+    case 'array': {
+      const length = Math.max(schema.minItems ?? 3, 1);
+      return Array.from({ length }, (_, i) => sampleFromSchema(schema.items || { type: 'string' }, name, i));
+    }
+    case 'integer':
+    case 'number':
+      return index;
+    case 'boolean':
+      return index % 2 === 0;
+    default:
+      return `Mock ${name} ${index + 1}`;
+  }
+};
+
+export const createMockProvider = (config: AIProviderConfig): AIProvider => ({
+  id: 'mock',
+
+  generateText: async (request) => mockReply(request),
+
+  streamText: async function* (request) {
+    for (const word of mockReply(request).split(/(?<=\s)/)) {
+      await sleep(STREAM_DELAY_MS, request.signal);
+      yield word;
+    }
+  },
+
+  generateJson: async (request) => sampleFromSchema(request.schema, 'value', 0),
+
+  // Silence roughly as long as the text would take to read, so the player UI behaves normally
+  synthesizeSpeech: async (text) => {
+    const ctx = getAudioContext();
+    const seconds = Math.min(20, Math.max(0.5, text.length / 15));
+    return ctx.createBuffer(1, Math.round(seconds * 24000), 24000);
+  },
+
+  transcribeAudio: async (_audio, language) => `Mock transcript (${language}) from ${config.model}`,
+});
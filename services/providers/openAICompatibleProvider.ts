@@ -0,0 +1,150 @@
+import { AIProviderConfig } from "../../types";
+import { AIProvider, AIRequest, AIMessage, JsonSchema } from "../aiProvider";
+import { getAudioContext } from "../audioService";
+import { AIError, kindForStatus, parseRetryAfter } from "../aiErrors";
+
+const TTS_MODEL = 'tts-1';
+const TRANSCRIBE_MODEL = 'whisper-1';
+
+const toContent = (message: AIMessage) => {
+  const attachments = message.attachments || [];
+  if (attachments.length === 0) return message.text;
+  const pdf = attachments.find(a => !a.mimeType.startsWith('image/'));
+  if (pdf) {
+    throw new AIError('unknown', { message: `${pdf.name}: PDF attachments need the Gemini provider. Attach a photo of the page instead.` });
+  }
+  return [
+    ...attachments.map(a => ({ type: 'image_url', image_url: { url: `data:${a.mimeType};base64,${a.data}` } })),
+    ...(message.text ? [{ type: 'text', text: message.text }] : []),
+  ];
+};
+
+const toMessages = (request: AIRequest) => [
+  ...(request.system ? [{ role: 'system', content: request.system }] : []),
+  ...request.messages.map(m => ({ role: m.role === 'model' ? 'assistant' : 'user', content: toContent(m) })),
+];
+
+// Local models often wrap JSON in a markdown fence even when told not to
+const stripJsonFence = (text: string) => text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+/**
+ * Talks to any server exposing the OpenAI REST shape under `config.baseUrl`
+ * (llama.cpp server, Ollama, LM Studio, vLLM or OpenAI itself).
+ */
+export const createOpenAICompatibleProvider = (config: AIProviderConfig): AIProvider => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+  const authHeaders: Record<string, string> = config.apiKey.trim() ? { Authorization: `Bearer ${config.apiKey.trim()}` } : {};
+
+  const post = async (path: string, body: BodyInit, signal?: AbortSignal, json = true) => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers: json ? { 'Content-Type': 'application/json', ...authHeaders } : authHeaders,
+        body,
+        signal,
+      });
+    } catch (error: any) {
+      if (error?.name === 'AbortError') throw error;
+      throw new AIError('network', { message: `Could not reach ${baseUrl}. Check that the server is running and allows requests from this origin (CORS).`, detail: error?.message });
+    }
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      const kind = kindForStatus(response.status);
+      throw new AIError(kind, {
+        // Unclassified statuses (400, 404 for a wrong model name, ...) are only useful with the server's own text
+        message: kind === 'unknown' ? `${response.status} ${response.statusText}${detail ? `: ${detail.slice(0, 300)}` : ''}` : undefined,
+        status: response.status,
+        retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+        detail,
+      });
+    }
+    return response;
+  };
+
+  const complete = async (request: AIRequest, extra: Record<string, unknown> = {}) => {
+    const response = await post('/chat/completions', JSON.stringify({
+      model: config.model,
+      messages: toMessages(request),
+      temperature: request.temperature,
+      ...extra,
+    }), request.signal);
+    const data = await response.json();
+    const choice = data?.choices?.[0];
+    if (choice?.finish_reason === 'content_filter') {
+      throw new AIError('safety', { detail: 'content_filter' });
+    }
+    const text = choice?.message?.content;
+    if (typeof text !== 'string' || !text) {
+      throw new AIError('empty');
+    }
+    return text;
+  };
+
+  return {
+    id: 'openai',
+
+    generateText: (request) => complete(request),
+
+    streamText: async function* (request) {
+      const response = await post('/chat/completions', JSON.stringify({
+        model: config.model,
+        messages: toMessages(request),
+        temperature: request.temperature,
+        stream: true,
+      }), request.signal);
+      if (!response.body) throw new AIError('unknown', { message: "This server does not support streaming responses." });
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffered = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffered += decoder.decode(value, { stream: true });
+        const lines = buffered.split('\n');
+        buffered = lines.pop() || '';
+        for (const line of lines) {
+          const payload = line.replace(/^data:\s*/, '').trim();
+          if (!payload || !line.startsWith('data:')) continue;
+          if (payload === '[DONE]') return;
+          const choice = JSON.parse(payload)?.choices?.[0];
+          if (choice?.finish_reason === 'content_filter') {
+            throw new AIError('safety', { detail: 'content_filter' });
+          }
+          if (choice?.delta?.content) yield choice.delta.content;
+        }
+      }
+    },
+
+    generateJson: async (request) => {
+      const schemaHint = `Respond with a single JSON value matching this JSON Schema and nothing else:\n${JSON.stringify(request.schema)}`;
+      const text = await complete(
+        { ...request, system: request.system ? `${request.system}\n\n${schemaHint}` : schemaHint },
+        { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: request.schema as JsonSchema, strict: false } } }
+      );
+      return JSON.parse(stripJsonFence(text));
+    },
+
+    synthesizeSpeech: async (text) => {
+      const response = await post('/audio/speech', JSON.stringify({
+        model: TTS_MODEL,
+        input: text,
+        voice: 'alloy',
+        response_format: 'wav',
+      }));
+      return getAudioContext().decodeAudioData(await response.arrayBuffer());
+    },
+
+    transcribeAudio: async (audio, language) => {
+      const bytes = Uint8Array.from(atob(audio.data), c => c.charCodeAt(0));
+      const form = new FormData();
+      form.append('file', new Blob([bytes], { type: audio.mimeType }), `dictation.${audio.mimeType.split('/')[1] || 'webm'}`);
+      form.append('model', TRANSCRIBE_MODEL);
+      form.append('language', language.slice(0, 2));
+      const response = await post('/audio/transcriptions', form, undefined, false);
+      const data = await response.json();
+      return typeof data?.text === 'string' ? data.text.trim() : '';
+    },
+  };
+};
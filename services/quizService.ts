@@ -0,0 +1,34 @@
+import { QuizQuestion, QuizQuestionResult } from "../types";
+
+/**
+ * Turns the raw JSON from the model into QuizQuestion[], dropping anything
+ * that could not be graded (missing choices, out-of-range answer index).
+ */
+export const normalizeQuizQuestions = (raw: any): QuizQuestion[] => {
+  const list = Array.isArray(raw) ? raw : raw?.questions;
+  if (!Array.isArray(list)) return [];
+
+  return list
+    .filter((q: any) =>
+      q &&
+      typeof q.prompt === 'string' && q.prompt.trim() &&
+      Array.isArray(q.choices) && q.choices.length >= 2 &&
+      Number.isInteger(q.answerIndex) && q.answerIndex >= 0 && q.answerIndex < q.choices.length
+    )
+    .map((q: any, i: number) => ({
+      id: `q-${i}-${Math.random().toString(36).substr(2, 6)}`,
+      prompt: q.prompt.trim(),
+      choices: q.choices.map((c: any) => String(c)),
+      answerIndex: q.answerIndex,
+      explanation: typeof q.explanation === 'string' ? q.explanation : ''
+    }));
+};
+
+export const gradeQuiz = (questions: QuizQuestion[], answers: (number | null)[]) => {
+  const results: QuizQuestionResult[] = questions.map((q, i) => {
+    const selectedIndex = answers[i] ?? null;
+    return { questionId: q.id, selectedIndex, correct: selectedIndex === q.answerIndex };
+  });
+  const score = results.filter(r => r.correct).length;
+  return { results, score };
+};
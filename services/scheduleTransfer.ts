@@ -0,0 +1,205 @@
+import { Schedule, StudySession, Subject, DayOfWeek } from "../types";
+import { DAYS } from "../constants";
+import { validateSessions } from "./scheduleValidation";
+
+export const SCHEDULE_FORMAT = 'medquest-schedule';
+export const SCHEDULE_FORMAT_VERSION = 1;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export interface ScheduleImportResult {
+  schedule: Schedule;
+  rejected: string[]; // sessions that were dropped
+  warnings: string[]; // issues with sessions that were kept
+}
+
+export const exportScheduleJson = (schedule: Schedule) => JSON.stringify({
+  format: SCHEDULE_FORMAT,
+  version: SCHEDULE_FORMAT_VERSION,
+  exportedAt: new Date().toISOString(),
+  schedule: {
+    id: schedule.id,
+    name: schedule.name,
+    createdAt: schedule.createdAt,
+    sessions: schedule.sessions.map(({ id, subject, day, startTime, endTime }) => ({ id, subject, day, startTime, endTime }))
+  }
+}, null, 2);
+
+/**
+ * Turns untrusted session objects (an import file, model output) into
+ * StudySession[]. Entries with a subject outside `subjects` (registry ids), an unknown day or malformed times are
+ * skipped, then the editor's rules apply: inverted or empty ranges are
+ * dropped and overlaps are kept but reported. Dropped sessions are listed in
+ * `rejected`, issues with the kept ones in `warnings`.
+ */
+export const normalizeSessions = (rawSessions: any[], subjects: Subject[]): { sessions: StudySession[], rejected: string[], warnings: string[] } => {
+  const rejected: string[] = [];
+  const sessions: StudySession[] = [];
+  rawSessions.forEach((s: any, i: number) => {
+    const label = `Session ${i + 1}`;
+    if (!subjects.includes(s?.subject)) {
+      rejected.push(`${label}: unknown subject "${s?.subject}"`);
+      return;
+    }
+    if (!DAYS.includes(s?.day)) {
+      rejected.push(`${label}: unknown day "${s?.day}"`);
+      return;
+    }
+    if (!TIME_PATTERN.test(s?.startTime) || !TIME_PATTERN.test(s?.endTime)) {
+      rejected.push(`${label}: times must be HH:mm`);
+      return;
+    }
+    sessions.push({
+      id: typeof s.id === 'string' && s.id ? s.id : `session-${Math.random().toString(36).substr(2, 9)}`,
+      subject: s.subject as Subject,
+      day: s.day as DayOfWeek,
+      startTime: s.startTime,
+      endTime: s.endTime
+    });
+  });
+
+  const validated = validateSessions(sessions);
+  return { sessions: validated.sessions, rejected: [...rejected, ...validated.rejected], warnings: validated.warnings };
+};
+
+/**
+ * Parses and validates an exported schedule file. Throws with a readable
+ * message when the file is not a schedule at all; individual sessions that
+ * fail validation are dropped and reported in `rejected`.
+ */
+export const parseScheduleImport = (text: string, subjects: Subject[]): ScheduleImportResult => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  // Accept a bare Schedule as well as the versioned envelope
+  const payload = raw?.format === SCHEDULE_FORMAT ? raw.schedule : raw;
+  if (raw?.format === SCHEDULE_FORMAT && (typeof raw.version !== 'number' || raw.version > SCHEDULE_FORMAT_VERSION)) {
+    throw new Error(`Unsupported schedule file version ${raw.version}. Please update MedQuest.`);
+  }
+  if (!payload || typeof payload !== 'object') throw new Error("The file does not contain a schedule.");
+  if (typeof payload.name !== 'string' || !payload.name.trim()) throw new Error("The schedule has no name.");
+  if (!Array.isArray(payload.sessions)) throw new Error("The schedule has no session list.");
+
+  const { sessions, rejected, warnings } = normalizeSessions(payload.sessions, subjects);
+
+  return {
+    schedule: {
+      id: typeof payload.id === 'string' && payload.id ? payload.id : `plan-${Date.now()}`,
+      name: payload.name.trim(),
+      sessions,
+      createdAt: typeof payload.createdAt === 'number' ? payload.createdAt : Date.now()
+    },
+    rejected,
+    warnings
+  };
+};
+
+export const findImportConflict = (existing: Schedule[], incoming: Schedule) =>
+  existing.find(s => s.id === incoming.id) || existing.find(s => s.name.toLowerCase() === incoming.name.toLowerCase());
+
+/**
+ * Merges an imported schedule into the list. 'replace' overwrites the
+ * conflicting plan in place; 'copy' keeps both, giving the import fresh ids
+ * and a distinct name.
+ */
+export const applyScheduleImport = (existing: Schedule[], incoming: Schedule, strategy: 'replace' | 'copy'): { schedules: Schedule[], imported: Schedule } => {
+  const conflict = findImportConflict(existing, incoming);
+  if (conflict && strategy === 'replace') {
+    const imported = { ...incoming, id: conflict.id };
+    return { schedules: existing.map(s => s.id === conflict.id ? imported : s), imported };
+  }
+
+  let name = incoming.name;
+  for (let n = 2; existing.some(s => s.name.toLowerCase() === name.toLowerCase()); n++) {
+    name = `${incoming.name} (${n})`;
+  }
+  const imported: Schedule = {
+    ...incoming,
+    id: conflict || existing.some(s => s.id === incoming.id) ? `plan-${Date.now()}` : incoming.id,
+    name,
+    sessions: conflict ? incoming.sessions.map(s => ({ ...s, id: `session-${Math.random().toString(36).substr(2, 9)}` })) : incoming.sessions
+  };
+  return { schedules: [...existing, imported], imported };
+};
+
+const ICS_DAYS: Record<DayOfWeek, string> = {
+  Monday: 'MO', Tuesday: 'TU', Wednesday: 'WE', Thursday: 'TH', Friday: 'FR', Saturday: 'SA', Sunday: 'SU'
+};
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+const icsLocalDateTime = (date: Date, time: string) => {
+  const [h, m] = time.split(':');
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}T${h}${m}00`;
+};
+
+const icsUtcStamp = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+const escapeIcsText = (text: string) => text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// RFC 5545 §3.1: lines longer than 75 octets are folded with CRLF + space
+const foldIcsLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+/**
+ * Builds an iCalendar file in which every weekly StudySession becomes a
+ * recurring VEVENT. Times are floating (no TZID) so they stay at the same wall
+ * clock time in whatever zone the calendar app uses.
+ */
+export const exportScheduleIcs = (schedule: Schedule, now: Date = new Date()) => {
+  const weekStart = new Date(now);
+  weekStart.setHours(0, 0, 0, 0);
+  weekStart.setDate(weekStart.getDate() - (weekStart.getDay() === 0 ? 6 : weekStart.getDay() - 1));
+  const stamp = icsUtcStamp(now);
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//MedQuest//Study Schedule//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(schedule.name)}`
+  ];
+
+  schedule.sessions.forEach(session => {
+    const date = new Date(weekStart);
+    date.setDate(weekStart.getDate() + DAYS.indexOf(session.day));
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${session.id}@${schedule.id}.medquest`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${icsLocalDateTime(date, session.startTime)}`,
+      `DTEND:${icsLocalDateTime(date, session.endTime)}`,
+      `RRULE:FREQ=WEEKLY;BYDAY=${ICS_DAYS[session.day]}`,
+      `SUMMARY:${escapeIcsText(`${session.subject} — ${schedule.name}`)}`,
+      `CATEGORIES:${escapeIcsText(session.subject)}`,
+      'END:VEVENT'
+    );
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
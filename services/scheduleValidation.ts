@@ -0,0 +1,121 @@
+import { StudySession } from "../types";
+
+export type SessionIssueCode = 'invalid_time' | 'inverted' | 'zero_length' | 'overlap' | 'too_short';
+
+export interface SessionIssue {
+  code: SessionIssueCode;
+  severity: 'error' | 'warning';
+  message: string;
+  conflictId?: string; // the session this one overlaps
+}
+
+export interface SessionValidation {
+  issues: SessionIssue[];
+  hasErrors: boolean;
+  suggestion?: { startTime: string, endTime: string };
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DAY_MINUTES = 24 * 60;
+const MIN_SESSION_MINUTES = 10;
+const SLOT_STEP_MINUTES = 5;
+
+export const toMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+export const fromMinutes = (minutes: number) => {
+  const clamped = Math.max(0, Math.min(DAY_MINUTES - 1, Math.round(minutes)));
+  return `${Math.floor(clamped / 60).toString().padStart(2, '0')}:${(clamped % 60).toString().padStart(2, '0')}`;
+};
+
+const overlaps = (startA: number, endA: number, startB: number, endB: number) => startA < endB && startB < endA;
+
+/**
+ * Closest start time to `preferredStart` on the same day where a block of
+ * `duration` minutes fits without touching any of `daySessions`. Searches
+ * outward in 5 minute steps; returns undefined if the day is full.
+ */
+export const findNearestFreeSlot = (daySessions: Pick<StudySession, 'startTime' | 'endTime'>[], duration: number, preferredStart: number) => {
+  const busy = daySessions
+    .filter(s => TIME_PATTERN.test(s.startTime) && TIME_PATTERN.test(s.endTime))
+    .map(s => [toMinutes(s.startTime), toMinutes(s.endTime)] as const);
+  const fits = (start: number) => start >= 0 && start + duration <= DAY_MINUTES - 1 && !busy.some(([bs, be]) => overlaps(start, start + duration, bs, be));
+
+  const origin = Math.round(preferredStart / SLOT_STEP_MINUTES) * SLOT_STEP_MINUTES;
+  for (let offset = 0; offset <= DAY_MINUTES; offset += SLOT_STEP_MINUTES) {
+    for (const candidate of [origin + offset, origin - offset]) {
+      if (fits(candidate)) return { startTime: fromMinutes(candidate), endTime: fromMinutes(candidate + duration) };
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Checks one session against the rest of its schedule. Malformed, inverted
+ * and zero-length ranges are errors; overlaps on the same day and very short
+ * blocks are warnings. When the session overlaps, the nearest free slot of the
+ * same length is suggested.
+ */
+export const validateSession = (session: Omit<StudySession, 'id'> & { id?: string }, existing: StudySession[]): SessionValidation => {
+  const issues: SessionIssue[] = [];
+
+  if (!TIME_PATTERN.test(session.startTime) || !TIME_PATTERN.test(session.endTime)) {
+    issues.push({ code: 'invalid_time', severity: 'error', message: 'Times must be in HH:mm format.' });
+    return { issues, hasErrors: true };
+  }
+
+  const start = toMinutes(session.startTime);
+  const end = toMinutes(session.endTime);
+  if (end < start) {
+    issues.push({ code: 'inverted', severity: 'error', message: `Ends (${session.endTime}) before it starts (${session.startTime}).` });
+  } else if (end === start) {
+    issues.push({ code: 'zero_length', severity: 'error', message: 'Start and end time are the same.' });
+  } else if (end - start < MIN_SESSION_MINUTES) {
+    issues.push({ code: 'too_short', severity: 'warning', message: `Only ${end - start} min long.` });
+  }
+
+  const sameDay = existing.filter(s => s.day === session.day && s.id !== session.id);
+  if (end > start) {
+    sameDay
+      .filter(s => TIME_PATTERN.test(s.startTime) && TIME_PATTERN.test(s.endTime) && overlaps(start, end, toMinutes(s.startTime), toMinutes(s.endTime)))
+      .forEach(s => issues.push({
+        code: 'overlap',
+        severity: 'warning',
+        message: `Overlaps ${s.subject} ${s.startTime}–${s.endTime} on ${s.day}.`,
+        conflictId: s.id
+      }));
+  }
+
+  const hasErrors = issues.some(i => i.severity === 'error');
+  const needsSlot = issues.some(i => i.code === 'overlap') || (hasErrors && issues[0].code !== 'invalid_time');
+  const duration = end > start ? end - start : 60;
+  const suggestion = needsSlot ? findNearestFreeSlot(sameDay, duration, start) : undefined;
+
+  return { issues, hasErrors, suggestion };
+};
+
+/**
+ * Runs validateSession over a whole list (imports, AI-generated plans).
+ * Sessions with errors are dropped; the rest are kept in order, each checked
+ * against the ones accepted before it. Returns human-readable notes for both.
+ */
+export const validateSessions = (sessions: StudySession[]) => {
+  const accepted: StudySession[] = [];
+  const rejected: string[] = [];
+  const warnings: string[] = [];
+
+  sessions.forEach(session => {
+    const label = `${session.subject} ${session.day} ${session.startTime}–${session.endTime}`;
+    const { issues, hasErrors } = validateSession(session, accepted);
+    if (hasErrors) {
+      rejected.push(`${label}: ${issues.filter(i => i.severity === 'error').map(i => i.message).join(' ')}`);
+      return;
+    }
+    issues.forEach(i => warnings.push(`${label}: ${i.message}`));
+    accepted.push(session);
+  });
+
+  return { sessions: accepted, rejected, warnings };
+};
@@ -0,0 +1,290 @@
+import { AIProviderConfig } from "../types";
+import { synthesizeSpeech } from "./aiService";
+import { getAudioContext } from "./audioService";
+
+export const SPEECH_RATES = [0.75, 1, 1.25, 1.5, 2];
+
+// Short first chunks start audio quickly; later ones stay under the TTS model's comfortable input size
+const FIRST_CHUNK_CHARS = 160;
+const MAX_CHUNK_CHARS = 400;
+// Decoded 24kHz mono is ~100KB per second of speech, so keep the cache to a few minutes of audio
+const MAX_CACHED_CHUNKS = 48;
+
+export type PlaybackStatus = 'idle' | 'loading' | 'playing' | 'paused';
+
+export interface PlaybackState {
+  messageId: string | null;
+  status: PlaybackStatus;
+  chunkIndex: number;
+  chunkCount: number;
+  queued: number; // messages waiting after the current one
+  rate: number;
+  error: string | null;
+}
+
+const GREEK = /\\(alpha|beta|gamma|delta|epsilon|theta|lambda|mu|pi|rho|sigma|tau|phi|omega|Delta|Sigma|Omega)\b/g;
+
+// Turns a LaTeX fragment into something a voice can read aloud
+const speakableMath = (tex: string) => tex
+  .replace(/\\frac\{([^{}]*)\}\{([^{}]*)\}/g, ' $1 over $2 ')
+  .replace(/\\sqrt\{([^{}]*)\}/g, ' square root of $1 ')
+  .replace(/\^\{?2\}?/g, ' squared ')
+  .replace(/\^\{?3\}?/g, ' cubed ')
+  .replace(/\^\{([^{}]*)\}|\^(\S)/g, ' to the power $1$2 ')
+  .replace(/_\{([^{}]*)\}|_(\S)/g, ' $1$2 ')
+  .replace(/\\(times|cdot)\b/g, ' times ')
+  .replace(/\\(rightarrow|to|longrightarrow)\b/g, ' gives ')
+  .replace(/\\(leq|le)\b/g, ' less than or equal to ')
+  .replace(/\\(geq|ge)\b/g, ' greater than or equal to ')
+  .replace(/\\approx\b/g, ' approximately ')
+  .replace(GREEK, ' $1 ')
+  .replace(/\\[a-zA-Z]+/g, ' ')
+  .replace(/[{}\\]/g, ' ')
+  .replace(/=/g, ' equals ');
+
+/**
+ * Reduces a markdown tutor reply to plain speakable text: code and chart
+ * blocks are dropped, links and emphasis are unwrapped, and LaTeX is read
+ * out in words.
+ */
+export const toSpeakableText = (markdown: string) => markdown
+  .replace(/```chart[\s\S]*?```/g, ' (see the chart) ')
+  .replace(/```[\s\S]*?```/g, ' (see the code block) ')
+  .replace(/\$\$([\s\S]*?)\$\$/g, (_, tex) => ` ${speakableMath(tex)}. `)
+  .replace(/\$([^$\n]+)\$/g, (_, tex) => ` ${speakableMath(tex)} `)
+  .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+  .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+  .replace(/`([^`]*)`/g, '$1')
+  .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+  .replace(/^\s*\|?\s*:?-{3,}.*$/gm, '')
+  .replace(/^\s*\|(.*)\|\s*$/gm, '$1.')
+  .replace(/\s*\|\s*/g, ', ')
+  .replace(/(\*\*|__|\*|_|~~)(?=\S)([^*_~\n]+?)\1/g, '$2')
+  .replace(/[ \t]+/g, ' ')
+  .replace(/\n{2,}/g, '\n')
+  .trim();
+
+const splitLong = (sentence: string, limit: number): string[] => {
+  if (sentence.length <= limit) return [sentence];
+  const parts: string[] = [];
+  let rest = sentence;
+  while (rest.length > limit) {
+    // Prefer a clause boundary, then any space (Thai has few), then a hard cut
+    let cut = Math.max(rest.lastIndexOf(', ', limit), rest.lastIndexOf('; ', limit));
+    if (cut < limit / 2) cut = rest.lastIndexOf(' ', limit);
+    if (cut < limit / 2) cut = limit;
+    parts.push(rest.slice(0, cut + 1).trim());
+    rest = rest.slice(cut + 1);
+  }
+  if (rest.trim()) parts.push(rest.trim());
+  return parts;
+};
+
+/**
+ * Splits speakable text into sentence-aligned chunks for sequential
+ * synthesis. Sentences are packed together up to the chunk size so short
+ * lines don't each cost a request.
+ */
+export const chunkForSpeech = (text: string): string[] => {
+  const sentences = text
+    .split(/(?<=[.!?。])\s+|\n+/)
+    .map(s => s.trim())
+    .filter(s => /[\p{L}\p{N}]/u.test(s));
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const sentence of sentences) {
+    const limit = chunks.length === 0 ? FIRST_CHUNK_CHARS : MAX_CHUNK_CHARS;
+    for (const piece of splitLong(sentence, limit)) {
+      if (current && current.length + piece.length + 1 > limit) {
+        chunks.push(current);
+        current = '';
+      }
+      current = current ? `${current} ${piece}` : piece;
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+};
+
+// --- Audio cache ---------------------------------------------------------
+
+const audioCache = new Map<string, Promise<AudioBuffer>>();
+
+const loadChunk = (text: string, config: AIProviderConfig) => {
+  // Different providers and models have different voices
+  const key = `${config.provider}:${config.model}:${text}`;
+  const cached = audioCache.get(key);
+  if (cached) {
+    // Re-insert so the Map's insertion order doubles as LRU order
+    audioCache.delete(key);
+    audioCache.set(key, cached);
+    return cached;
+  }
+  const pending = synthesizeSpeech(text, config);
+  pending.catch(() => audioCache.delete(key));
+  audioCache.set(key, pending);
+  while (audioCache.size > MAX_CACHED_CHUNKS) {
+    audioCache.delete(audioCache.keys().next().value as string);
+  }
+  return pending;
+};
+
+// --- Player --------------------------------------------------------------
+
+interface QueueItem {
+  messageId: string;
+  chunks: string[];
+  config: AIProviderConfig;
+}
+
+let queue: QueueItem[] = [];
+let chunkIndex = 0;
+let status: PlaybackStatus = 'idle';
+let rate = 1;
+let lastError: string | null = null;
+let source: AudioBufferSourceNode | null = null;
+let startedAt = 0; // AudioContext time the current source started
+let offset = 0; // seconds of the current buffer already played
+// Bumped on every stop/skip so in-flight synthesis for an abandoned chunk is ignored
+let generation = 0;
+const listeners = new Set<(state: PlaybackState) => void>();
+
+export const getPlaybackState = (): PlaybackState => ({
+  messageId: queue[0]?.messageId ?? null,
+  status,
+  chunkIndex,
+  chunkCount: queue[0]?.chunks.length ?? 0,
+  queued: Math.max(0, queue.length - 1),
+  rate,
+  error: lastError,
+});
+
+const emit = () => {
+  const state = getPlaybackState();
+  listeners.forEach(l => l(state));
+};
+
+export const subscribePlayback = (listener: (state: PlaybackState) => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const releaseSource = () => {
+  if (!source) return;
+  source.onended = null;
+  try { source.stop(); } catch (e) {}
+  source.disconnect();
+  source = null;
+};
+
+const advance = () => {
+  releaseSource();
+  offset = 0;
+  chunkIndex++;
+  if (queue[0] && chunkIndex >= queue[0].chunks.length) {
+    queue = queue.slice(1);
+    chunkIndex = 0;
+  }
+  if (queue.length === 0) {
+    status = 'idle';
+    emit();
+    return;
+  }
+  playCurrent();
+};
+
+const playCurrent = async () => {
+  const item = queue[0];
+  if (!item) return;
+  const token = ++generation;
+  const text = item.chunks[chunkIndex];
+  status = 'loading';
+  emit();
+
+  let buffer: AudioBuffer;
+  try {
+    buffer = await loadChunk(text, item.config);
+  } catch (error: any) {
+    if (token !== generation) return;
+    // Reported once with the stop, so listeners don't see a stale error on the next change
+    lastError = error?.message || "Speech synthesis failed.";
+    stopPlayback();
+    lastError = null;
+    return;
+  }
+  // Warm the next chunk while this one plays
+  const next = item.chunks[chunkIndex + 1];
+  if (next) loadChunk(next, item.config).catch(() => {});
+
+  if (token !== generation || (status as PlaybackStatus) === 'paused') return;
+
+  const ctx = getAudioContext();
+  source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.playbackRate.value = rate;
+  source.connect(ctx.destination);
+  source.onended = advance;
+  startedAt = ctx.currentTime;
+  source.start(0, offset);
+  status = 'playing';
+  emit();
+};
+
+/** Stops whatever is playing and reads the given message from the start. */
+export const playMessage = (messageId: string, markdown: string, config: AIProviderConfig) => {
+  stopPlayback();
+  enqueueMessage(messageId, markdown, config);
+};
+
+/** Appends a message to the queue; starts playback if nothing is playing. */
+export const enqueueMessage = (messageId: string, markdown: string, config: AIProviderConfig) => {
+  const chunks = chunkForSpeech(toSpeakableText(markdown));
+  if (chunks.length === 0) return;
+  queue = [...queue, { messageId, chunks, config }];
+  if (status === 'idle') {
+    chunkIndex = 0;
+    offset = 0;
+    playCurrent();
+  } else {
+    emit();
+  }
+};
+
+export const pausePlayback = () => {
+  if (status === 'playing' && source) {
+    offset += (getAudioContext().currentTime - startedAt) * rate;
+    releaseSource();
+  }
+  if (status === 'playing' || status === 'loading') {
+    status = 'paused';
+    emit();
+  }
+};
+
+export const resumePlayback = () => {
+  if (status !== 'paused') return;
+  playCurrent();
+};
+
+export const stopPlayback = () => {
+  generation++;
+  releaseSource();
+  queue = [];
+  chunkIndex = 0;
+  offset = 0;
+  status = 'idle';
+  emit();
+};
+
+export const setPlaybackRate = (value: number) => {
+  if (source && status === 'playing') {
+    // Bank the time played at the old rate so a later pause resumes at the right spot
+    const now = getAudioContext().currentTime;
+    offset += (now - startedAt) * rate;
+    startedAt = now;
+    source.playbackRate.value = value;
+  }
+  rate = value;
+  emit();
+};
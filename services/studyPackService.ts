@@ -0,0 +1,120 @@
+import { Conversation, SavedNote, Subject } from "../types";
+import { suggestNoteTitle } from "./noteService";
+
+export interface StudyPackSection {
+  id: string; // Anchor for the table of contents
+  subject: Subject;
+  title: string;
+  date: number;
+  question?: string; // Conversation packs: the student's question above the answer
+  content: string; // Markdown
+}
+
+export interface StudyPack {
+  title: string;
+  createdAt: number;
+  sections: StudyPackSection[];
+}
+
+export type StudyPackFormat = 'html' | 'pdf';
+
+/** Notes in the order given (the Vault's current sort), one section each. */
+export const packFromNotes = (notes: SavedNote[], title: string): StudyPack => ({
+  title,
+  createdAt: Date.now(),
+  sections: notes.map(n => ({ id: `note-${n.id}`, subject: n.subject, title: n.title, date: n.timestamp, content: n.content })),
+});
+
+/** One section per answered question; failed and empty replies are left out. */
+export const packFromConversation = (conversation: Conversation): StudyPack => {
+  const sections: StudyPackSection[] = [];
+  conversation.messages.forEach((m, i) => {
+    if (m.role !== 'model' || m.error || !m.content.trim()) return;
+    const question = conversation.messages[i - 1]?.role === 'user' ? conversation.messages[i - 1].content : '';
+    sections.push({
+      id: `msg-${m.id}`,
+      subject: conversation.subject,
+      title: suggestNoteTitle(question || m.content),
+      date: m.timestamp,
+      question,
+      content: m.content,
+    });
+  });
+  return { title: conversation.title, createdAt: Date.now(), sections };
+};
+
+/** Sections grouped under subject headers, subjects in order of first appearance. */
+export const groupSectionsBySubject = (sections: StudyPackSection[]) => {
+  const groups: { subject: Subject, sections: StudyPackSection[] }[] = [];
+  sections.forEach(section => {
+    const group = groups.find(g => g.subject === section.subject);
+    if (group) group.sections.push(section);
+    else groups.push({ subject: section.subject, sections: [section] });
+  });
+  return groups;
+};
+
+export const studyPackFilename = (pack: StudyPack) =>
+  `Study_Pack_${pack.title.replace(/[^\p{L}\p{N}]+/gu, '_').replace(/^_|_$/g, '').slice(0, 60) || 'MedQuest'}_${new Date(pack.createdAt).toISOString().split('T')[0]}.html`;
+
+const escapeHtml = (text: string) => text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+// Packs are read offline, so everything they need is inline: math is exported as MathML
+// (no KaTeX fonts to fetch) and charts and structures are already SVG.
+const PACK_STYLES = `
+  * { box-sizing: border-box; }
+  body { font-family: "Inter", "Sarabun", "Noto Sans Thai", system-ui, sans-serif; color: #0f172a; margin: 0; line-height: 1.6; font-size: 14px; }
+  main { max-width: 820px; margin: 0 auto; padding: 48px 32px; }
+  header.pack { border-bottom: 3px solid #0f172a; padding-bottom: 16px; margin-bottom: 32px; }
+  header.pack h1 { font-size: 28px; margin: 0; letter-spacing: -0.02em; }
+  header.pack p { color: #64748b; font-size: 12px; margin: 6px 0 0; text-transform: uppercase; letter-spacing: 0.15em; }
+  nav.toc { background: #f8fafc; border: 1px solid #e2e8f0; border-radius: 12px; padding: 20px 24px; margin-bottom: 40px; }
+  nav.toc h2 { font-size: 12px; text-transform: uppercase; letter-spacing: 0.2em; margin: 0 0 12px; color: #475569; }
+  nav.toc > ol { margin: 0; padding: 0; list-style: none; }
+  nav.toc .toc-subject { font-weight: 700; margin-top: 12px; }
+  nav.toc .toc-subject ol { font-weight: 400; margin: 4px 0 0; padding-left: 22px; }
+  nav.toc li li { margin: 4px 0; }
+  nav.toc a { color: #1d4ed8; text-decoration: none; }
+  h2.subject { display: flex; align-items: center; gap: 10px; font-size: 20px; margin: 48px 0 16px; padding: 10px 16px; border-radius: 10px; color: #fff; }
+  article { margin-bottom: 36px; break-inside: auto; }
+  article > h3 { font-size: 17px; margin: 0 0 4px; }
+  article > .meta { color: #94a3b8; font-size: 11px; margin-bottom: 12px; }
+  .question { background: #eff6ff; border-left: 4px solid #3b82f6; padding: 10px 14px; border-radius: 6px; margin-bottom: 12px; white-space: pre-wrap; }
+  table { border-collapse: collapse; width: 100%; margin: 12px 0; font-size: 13px; }
+  th, td { border: 1px solid #cbd5e1; padding: 6px 10px; text-align: left; vertical-align: top; }
+  th { background: #f1f5f9; }
+  pre { background: #f1f5f9; padding: 12px; border-radius: 8px; overflow-x: auto; font-size: 12px; }
+  code { font-family: ui-monospace, monospace; }
+  img, svg { max-width: 100%; }
+  figure, .recharts-wrapper { margin: 16px auto; text-align: center; break-inside: avoid; }
+  /* The app sizes structures with Tailwind classes, which packs do not ship */
+  figure svg { width: 320px; height: 220px; }
+  sub, sup { font-size: 0.7em; }
+  .katex-display { overflow-x: auto; margin: 12px 0; }
+  @media print {
+    main { padding: 0; }
+    nav.toc { break-after: page; }
+    h2.subject { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+    section + section h2.subject { break-before: page; }
+    a { color: inherit; }
+  }
+`;
+
+/**
+ * Wraps a rendered pack body in a standalone document. For PDF the document
+ * opens the print dialog itself once loaded, where "Save as PDF" produces
+ * the file.
+ */
+export const wrapStudyPackHtml = (pack: StudyPack, bodyHtml: string, format: StudyPackFormat) => `<!DOCTYPE html>
+<html lang="th">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(pack.title)}</title>
+<style>${PACK_STYLES}</style>
+</head>
+<body>
+<main>${bodyHtml}</main>
+${format === 'pdf' ? '<script>window.addEventListener("load", function () { setTimeout(function () { window.print(); }, 200); });</script>' : ''}
+</body>
+</html>`;
@@ -0,0 +1,85 @@
+import { StudyPlanRequest, StudySession } from "../types";
+import { DAYS } from "../constants";
+import { normalizeSessions } from "./scheduleTransfer";
+import { toMinutes } from "./scheduleValidation";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LATEST_END = '23:30';
+
+const weeksUntil = (date: string | undefined, now: number) => {
+  if (!date) return null;
+  const time = new Date(`${date}T00:00:00`).getTime();
+  if (Number.isNaN(time)) return null;
+  return Math.max(0, Math.round((time - now) / (7 * DAY_MS)));
+};
+
+export const buildStudyPlanPrompt = (request: StudyPlanRequest, now: number = Date.now()) => {
+  const exams = [
+    ['A-Level', request.examDates.aLevel],
+    ['TPAT1', request.examDates.tpat1],
+  ]
+    .filter(([, date]) => date)
+    .map(([name, date]) => `- ${name}: ${date} (${weeksUntil(date, now)} weeks away)`)
+    .join('\n') || '- No exam dates given';
+  const availability = DAYS.map(d => `- ${d}: ${request.availableHours[d] || 0} h`).join('\n');
+  const weakness = Object.entries(request.weakness).map(([s, level]) => `- ${s}: ${level}/5`).join('\n');
+
+  return `Design ONE repeating weekly study timetable for a Thai student preparing for medical school entrance exams.
+
+Exams:
+${exams}
+
+Available study hours per day (never exceed these):
+${availability}
+
+Self-rated weakness per subject (5 = weakest, needs the most time):
+${weakness}
+
+Rules:
+- Sessions start no earlier than ${request.earliestStart} and end by ${LATEST_END}.
+- Use 24-hour HH:mm times. Sessions on the same day must not overlap.
+- Blocks are 45–120 minutes with at least 10 minutes between them.
+- Weight weekly time toward weaker subjects, but give every subject with a weakness of 2 or more at least one block.
+- Put TPAT1 practice closer to its exam if it is sooner than A-Level.`;
+};
+
+/**
+ * Validates model output into StudySession[] with the editor's rules, then
+ * drops sessions outside the allowed hours and trims any day that goes over
+ * the student's available hours.
+ */
+export const finalizeStudyPlan = (raw: any, request: StudyPlanRequest): { sessions: StudySession[], warnings: string[] } => {
+  const list = Array.isArray(raw) ? raw : raw?.sessions;
+  if (!Array.isArray(list)) return { sessions: [], warnings: ["The AI node returned no sessions."] };
+
+  // The weakness ratings cover exactly the subjects the student offered for planning
+  const { sessions, rejected, warnings: keptWarnings } = normalizeSessions(list, Object.keys(request.weakness));
+  const warnings = [...rejected, ...keptWarnings];
+  const earliest = /^\d{2}:\d{2}$/.test(request.earliestStart) ? toMinutes(request.earliestStart) : 0;
+  const kept: StudySession[] = [];
+  DAYS.forEach(day => {
+    const budget = (request.availableHours[day] || 0) * 60;
+    let used = 0;
+    sessions
+      .filter(s => s.day === day)
+      .sort((a, b) => a.startTime.localeCompare(b.startTime))
+      .forEach(s => {
+        const length = toMinutes(s.endTime) - toMinutes(s.startTime);
+        if (toMinutes(s.startTime) < earliest) {
+          warnings.push(`${s.subject} ${day} ${s.startTime}–${s.endTime}: dropped, starts before ${request.earliestStart}`);
+          return;
+        }
+        if (toMinutes(s.endTime) > toMinutes(LATEST_END)) {
+          warnings.push(`${s.subject} ${day} ${s.startTime}–${s.endTime}: dropped, ends after ${LATEST_END}`);
+          return;
+        }
+        if (used + length > budget) {
+          warnings.push(`${s.subject} ${day} ${s.startTime}–${s.endTime}: dropped, over the ${request.availableHours[day] || 0} h available`);
+          return;
+        }
+        used += length;
+        kept.push(s);
+      });
+  });
+  return { sessions: kept, warnings };
+};
@@ -0,0 +1,87 @@
+import { Subject, SubjectDefinition } from "../types";
+import { DEFAULT_SUBJECTS } from "../constants";
+
+// Bumped when the stored registry shape changes; loadSubjects migrates older versions
+export const SUBJECTS_STORAGE_VERSION = 1;
+
+const HEX_PATTERN = /^#[0-9a-f]{6}$/i;
+const FALLBACK_COLOR = '#64748b';
+const FALLBACK_ICON = '📘';
+
+export const SUBJECT_COLOR_PRESETS = ['#3b82f6', '#6366f1', '#22c55e', '#10b981', '#f97316', '#ef4444', '#a855f7', '#ec4899', '#eab308', '#14b8a6', '#0ea5e9', '#64748b'];
+
+/**
+ * Display info for any subject id, including ones whose definition was
+ * deleted: old notes, cards and sessions then render with a neutral badge
+ * instead of breaking.
+ */
+export const subjectInfo = (subjects: SubjectDefinition[], id: Subject | null | undefined): SubjectDefinition =>
+  subjects.find(s => s.id === id) || {
+    id: id || '',
+    name: id || 'Unassigned',
+    color: FALLBACK_COLOR,
+    icon: FALLBACK_ICON,
+    description: '',
+    prompt: '',
+  };
+
+export const visibleSubjects = (subjects: SubjectDefinition[]) => subjects.filter(s => !s.hidden);
+
+/** Returns null when the entry cannot be used at all (no id or name). Built-in status is decided by loadSubjects, never by stored data. */
+export const sanitizeSubject = (raw: any): SubjectDefinition | null => {
+  const name = typeof raw?.name === 'string' ? raw.name.trim().slice(0, 40) : '';
+  const id = typeof raw?.id === 'string' && raw.id.trim() ? raw.id.trim() : name;
+  if (!id || !name) return null;
+  return {
+    id,
+    name,
+    color: HEX_PATTERN.test(raw.color) ? raw.color.toLowerCase() : FALLBACK_COLOR,
+    icon: typeof raw.icon === 'string' && raw.icon.trim() ? Array.from(raw.icon.trim() as string).slice(0, 4).join('') : FALLBACK_ICON,
+    description: typeof raw.description === 'string' ? raw.description.trim().slice(0, 120) : '',
+    prompt: typeof raw.prompt === 'string' ? raw.prompt.trim().slice(0, 4000) : '',
+    ...(raw.hidden ? { hidden: true } : {}),
+  };
+};
+
+/**
+ * Reads the stored registry. Users from before the registry existed have
+ * nothing stored and get the seven built-ins, which is exactly what their
+ * data already refers to. Built-ins missing from a stored list are put
+ * back, and a built-in with a blank prompt falls back to the default one.
+ */
+export const loadSubjects = (stored: unknown): SubjectDefinition[] => {
+  const payload = stored as { version?: number, subjects?: unknown } | null;
+  if (!payload || !Array.isArray(payload.subjects)) return DEFAULT_SUBJECTS;
+
+  const seen = new Set<string>();
+  const subjects: SubjectDefinition[] = [];
+  payload.subjects.forEach(raw => {
+    const subject = sanitizeSubject(raw);
+    if (!subject || seen.has(subject.id)) return;
+    const builtin = DEFAULT_SUBJECTS.find(d => d.id === subject.id);
+    seen.add(subject.id);
+    subjects.push(builtin ? { ...subject, builtin: true, prompt: subject.prompt || builtin.prompt } : subject);
+  });
+  DEFAULT_SUBJECTS.forEach(d => { if (!seen.has(d.id)) subjects.push(d); });
+  return subjects;
+};
+
+export const serializeSubjects = (subjects: SubjectDefinition[]) =>
+  JSON.stringify({ version: SUBJECTS_STORAGE_VERSION, subjects });
+
+/** Checks a new or edited subject against the registry; returns an error message or null. */
+export const validateSubject = (subject: SubjectDefinition, subjects: SubjectDefinition[]) => {
+  if (!subject.name.trim()) return "Give the subject a name.";
+  const clash = subjects.find(s => s.id !== subject.id && (s.name.toLowerCase() === subject.name.trim().toLowerCase() || s.id.toLowerCase() === subject.name.trim().toLowerCase()));
+  if (clash) return `A subject called "${clash.name}" already exists.`;
+  if (!subject.prompt.trim()) return "Describe what the tutor should focus on.";
+  return null;
+};
+
+/** Ids are taken from the name when free, so AI output and exports stay readable. */
+export const createSubjectId = (name: string, subjects: SubjectDefinition[]) => {
+  const base = name.trim().replace(/\s+/g, ' ');
+  let id = base;
+  for (let n = 2; subjects.some(s => s.id.toLowerCase() === id.toLowerCase()); n++) id = `${base} ${n}`;
+  return id;
+};
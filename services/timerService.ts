@@ -0,0 +1,128 @@
+import { TimerMode, TimerProfile, TimerState } from "../types";
+import { DEFAULT_TIMER_PROFILES } from "../constants";
+
+export const phaseSeconds = (profile: TimerProfile, mode: TimerMode) => {
+  const minutes = mode === 'study' ? profile.studyMinutes : mode === 'longBreak' ? profile.longBreakMinutes : profile.shortBreakMinutes;
+  return Math.max(1, Math.round(minutes * 60));
+};
+
+export const initialTimerState = (profile: TimerProfile): TimerState => ({
+  isActive: false,
+  timeLeft: phaseSeconds(profile, 'study'),
+  mode: 'study',
+  completedCycles: 0
+});
+
+/**
+ * The phase that follows `state` once its countdown hits zero. Every
+ * `cyclesBeforeLongBreak` study phases earn a long break instead of a short one.
+ */
+export const nextTimerPhase = (profile: TimerProfile, state: TimerState): TimerState => {
+  if (state.mode === 'study') {
+    const completedCycles = state.completedCycles + 1;
+    const mode: TimerMode = completedCycles >= Math.max(1, profile.cyclesBeforeLongBreak) ? 'longBreak' : 'break';
+    return {
+      isActive: profile.autoStartBreaks,
+      mode,
+      timeLeft: phaseSeconds(profile, mode),
+      completedCycles: mode === 'longBreak' ? 0 : completedCycles
+    };
+  }
+  return {
+    isActive: profile.autoStartStudy,
+    mode: 'study',
+    timeLeft: phaseSeconds(profile, 'study'),
+    completedCycles: state.completedCycles
+  };
+};
+
+// Auto-start can chain phases forever; after this many missed in a row the timer stops and waits
+const MAX_CATCH_UP_PHASES = 50;
+
+/** Seconds left in the phase; a running timer reads them off the clock. */
+export const remainingSeconds = (state: TimerState, now: number) =>
+  state.isActive && state.endsAt ? Math.max(0, Math.ceil((state.endsAt - now) / 1000)) : state.timeLeft;
+
+export const startTimer = (state: TimerState, now: number): TimerState => ({
+  ...state,
+  isActive: true,
+  endsAt: now + state.timeLeft * 1000,
+  phaseStartedAt: state.mode === 'study' ? state.phaseStartedAt ?? now : undefined
+});
+
+export const pauseTimer = (state: TimerState, now: number): TimerState => ({
+  ...state,
+  isActive: false,
+  timeLeft: remainingSeconds(state, now),
+  endsAt: undefined
+});
+
+/**
+ * Moves a running timer past every deadline that has gone by, e.g. while
+ * the phone was locked. Auto-started phases are chained off the previous
+ * deadline rather than `now`, so the schedule stays as if the app had been
+ * watching. Returns the current phase and the phases that ended, oldest first.
+ */
+export const advanceTimer = (profile: TimerProfile, state: TimerState, now: number) => {
+  const ended: TimerState[] = [];
+  let current = state;
+  while (current.isActive && current.endsAt && current.endsAt <= now) {
+    ended.push(current);
+    const next = nextTimerPhase(profile, current);
+    current = next.isActive && ended.length < MAX_CATCH_UP_PHASES ? startTimer(next, current.endsAt) : { ...next, isActive: false };
+  }
+  return { state: { ...current, timeLeft: remainingSeconds(current, now) }, ended };
+};
+
+/** Restores a stored timer; anything unreadable starts over from the profile. */
+export const loadTimerState = (stored: any, profile: TimerProfile): TimerState => {
+  const modes: TimerMode[] = ['study', 'break', 'longBreak'];
+  if (!stored || !modes.includes(stored.mode) || !(stored.timeLeft >= 0)) return initialTimerState(profile);
+  const isActive = stored.isActive === true && typeof stored.endsAt === 'number';
+  return {
+    isActive,
+    mode: stored.mode,
+    timeLeft: Math.round(stored.timeLeft),
+    completedCycles: Math.max(0, Math.round(Number(stored.completedCycles) || 0)),
+    ...(isActive ? { endsAt: stored.endsAt } : {}),
+    ...(stored.mode === 'study' && typeof stored.phaseStartedAt === 'number' ? { phaseStartedAt: stored.phaseStartedAt } : {})
+  };
+};
+
+export const timerModeLabel = (mode: TimerMode) => mode === 'study' ? 'Study' : mode === 'longBreak' ? 'Long Break' : 'Break';
+
+// Validates a profile edited in settings, clamping every duration to a sane range
+export const sanitizeTimerProfile = (profile: TimerProfile): TimerProfile => {
+  const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, Math.round(Number(value) || min)));
+  return {
+    ...profile,
+    name: profile.name.trim() || 'Custom',
+    studyMinutes: clamp(profile.studyMinutes, 1, 240),
+    shortBreakMinutes: clamp(profile.shortBreakMinutes, 1, 60),
+    longBreakMinutes: clamp(profile.longBreakMinutes, 1, 120),
+    cyclesBeforeLongBreak: clamp(profile.cyclesBeforeLongBreak, 1, 12)
+  };
+};
+
+/**
+ * Reads stored profiles through sanitizeTimerProfile, so hand-edited or older
+ * entries never reach the timer with a missing or non-positive duration.
+ * Entries without an id are dropped; an empty list falls back to the defaults.
+ */
+export const loadTimerProfiles = (stored: unknown): TimerProfile[] => {
+  if (!Array.isArray(stored)) return DEFAULT_TIMER_PROFILES;
+  const profiles = stored.flatMap((raw: any): TimerProfile[] => {
+    if (typeof raw?.id !== 'string' || !raw.id) return [];
+    return [sanitizeTimerProfile({
+      id: raw.id,
+      name: typeof raw.name === 'string' ? raw.name : '',
+      studyMinutes: Number(raw.studyMinutes),
+      shortBreakMinutes: Number(raw.shortBreakMinutes),
+      longBreakMinutes: Number(raw.longBreakMinutes),
+      cyclesBeforeLongBreak: Number(raw.cyclesBeforeLongBreak),
+      autoStartBreaks: raw.autoStartBreaks === true,
+      autoStartStudy: raw.autoStartStudy === true
+    })];
+  });
+  return profiles.length ? profiles : DEFAULT_TIMER_PROFILES;
+};
@@ -0,0 +1,165 @@
+import { VoiceLanguage } from "../types";
+
+export const VOICE_LANGUAGES: { id: VoiceLanguage, label: string }[] = [
+  { id: 'th-TH', label: 'TH' },
+  { id: 'en-US', label: 'EN' },
+];
+
+// Long enough for a worded question, short enough to stay a small inlineData request
+const MAX_RECORDING_MS = 60 * 1000;
+
+export interface DictationHandlers {
+  // Called with the full transcript so far; interim results are replaced as recognition refines them
+  onTranscript: (text: string, isFinal: boolean) => void;
+  onError: (message: string) => void;
+  onEnd: () => void;
+  // Used by the recording fallback to turn captured audio into text
+  transcribe: (audio: { data: string, mimeType: string }, language: VoiceLanguage) => Promise<string>;
+}
+
+export interface DictationSession {
+  stop: () => void;
+  cancel: () => void;
+}
+
+const getSpeechRecognition = (): any => {
+  const w = window as any;
+  return w.SpeechRecognition || w.webkitSpeechRecognition || null;
+};
+
+export const isDictationSupported = () =>
+  !!getSpeechRecognition() || (typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia);
+
+const describeMicError = (code: string) => {
+  switch (code) {
+    case 'not-allowed':
+    case 'NotAllowedError':
+    case 'service-not-allowed':
+      return "Microphone access was blocked. Allow it in your browser settings to dictate.";
+    case 'audio-capture':
+    case 'NotFoundError':
+      return "No microphone was found on this device.";
+    case 'network':
+      return "Speech recognition needs a network connection.";
+    case 'no-speech':
+      return "No speech was detected. Try again a little closer to the microphone.";
+    default:
+      return "Dictation failed. Please type your question instead.";
+  }
+};
+
+const blobToBase64 = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => {
+    const result = reader.result as string;
+    resolve(result.slice(result.indexOf(',') + 1));
+  };
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+const startRecognition = (Recognition: any, language: VoiceLanguage, handlers: DictationHandlers): DictationSession => {
+  const recognition = new Recognition();
+  recognition.lang = language;
+  recognition.continuous = true;
+  recognition.interimResults = true;
+  let cancelled = false;
+
+  recognition.onresult = (event: any) => {
+    let text = '';
+    let isFinal = true;
+    for (let i = 0; i < event.results.length; i++) {
+      text += event.results[i][0].transcript;
+      if (!event.results[i].isFinal) isFinal = false;
+    }
+    if (!cancelled) handlers.onTranscript(text.trim(), isFinal);
+  };
+  recognition.onerror = (event: any) => {
+    // 'aborted' is what cancel() itself produces
+    if (event.error !== 'aborted') handlers.onError(describeMicError(event.error));
+  };
+  recognition.onend = () => handlers.onEnd();
+  recognition.start();
+
+  return {
+    stop: () => recognition.stop(),
+    cancel: () => { cancelled = true; recognition.abort(); },
+  };
+};
+
+const startRecording = (language: VoiceLanguage, handlers: DictationHandlers): DictationSession => {
+  let recorder: MediaRecorder | null = null;
+  let stream: MediaStream | null = null;
+  let cancelled = false;
+  let stopRequested = false;
+  let limitTimer: ReturnType<typeof setTimeout> | undefined;
+  const chunks: Blob[] = [];
+
+  const release = () => {
+    clearTimeout(limitTimer);
+    stream?.getTracks().forEach(t => t.stop());
+  };
+
+  navigator.mediaDevices.getUserMedia({ audio: true }).then(media => {
+    stream = media;
+    if (cancelled || stopRequested) {
+      release();
+      handlers.onEnd();
+      return;
+    }
+    recorder = new MediaRecorder(media);
+    recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+    recorder.onstop = async () => {
+      release();
+      if (cancelled || chunks.length === 0) {
+        handlers.onEnd();
+        return;
+      }
+      try {
+        const blob = new Blob(chunks, { type: recorder?.mimeType || 'audio/webm' });
+        // Gemini rejects codec parameters such as "audio/webm;codecs=opus"
+        const mimeType = blob.type.split(';')[0];
+        const text = await handlers.transcribe({ data: await blobToBase64(blob), mimeType }, language);
+        if (!cancelled) handlers.onTranscript(text, true);
+      } catch (error: any) {
+        if (!cancelled) handlers.onError(error?.message || describeMicError(''));
+      } finally {
+        handlers.onEnd();
+      }
+    };
+    recorder.start();
+    limitTimer = setTimeout(() => recorder?.state === 'recording' && recorder.stop(), MAX_RECORDING_MS);
+  }).catch((error: any) => {
+    handlers.onError(describeMicError(error?.name || ''));
+    handlers.onEnd();
+  });
+
+  return {
+    stop: () => {
+      stopRequested = true;
+      if (recorder?.state === 'recording') recorder.stop();
+    },
+    cancel: () => {
+      cancelled = true;
+      if (recorder?.state === 'recording') recorder.stop();
+      else release();
+    },
+  };
+};
+
+/**
+ * Starts push-to-talk dictation. Uses the browser's SpeechRecognition when
+ * available (live interim text, no API cost) and otherwise records the
+ * microphone and hands the clip to `handlers.transcribe` on stop.
+ */
+export const startDictation = (language: VoiceLanguage, handlers: DictationHandlers): DictationSession => {
+  const Recognition = getSpeechRecognition();
+  if (Recognition) {
+    try {
+      return startRecognition(Recognition, language, handlers);
+    } catch (e) {
+      // Some embedded webviews expose the constructor but throw on start; fall back to recording
+    }
+  }
+  return startRecording(language, handlers);
+};
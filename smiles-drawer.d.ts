@@ -0,0 +1,5 @@
+// smiles-drawer only exposes its typings through package "exports", which "moduleResolution": "Node" ignores
+declare module 'smiles-drawer' {
+  import SmilesDrawer from 'smiles-drawer/dist/types/app';
+  export default SmilesDrawer;
+}
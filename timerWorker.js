@@ -1,19 +1,32 @@
+// Counts down to an absolute deadline instead of decrementing a counter, so
+// when the browser throttles or suspends the worker the next tick simply
+// reads the clock and lands on the right time.
 let timerId = null;
-let timeLeft = 0;
+let endsAt = 0;
+
+const stop = () => {
+  if (timerId) clearTimeout(timerId);
+  timerId = null;
+};
+
+const tick = () => {
+  const remainingMs = endsAt - Date.now();
+  if (remainingMs <= 0) {
+    timerId = null;
+    self.postMessage({ type: 'EXPIRED', endsAt });
+    return;
+  }
+  self.postMessage({ type: 'TICK', endsAt, timeLeft: Math.ceil(remainingMs / 1000) });
+  // Wake just past the next whole second so the display never skips a number
+  timerId = setTimeout(tick, (remainingMs % 1000) + 20);
+};
 
 self.onmessage = (e) => {
   if (e.data.type === 'START') {
-    timeLeft = e.data.timeLeft;
-    if (timerId) clearInterval(timerId);
-    timerId = setInterval(() => {
-      timeLeft--;
-      self.postMessage({ type: 'TICK', timeLeft });
-      if (timeLeft <= 0) {
-        clearInterval(timerId);
-        self.postMessage({ type: 'EXPIRED' });
-      }
-    }, 1000);
+    stop();
+    endsAt = e.data.endsAt;
+    tick();
   } else if (e.data.type === 'STOP') {
-    if (timerId) clearInterval(timerId);
+    stop();
   }
 };
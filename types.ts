@@ -1,5 +1,19 @@
 
-export type Subject = 'Math' | 'Physics' | 'Chemistry' | 'Biology' | 'Social' | 'Thai' | 'TPAT1';
+// Subject ids. The seven built-ins use their names as ids; user-defined subjects get a generated one.
+export type Subject = string;
+export type BuiltinSubject = 'Math' | 'Physics' | 'Chemistry' | 'Biology' | 'Social' | 'Thai' | 'TPAT1';
+
+// One entry of the user's subject registry (see subjectService)
+export interface SubjectDefinition {
+  id: Subject;
+  name: string;
+  color: string; // #rrggbb
+  icon: string; // emoji
+  description: string;
+  prompt: string; // Default tutor instructions; a saved persona overrides them
+  builtin?: boolean;
+  hidden?: boolean; // Built-ins can be hidden but not deleted
+}
 
 export type DayOfWeek = 'Monday' | 'Tuesday' | 'Wednesday' | 'Thursday' | 'Friday' | 'Saturday' | 'Sunday';
 
@@ -11,6 +25,13 @@ export interface StudySession {
   endTime: string;   // HH:mm
 }
 
+export interface StudyPlanRequest {
+  examDates: { aLevel?: string; tpat1?: string }; // YYYY-MM-DD
+  availableHours: Record<DayOfWeek, number>;
+  earliestStart: string; // HH:mm, the model must not schedule before this
+  weakness: Record<Subject, number>; // 1 = strong, 5 = very weak
+}
+
 export interface Schedule {
   id: string;
   name: string;
@@ -18,34 +39,204 @@ export interface Schedule {
   createdAt: number;
 }
 
+export interface ChatAttachment {
+  id: string;
+  name: string;
+  mimeType: string; // image/* or application/pdf
+  data: string; // base64, no data: prefix
+  size: number; // bytes
+}
+
+export type PersonaTone = 'encouraging' | 'neutral' | 'strict';
+export type PersonaLanguage = 'th' | 'en' | 'mixed';
+export type PersonaLevel = 'foundation' | 'exam' | 'advanced';
+export type PersonaStyle = 'direct' | 'socratic';
+
+// Editable tutor behaviour for one subject; composed into a system prompt by personaService
+export interface TutorPersona {
+  subject: Subject;
+  name: string;
+  instructions: string; // Subject expertise and focus, in the author's own words
+  tone: PersonaTone;
+  language: PersonaLanguage;
+  level: PersonaLevel;
+  style: PersonaStyle;
+  useLatex: boolean;
+}
+
+export type AIProviderId = 'gemini' | 'openai' | 'mock';
+
+export type AIErrorKind = 'auth' | 'quota' | 'overload' | 'safety' | 'network' | 'empty' | 'unknown';
+
+// What the settings panel stores. The Gemini key keeps its own storage slot from before providers existed.
+export interface AIProviderSettings {
+  provider: AIProviderId;
+  model: string; // empty = provider default
+  baseUrl: string; // OpenAI-compatible only
+  compatApiKey: string; // OpenAI-compatible only; local servers usually need none
+  maxRetries: number; // extra attempts after a transient failure
+  contextBudget: number; // input tokens per tutor request; 0 = model default
+}
+
+// Resolved connection handed to the AI services
+export interface AIProviderConfig {
+  provider: AIProviderId;
+  model: string;
+  baseUrl: string;
+  apiKey: string;
+  maxRetries: number;
+  contextBudget: number;
+}
+
+// BCP-47 tags accepted by both SpeechRecognition and the Gemini transcription prompt
+export type VoiceLanguage = 'th-TH' | 'en-US';
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'model';
   content: string;
   timestamp: number;
+  attachments?: ChatAttachment[];
   isAudioPlaying?: boolean;
+  isStreaming?: boolean;
+  isTruncated?: boolean; // Generation was stopped before the model finished
+  error?: { kind: AIErrorKind, message: string }; // Set instead of content when the request failed
+  context?: MessageContext; // Model messages only: what was sent to produce this reply
+}
+
+export interface MessageContext {
+  messageIds: string[]; // Earlier messages sent verbatim
+  summaryIncluded: boolean;
+  tokens: number; // Estimated input tokens, including system prompt and question
+  budget: number;
+}
+
+// Rolling summary of turns that no longer fit the context budget; sent pinned ahead of the recent window
+export interface ConversationSummary {
+  content: string;
+  throughMessageId: string; // Last message folded into the summary
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface Conversation {
+  id: string;
+  subject: Subject;
+  title: string;
+  messages: ChatMessage[];
+  summary?: ConversationSummary;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface QuizQuestion {
+  id: string;
+  prompt: string;
+  choices: string[];
+  answerIndex: number;
+  explanation: string;
+}
+
+export interface QuizQuestionResult {
+  questionId: string;
+  selectedIndex: number | null;
+  correct: boolean;
+}
+
+export interface QuizAttempt {
+  id: string;
+  subject: Subject;
+  topic: string;
+  questions: QuizQuestion[];
+  results: QuizQuestionResult[];
+  score: number;
+  timeLimit: number; // seconds
+  startedAt: number;
+  finishedAt: number;
+}
+
+export interface Flashcard {
+  id: string;
+  noteId?: string; // SavedNote the card was made from
+  subject: Subject;
+  front: string;
+  back: string;
+  easeFactor: number;
+  interval: number; // days
+  repetitions: number;
+  dueAt: number;
+  createdAt: number;
+  lastReviewedAt?: number;
 }
 
+// SM-2 quality of recall: 0 = blackout, 5 = perfect
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
 export enum View {
   MENU = 'menu',
   EDITOR = 'editor',
   DASHBOARD = 'dashboard',
   AI_TUTOR = 'ai_tutor',
   VAULT = 'vault',
+  QUIZ = 'quiz',
+  REVIEW = 'review',
+  ANALYTICS = 'analytics',
   AUTH = 'auth'
 }
 
 export interface SavedNote {
   id: string;
   subject: Subject;
+  title: string;
+  tags: string[];
   content: string;
   timestamp: number;
+  updatedAt?: number; // Set when the note is edited in the Vault
+  source?: NoteSource; // Absent for notes saved before backlinks existed
+}
+
+// Where a note was saved from. The Q&A text is a snapshot so the note still has its context
+// after the conversation is deleted or evicted from the chat store
+export interface NoteSource {
+  conversationId: string;
+  messageId: string;
+  conversationTitle: string;
+  question: string;
+  answer: string;
+}
+
+export interface StudyLogEntry {
+  id: string;
+  subject: Subject | null; // null when the timer ran without a tutor subject selected
+  source: 'timer' | 'schedule';
+  status: 'completed' | 'skipped';
+  sessionId?: string; // StudySession this block was planned as
+  startedAt: number;
+  endedAt: number;
+  plannedMinutes: number;
+  actualMinutes: number;
+}
+
+export type TimerMode = 'study' | 'break' | 'longBreak';
+
+export interface TimerProfile {
+  id: string;
+  name: string;
+  studyMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  cyclesBeforeLongBreak: number;
+  autoStartBreaks: boolean;
+  autoStartStudy: boolean;
 }
 
 export interface TimerState {
   isActive: boolean;
   timeLeft: number;
-  mode: 'study' | 'break';
+  mode: TimerMode;
+  completedCycles: number; // study phases finished since the last long break
+  endsAt?: number; // While running: epoch ms the phase ends; timeLeft is derived from it
+  phaseStartedAt?: number; // When the current study phase first started, for the study log
 }
 
 declare global {